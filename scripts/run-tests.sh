@@ -72,22 +72,27 @@ echo ""
 echo "⚙️  Running ChatGPTAPI Unit Tests..."
 npx jest test/chatgpt-api.test.js --verbose --coverage=false
 
-# 4. Integration tests
+# 4. Provider adapter tests (local mock HTTP server)
+echo ""
+echo "🔌 Running Provider Adapter Tests..."
+npx jest test/providers.test.js --verbose --coverage=false
+
+# 5. Integration tests
 echo ""
 echo "🔗 Running Integration Tests..."
 npx jest test/integration.test.js --verbose --coverage=false
 
-# 5. Error handling tests
+# 6. Error handling tests
 echo ""
 echo "🚨 Running Error Handling Tests..."
 npx jest test/error-handling.test.js --verbose --coverage=false
 
-# 6. Performance tests
+# 7. Performance tests
 echo ""
 echo "⚡ Running Performance Tests..."
 npx jest test/performance.test.js --verbose --coverage=false
 
-# 7. Run all tests with coverage
+# 8. Run all tests with coverage
 echo ""
 echo "📊 Running All Tests with Coverage Analysis..."
 npx jest --coverage --coverageReporters=text --coverageReporters=html --coverageReporters=json-summary
@@ -10,32 +10,69 @@ enum SettingItemType {
   Bool = 3
 }
 
-// Toolbar button location enum
+// Toolbar button location enum (values match Joplin's ToolbarButtonLocation)
 enum ToolbarButtonLocation {
-  NoteToolbar = 1,
-  EditorToolbar = 2
+  NoteToolbar = 'noteToolbar',
+  EditorToolbar = 'editorToolbar'
 }
 
 // Note: MenuItemLocation should be imported from 'api/types' but we'll define it here for now
 // In a proper setup, you would import it like: import { MenuItemLocation } from 'api/types';
 enum MenuItemLocation {
-  Tools = 1,
-  File = 2,
-  Edit = 3,
-  View = 4,
-  Note = 5,
-  Help = 6
+  Tools = 'tools',
+  File = 'file',
+  Edit = 'edit',
+  View = 'view',
+  Note = 'note',
+  Help = 'help',
+  NoteListContextMenu = 'noteListContextMenu',
+  FolderContextMenu = 'folderContextMenu'
 }
 
 // Type definitions for our plugin
 interface ChatGPTAPISettings {
+  provider: string;
   openaiApiKey: string;
+  customBaseUrl: string;
+  customApiKey: string;
+  azureEndpoint: string;
+  azureApiKey: string;
+  azureApiVersion: string;
+  azureDeployments: string;
+  anthropicApiKey: string;
   openaiModel: string;
+  embeddingModel: string;
+  imageModel: string;
+  transcriptionModel: string;
+  // OpenAI-compatible server used for transcription instead of the AI provider, e.g. a local whisper server
+  transcriptionBaseUrl: string;
   maxTokens: number;
   systemPrompt: string;
   autoSave: boolean;
   reasoningEffort: string;
   verbosity: string;
+  streamResponses: boolean;
+}
+
+// Options for a single sendMessage call
+interface SendMessageOptions {
+  // Receives each text delta as it arrives; when set (and streaming is enabled) the request uses SSE streaming
+  onDelta?: (delta: string) => void;
+  // Extra system context for this request only (e.g. the selected note); it is not kept in the conversation history
+  context?: string;
+  // Leave the conversation out of the request and don't record the exchange (batch jobs, one-off helpers)
+  stateless?: boolean;
+  // Cancels this request when aborted, like the Stop button does for chat requests
+  signal?: AbortSignal;
+  // Asks providers that support structured output for JSON matching this schema (see sendStructured)
+  responseSchema?: StructuredOutputSchema;
+  // Functions the model may call; each call is checked against its schema and passed to onToolCall, and the
+  // result is sent back until the model answers in text. Replies aren't streamed while tools are offered
+  tools?: ToolDefinition[];
+  // Runs one tool call and returns the result for the model; a thrown error is reported to the model instead
+  onToolCall?: (call: ToolCall) => Promise<string>;
+  // Images or PDFs sent with this message only; the conversation history keeps just the text
+  attachments?: ChatAttachment[];
 }
 
 interface WebviewMessage {
@@ -44,7 +81,26 @@ interface WebviewMessage {
   sender?: string;
   action?: string;
   message?: string;
-  correctedText?: string;
+  sessionId?: string;
+  name?: string;
+  decision?: string;
+  acceptedHunks?: number[];
+  acceptedSuggestions?: number[];
+  templateId?: string;
+  personaId?: string;
+  enabled?: boolean;
+  includeLinked?: boolean;
+  searchNotes?: boolean;
+  noteTools?: boolean;
+  noteId?: string;
+  attachmentId?: string;
+  imageId?: string;
+}
+
+// A request that is currently waiting on the API
+interface ActiveRequest {
+  controller: AbortController;
+  cancelled: boolean;
 }
 
 interface Note {
@@ -55,11 +111,17 @@ interface Note {
 }
 
 interface ChatGPTResponse {
-  choices: Array<{
+  // Chat completions
+  choices?: Array<{
     message: {
       content: string;
     };
   }>;
+  // Responses API: message items hold output_text parts (function_call items hold tool calls)
+  output?: Array<{
+    type: string;
+    content?: Array<{ type: string; text?: string }>;
+  }>;
   usage?: {
     prompt_tokens: number;
     completion_tokens: number;
@@ -68,263 +130,787 @@ interface ChatGPTResponse {
   model?: string;
 }
 
-// ChatGPT API class with proper typing
-class ChatGPTAPI {
-  private settings: ChatGPTAPISettings;
-  private conversationHistory: Array<{role: 'user' | 'assistant', content: string}> = [];
-
-  constructor() {
-    this.settings = {
-      openaiApiKey: '',
-      openaiModel: 'gpt-5.1',
-      maxTokens: 1000,
-      systemPrompt: `*System Prompt (for Joplin + ChatGPT)*
+// ===== AI PROVIDERS =====
 
-You are an AI Executive Assistant working inside the Joplin note-taking system. You support a busy executive by improving their notes, helping with writing, research, and organization. Always respond in *clear, concise, professional* language and use *Markdown* formatting suitable for Joplin.
+// Connection settings needed to build a provider
+interface ProviderConfig {
+  provider: string;
+  openaiApiKey: string;
+  customBaseUrl: string;
+  customApiKey: string;
+  azureEndpoint: string;
+  azureApiKey: string;
+  azureApiVersion: string;
+  // Comma-separated deployment names, offered in the model selector
+  azureDeployments: string;
+  anthropicApiKey: string;
+}
 
-Your primary responsibilities:
+// Message in the provider-neutral format used by ChatGPTAPI
+interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Tools the assistant called in this turn
+  toolCalls?: ToolCall[];
+  // The call a 'tool' message answers
+  toolCallId?: string;
+  // Images or PDFs sent with a user message
+  attachments?: ChatAttachment[];
+}
 
-1.⁠ ⁠*Writing & Editing*
-   - Correct grammar, spelling, punctuation, and awkward phrasing.
-   - Improve clarity, tone, and structure while preserving the original meaning and intent.
-   - Adapt tone to be professional, concise, and executive-ready (e.g., for emails, memos, reports, summaries).
-   - When asked to "polish," "rewrite," or "make this more professional," return an improved version, not commentary, unless explicitly requested.
-   - When appropriate, offer alternative phrasings or bullet-point versions for quick reading.
+// Everything a provider needs to build one chat request
+interface ChatRequestParams {
+  model: string;
+  messages: ProviderMessage[];
+  maxTokens: number;
+  reasoningEffort: string;
+  verbosity: string;
+  stream: boolean;
+  // Constrains the reply to a JSON schema, on providers that support it
+  responseSchema?: StructuredOutputSchema;
+  // Functions the model may call instead of answering
+  tools?: ToolDefinition[];
+}
 
-2.⁠ ⁠*Summarization*
-   - Summarize notes, documents, or conversations into:
-     - *Brief summaries* (2–4 sentences) for quick scanning.
-     - *Executive summaries* with:
-       - Purpose / context  
-       - Key points  
-       - Risks / issues  
-       - Recommended next steps or decisions
-   - Use headings and bullet points where helpful.
-   - If the input is long or unclear, briefly state your assumptions.
+// A chat backend: where requests go, how they are authenticated and how payloads are mapped
+interface ChatProvider {
+  readonly id: string;
+  readonly label: string;
+  // Returns a user-facing message when required settings (key, URL, ...) are missing
+  getConfigurationError(): string | null;
+  validateApiKey(apiKey: string): boolean;
+  getChatEndpoint(model: string): string;
+  getHeaders(): {[key: string]: string};
+  buildChatRequestBody(params: ChatRequestParams): any;
+  parseChatResponse(data: any): string;
+  // Tool calls in a complete response (empty when the model answered in text)
+  parseToolCalls(data: any): ToolCall[];
+  // Returns the text delta carried by one parsed stream event ('' if none)
+  parseStreamEvent(event: any): string;
+  listModels(): Promise<ModelInfo[]>;
+  // Where embeddings requests go, or null when the provider has no embeddings API
+  getEmbeddingsEndpoint(model: string): string | null;
+  buildEmbeddingsRequestBody(model: string, inputs: string[]): any;
+  // Where image generation requests go, or null when the provider can't generate images
+  getImagesEndpoint(model: string): string | null;
+  buildImageRequestBody(model: string, prompt: string): any;
+  // Where speech-to-text requests go, or null when the provider can't transcribe audio
+  getTranscriptionsEndpoint(model: string): string | null;
+  buildTranscriptionRequestBody(model: string, audio: AudioFile): FormData;
+}
 
-3.⁠ ⁠*Research & Analysis*
-   - Research topics on behalf of the executive (within your knowledge cutoff) and provide:
-     - Concise overviews
-     - Key facts, pros/cons, and implications
-     - Actionable recommendations or decision points
-   - Clearly label any uncertain or approximate information.
-   - Suggest how findings might be integrated into existing notes, plans, or documents.
+// OpenAI's hosted API: https://api.openai.com/v1/chat/completions, plus /responses for o3/o4-mini
+class OpenAIProvider implements ChatProvider {
+  readonly id: string = 'openai';
+  readonly label: string = 'OpenAI';
+  protected apiKey: string;
+  protected baseUrl: string;
 
-4.⁠ ⁠*Task & Note Structuring*
-   - Help turn unstructured notes into:
-     - Action item lists (with owners, deadlines if given, and status)
-     - Meeting notes (Agenda, Discussion, Decisions, Action Items)
-     - Project outlines (Goals, Scope, Timeline, Risks, Stakeholders)
-   - Propose headings and logical structures that make notes more usable and scannable.
+  constructor(apiKey: string, baseUrl = 'https://api.openai.com/v1') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
 
-5.⁠ ⁠*Joplin-Friendly Formatting*
-   - Always use *Markdown*:
-     - ⁠ # ⁠ / ⁠ ## ⁠ / ⁠ ### ⁠ for headings
-     - ⁠ - ⁠ or ⁠ 1. ⁠ for lists
-     - Code fences \`\`\` for code or templates where needed
-   - Avoid decorative formatting that doesn't translate well to Markdown.
-   - When providing templates (e.g., for meetings, emails, reports), format them clearly for copy-paste into a Joplin note.
+  getConfigurationError(): string | null {
+    if (!this.apiKey) {
+      return 'OpenAI API key is not set. Please configure it in Settings → Plugins → ChatGPT Toolkit.';
+    }
+    return null;
+  }
 
-6.⁠ ⁠*Interaction Style*
-   - Be concise and direct; avoid unnecessary fluff.
-   - Ask *brief clarification questions* only when needed to avoid misunderstanding.
-   - Assume time is limited: prioritize clarity, key points, and actionable recommendations.
-   - When the user pastes raw text and does not specify what they want, infer a likely intent (e.g., "summarize," "polish," or "extract action items") and briefly state what you're doing before responding.
+  // Validate API key format
+  validateApiKey(apiKey: string): boolean {
+    if (!apiKey || typeof apiKey !== 'string') {
+      return false;
+    }
+    
+    // Check for basic OpenAI API key format (sk- or sk-proj- prefix)
+    if (!apiKey.startsWith('sk-')) {
+      console.warn('API key validation: Key should start with "sk-"');
+      return true; // Allow anyway, just warn
+    }
+    
+    // Current API keys are typically 150+ characters
+    if (apiKey.length < 20 || apiKey.length > 200) {
+      return false;
+    }
+    
+    // Allow letters, numbers, hyphens, underscores, and periods
+    // Modern OpenAI API keys follow format: sk-proj-[long alphanumeric string]
+    if (!/^sk-[A-Za-z0-9\-_\.]+$/.test(apiKey)) {
+      return false;
+    }
+    
+    return true;
+  }
 
-7.⁠ ⁠*Confidentiality & Caution*
-   - Treat all content as sensitive executive material.
-   - Avoid making unsupported claims; highlight assumptions and unknowns.
-   - When suggesting decisions, clearly separate *facts, **risks, and **recommendations*.
+  protected usesResponsesEndpoint(model: string): boolean {
+    return model.startsWith('o3') || model === 'o4-mini';
+  }
 
-Default behaviors when the user's request is ambiguous:
-•⁠  ⁠If the text is long → provide an *executive summary* plus a *bullet list of key points*.
-•⁠  ⁠If the text is rough/fragmented → *clean up and structure it*, preserving meaning.
-•⁠  ⁠If the text looks like meeting notes → *extract decisions and action items*.
+  getChatEndpoint(model: string): string {
+    return this.usesResponsesEndpoint(model)
+      ? `${this.baseUrl}/responses`
+      : `${this.baseUrl}/chat/completions`;
+  }
 
-Always optimize your responses so they are immediately useful to a busy executive reading within Joplin.`,
-      autoSave: true,
-      reasoningEffort: 'low',
-      verbosity: 'low'
+  getHeaders(): {[key: string]: string} {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`
     };
   }
 
-  async loadSettings(): Promise<void> {
-    this.settings.openaiApiKey = await joplin.settings.value('openaiApiKey');
-    const modelValue = await joplin.settings.value('openaiModel');
-    
-    // Validate model if not blank
-    if (modelValue && modelValue.trim() !== '') {
-      const isValid = await this.validateModel(modelValue);
-      if (!isValid.valid) {
-        console.warn('Invalid model specified:', modelValue);
-        console.warn('Valid models:', isValid.validModels.join(', '));
-        // Show error to user
-        await joplin.views.dialogs.showMessageBox(
-          `Invalid model: "${modelValue}"\n\n` +
-          `Valid models are:\n${isValid.validModels.join(', ')}\n\n` +
-          `Leave the field blank to auto-select the latest general model.`
-        );
-        // Reset to blank to trigger auto-select
-        await joplin.settings.setValue('openaiModel', '');
-        this.settings.openaiModel = '';
+  buildChatRequestBody(params: ChatRequestParams): any {
+    const model = params.model;
+    const responsesApi = this.usesResponsesEndpoint(model);
+    let tokenLimit: any;
+    if (responsesApi) {
+      tokenLimit = { max_output_tokens: params.maxTokens };
+    } else if (model.includes('gpt-5') || model.includes('gpt-4.1') || model.startsWith('o')) {
+      tokenLimit = { max_completion_tokens: params.maxTokens };
+    } else {
+      tokenLimit = { max_tokens: params.maxTokens };
+    }
+    const requestBody: any = {
+      model: model,
+      ...(responsesApi
+        ? { input: this.formatResponsesInput(params.messages) }
+        : { messages: this.formatMessages(params.messages) }
+      ),
+      ...tokenLimit,
+      stream: params.stream
+    };
+
+    // Add new parameters for newer models
+    if (responsesApi) {
+      // The Responses API nests the effort under reasoning
+      requestBody.reasoning = { effort: params.reasoningEffort };
+    } else if (model.includes('gpt-5') || model.startsWith('o')) {
+      requestBody.reasoning_effort = params.reasoningEffort; // low, medium, high
+      requestBody.verbosity = params.verbosity; // low, medium, high
+    }
+
+    if (params.responseSchema) {
+      const format = { name: params.responseSchema.name, schema: params.responseSchema.schema, strict: true };
+      if (responsesApi) {
+        requestBody.text = { format: { type: 'json_schema', ...format } };
       } else {
-        this.settings.openaiModel = modelValue;
+        requestBody.response_format = { type: 'json_schema', json_schema: format };
       }
-    } else {
-      this.settings.openaiModel = '';
     }
-    
-    this.settings.maxTokens = await joplin.settings.value('maxTokens');
-    
-    // Load system prompt from file (always returns a default if file doesn't exist)
-    try {
-      this.settings.systemPrompt = await this.loadSystemPromptFromFile();
-      // Ensure we always have a non-empty system prompt
-      if (!this.settings.systemPrompt || this.settings.systemPrompt.trim().length === 0) {
-        console.warn('[ChatGPT API] System prompt was empty, using default');
-        this.settings.systemPrompt = `*System Prompt (for Joplin + ChatGPT)*
 
-You are an AI Executive Assistant working inside the Joplin note-taking system. You support a busy executive by improving their notes, helping with writing, research, and organization. Always respond in *clear, concise, professional* language and use *Markdown* formatting suitable for Joplin.
+    if (params.tools && params.tools.length > 0) {
+      requestBody.tools = responsesApi
+        ? params.tools.map(tool => ({ type: 'function', name: tool.name, description: tool.description, parameters: tool.parameters }))
+        : this.formatTools(params.tools);
+    }
 
-Your primary responsibilities:
+    return requestBody;
+  }
 
-1.⁠ ⁠*Writing & Editing*
-   - Correct grammar, spelling, punctuation, and awkward phrasing.
-   - Improve clarity, tone, and structure while preserving the original meaning and intent.
-   - Adapt tone to be professional, concise, and executive-ready (e.g., for emails, memos, reports, summaries).
-   - When asked to "polish," "rewrite," or "make this more professional," return an improved version, not commentary, unless explicitly requested.
-   - When appropriate, offer alternative phrasings or bullet-point versions for quick reading.
+  // Chat completions carry tool calls on the assistant message and each result as a 'tool' message
+  protected formatMessages(messages: ProviderMessage[]): any[] {
+    return messages.map(message => {
+      if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      }
+      if (message.toolCalls) {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+      if (message.attachments && message.attachments.length > 0) {
+        return {
+          role: message.role,
+          content: [{ type: 'text', text: message.content }, ...message.attachments.map(attachment => this.formatAttachment(attachment))]
+        };
+      }
+      return { role: message.role, content: message.content };
+    });
+  }
 
-2.⁠ ⁠*Summarization*
-   - Summarize notes, documents, or conversations into:
-     - *Brief summaries* (2–4 sentences) for quick scanning.
-     - *Executive summaries* with:
-       - Purpose / context  
-       - Key points  
-       - Risks / issues  
-       - Recommended next steps or decisions
-   - Use headings and bullet points where helpful.
-   - If the input is long or unclear, briefly state your assumptions.
+  // Images go as image_url parts and PDFs as file parts, both inline as data URLs
+  protected formatAttachment(attachment: ChatAttachment): any {
+    return attachment.mimeType === 'application/pdf'
+      ? { type: 'file', file: { filename: attachment.name, file_data: attachmentDataUrl(attachment) } }
+      : { type: 'image_url', image_url: { url: attachmentDataUrl(attachment) } };
+  }
 
-3.⁠ ⁠*Research & Analysis*
-   - Research topics on behalf of the executive (within your knowledge cutoff) and provide:
-     - Concise overviews
-     - Key facts, pros/cons, and implications
-     - Actionable recommendations or decision points
-   - Clearly label any uncertain or approximate information.
-   - Suggest how findings might be integrated into existing notes, plans, or documents.
+  // The Responses API takes tool calls and their results as separate input items
+  protected formatResponsesInput(messages: ProviderMessage[]): any[] {
+    const input: any[] = [];
+    for (const message of messages) {
+      if (message.role === 'tool') {
+        input.push({ type: 'function_call_output', call_id: message.toolCallId, output: message.content });
+      } else if (message.toolCalls) {
+        if (message.content) {
+          input.push({ role: 'assistant', content: message.content });
+        }
+        input.push(...message.toolCalls.map(call => ({ type: 'function_call', call_id: call.id, name: call.name, arguments: JSON.stringify(call.arguments) })));
+      } else if (message.attachments && message.attachments.length > 0) {
+        input.push({
+          role: message.role,
+          content: [
+            { type: 'input_text', text: message.content },
+            ...message.attachments.map(attachment => (attachment.mimeType === 'application/pdf'
+              ? { type: 'input_file', filename: attachment.name, file_data: attachmentDataUrl(attachment) }
+              : { type: 'input_image', image_url: attachmentDataUrl(attachment) }))
+          ]
+        });
+      } else {
+        input.push({ role: message.role, content: message.content });
+      }
+    }
+    return input;
+  }
 
-4.⁠ ⁠*Task & Note Structuring*
-   - Help turn unstructured notes into:
-     - Action item lists (with owners, deadlines if given, and status)
-     - Meeting notes (Agenda, Discussion, Decisions, Action Items)
-     - Project outlines (Goals, Scope, Timeline, Risks, Stakeholders)
-   - Propose headings and logical structures that make notes more usable and scannable.
+  protected formatTools(tools: ToolDefinition[]): any[] {
+    return tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+  }
 
-5.⁠ ⁠*Joplin-Friendly Formatting*
-   - Always use *Markdown*:
-     - ⁠ # ⁠ / ⁠ ## ⁠ / ⁠ ### ⁠ for headings
-     - ⁠ - ⁠ or ⁠ 1. ⁠ for lists
-     - Code fences \`\`\` for code or templates where needed
-   - Avoid decorative formatting that doesn't translate well to Markdown.
-   - When providing templates (e.g., for meetings, emails, reports), format them clearly for copy-paste into a Joplin note.
+  parseChatResponse(data: ChatGPTResponse): string {
+    console.info(`[ChatGPT API] Parsed response:`, {
+      choices: data.choices?.length || 0,
+      output: data.output?.length || 0,
+      usage: data.usage,
+      model: data.model
+    });
 
-6.⁠ ⁠*Interaction Style*
-   - Be concise and direct; avoid unnecessary fluff.
-   - Ask *brief clarification questions* only when needed to avoid misunderstanding.
-   - Assume time is limited: prioritize clarity, key points, and actionable recommendations.
-   - When the user pastes raw text and does not specify what they want, infer a likely intent (e.g., "summarize," "polish," or "extract action items") and briefly state what you're doing before responding.
+    // Responses API (o3, o4-mini): the reply is the output_text parts of the message items
+    if (Array.isArray(data.output)) {
+      const text = data.output
+        .filter(item => item.type === 'message')
+        .flatMap(item => item.content || [])
+        .filter(part => part.type === 'output_text')
+        .map(part => part.text || '')
+        .join('');
+      if (!text) {
+        console.error(`[ChatGPT API] No output_text in response:`, data.output);
+        throw new Error('No content in ChatGPT response');
+      }
+      return text;
+    }
 
-7.⁠ ⁠*Confidentiality & Caution*
-   - Treat all content as sensitive executive material.
-   - Avoid making unsupported claims; highlight assumptions and unknowns.
-   - When suggesting decisions, clearly separate *facts, **risks, and **recommendations*.
+    if (!data.choices || data.choices.length === 0) {
+      console.error(`[ChatGPT API] No choices in response:`, data);
+      throw new Error('No response choices received from ChatGPT');
+    }
 
-Default behaviors when the user's request is ambiguous:
-•⁠  ⁠If the text is long → provide an *executive summary* plus a *bullet list of key points*.
-•⁠  ⁠If the text is rough/fragmented → *clean up and structure it*, preserving meaning.
-•⁠  ⁠If the text looks like meeting notes → *extract decisions and action items*.
+    const content = data.choices[0]?.message?.content;
+    if (!content) {
+      console.error(`[ChatGPT API] No content in first choice:`, data.choices[0]);
+      throw new Error('No content in ChatGPT response');
+    }
 
-Always optimize your responses so they are immediately useful to a busy executive reading within Joplin.`;
-      }
-    } catch (error: any) {
-      console.error('[ChatGPT API] Error loading system prompt, using default:', error);
-      // Fallback to hardcoded default
-      this.settings.systemPrompt = `*System Prompt (for Joplin + ChatGPT)*
+    return content;
+  }
 
-You are an AI Executive Assistant working inside the Joplin note-taking system. You support a busy executive by improving their notes, helping with writing, research, and organization. Always respond in *clear, concise, professional* language and use *Markdown* formatting suitable for Joplin.
+  parseToolCalls(data: any): ToolCall[] {
+    // Responses API: function_call items in output; chat completions: tool_calls on the first choice
+    const calls = Array.isArray(data.output)
+      ? data.output
+        .filter((item: any) => item.type === 'function_call')
+        .map((item: any) => ({ id: item.call_id, name: item.name, arguments: item.arguments }))
+      : (data.choices?.[0]?.message?.tool_calls || [])
+        .map((call: any) => ({ id: call.id, name: call.function?.name, arguments: call.function?.arguments }));
+    return calls.map((call: ToolCall) => ({ ...call, arguments: parseToolArguments(call.arguments) }));
+  }
 
-Your primary responsibilities:
+  parseStreamEvent(event: any): string {
+    // Chat completions: { choices: [{ delta: { content } }] }
+    if (event.choices) {
+      return event.choices[0]?.delta?.content || '';
+    }
 
-1.⁠ ⁠*Writing & Editing*
-   - Correct grammar, spelling, punctuation, and awkward phrasing.
-   - Improve clarity, tone, and structure while preserving the original meaning and intent.
-   - Adapt tone to be professional, concise, and executive-ready (e.g., for emails, memos, reports, summaries).
-   - When asked to "polish," "rewrite," or "make this more professional," return an improved version, not commentary, unless explicitly requested.
-   - When appropriate, offer alternative phrasings or bullet-point versions for quick reading.
+    // Responses API: { type: 'response.output_text.delta', delta }
+    if (event.type === 'response.output_text.delta') {
+      return event.delta || '';
+    }
 
-2.⁠ ⁠*Summarization*
-   - Summarize notes, documents, or conversations into:
-     - *Brief summaries* (2–4 sentences) for quick scanning.
-     - *Executive summaries* with:
-       - Purpose / context  
-       - Key points  
-       - Risks / issues  
-       - Recommended next steps or decisions
-   - Use headings and bullet points where helpful.
-   - If the input is long or unclear, briefly state your assumptions.
+    return '';
+  }
 
-3.⁠ ⁠*Research & Analysis*
-   - Research topics on behalf of the executive (within your knowledge cutoff) and provide:
-     - Concise overviews
-     - Key facts, pros/cons, and implications
-     - Actionable recommendations or decision points
-   - Clearly label any uncertain or approximate information.
-   - Suggest how findings might be integrated into existing notes, plans, or documents.
+  getEmbeddingsEndpoint(_model: string): string | null {
+    return `${this.baseUrl}/embeddings`;
+  }
 
-4.⁠ ⁠*Task & Note Structuring*
-   - Help turn unstructured notes into:
-     - Action item lists (with owners, deadlines if given, and status)
-     - Meeting notes (Agenda, Discussion, Decisions, Action Items)
-     - Project outlines (Goals, Scope, Timeline, Risks, Stakeholders)
-   - Propose headings and logical structures that make notes more usable and scannable.
+  buildEmbeddingsRequestBody(model: string, inputs: string[]): any {
+    return { model, input: inputs };
+  }
 
-5.⁠ ⁠*Joplin-Friendly Formatting*
-   - Always use *Markdown*:
-     - ⁠ # ⁠ / ⁠ ## ⁠ / ⁠ ### ⁠ for headings
-     - ⁠ - ⁠ or ⁠ 1. ⁠ for lists
-     - Code fences \`\`\` for code or templates where needed
-   - Avoid decorative formatting that doesn't translate well to Markdown.
-   - When providing templates (e.g., for meetings, emails, reports), format them clearly for copy-paste into a Joplin note.
+  getImagesEndpoint(_model: string): string | null {
+    return `${this.baseUrl}/images/generations`;
+  }
 
-6.⁠ ⁠*Interaction Style*
-   - Be concise and direct; avoid unnecessary fluff.
-   - Ask *brief clarification questions* only when needed to avoid misunderstanding.
-   - Assume time is limited: prioritize clarity, key points, and actionable recommendations.
-   - When the user pastes raw text and does not specify what they want, infer a likely intent (e.g., "summarize," "polish," or "extract action items") and briefly state what you're doing before responding.
+  // gpt-image-1 always returns base64; DALL·E returns a URL unless asked otherwise
+  buildImageRequestBody(model: string, prompt: string): any {
+    return {
+      model,
+      prompt,
+      n: 1,
+      size: IMAGE_SIZE,
+      ...(model.startsWith('dall-e') ? { response_format: 'b64_json' } : {})
+    };
+  }
 
-7.⁠ ⁠*Confidentiality & Caution*
-   - Treat all content as sensitive executive material.
-   - Avoid making unsupported claims; highlight assumptions and unknowns.
-   - When suggesting decisions, clearly separate *facts, **risks, and **recommendations*.
+  getTranscriptionsEndpoint(_model: string): string | null {
+    return `${this.baseUrl}/audio/transcriptions`;
+  }
 
-Default behaviors when the user's request is ambiguous:
-•⁠  ⁠If the text is long → provide an *executive summary* plus a *bullet list of key points*.
-•⁠  ⁠If the text is rough/fragmented → *clean up and structure it*, preserving meaning.
-•⁠  ⁠If the text looks like meeting notes → *extract decisions and action items*.
+  buildTranscriptionRequestBody(model: string, audio: AudioFile): FormData {
+    const form = new FormData();
+    form.append('model', model);
+    form.append('file', audio.data, audio.name);
+    form.append('response_format', 'json');
+    return form;
+  }
 
-Always optimize your responses so they are immediately useful to a busy executive reading within Joplin.`;
-    }
+  // Only offer chat models from gpt-4o onwards
+  protected isChatModel(id: string): boolean {
+    // Filter for relevant models (chat models, not embeddings, etc.)
+    const isRelevantModel = id.includes('gpt') || id.startsWith('o1') || id.startsWith('o3') || id.startsWith('o4');
     
-    this.settings.autoSave = await joplin.settings.value('autoSave');
-    this.settings.reasoningEffort = await joplin.settings.value('reasoningEffort');
-    this.settings.verbosity = await joplin.settings.value('verbosity');
+    // Only include gpt-4o and newer (exclude gpt-4, gpt-4-turbo, gpt-3.5-turbo)
+    const is4oOrNewer = 
+      id.startsWith('gpt-4o') ||           // gpt-4o, gpt-4o-mini
+      id.startsWith('gpt-4.1') ||          // gpt-4.1, gpt-4.1-mini, gpt-4.1-nano
+      id.startsWith('gpt-5') ||            // gpt-5, gpt-5.1, gpt-5-mini, gpt-5-nano
+      id.startsWith('o1') ||               // o1, o1-preview
+      id.startsWith('o3') ||               // o3, o3-mini
+      id.startsWith('o4');                 // o4-mini
+    
+    return isRelevantModel && is4oOrNewer;
   }
 
-  // Load system prompt from file (similar to Joplin's styles)
-  async loadSystemPromptFromFile(): Promise<string> {
-    // Default prompt - always use this as fallback
-    const defaultPrompt = `*System Prompt (for Joplin + ChatGPT)*
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+
+    if (!response.ok) {
+      console.warn(`Failed to fetch models from ${this.label}:`, response.status, response.statusText);
+      return [];
+    }
+
+    const data = await response.json();
+    if (!data.data || !Array.isArray(data.data)) {
+      return [];
+    }
+
+    return data.data
+      .filter((model: any) => this.isChatModel(model.id || ''))
+      .map((model: any) => ({
+        id: model.id,
+        created: model.created || 0,
+        owned_by: model.owned_by
+      }))
+      // Sort by created date (newest first)
+      .sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
+  }
+}
+
+// Any server exposing the OpenAI chat completions API under a custom base URL (Ollama, llama.cpp, vLLM, ...)
+class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly id: string = 'openaiCompatible';
+  readonly label: string = 'OpenAI-compatible server';
+
+  getConfigurationError(): string | null {
+    if (!this.baseUrl) {
+      return 'Custom base URL is not set. Please configure it in Settings → Plugins → ChatGPT Toolkit (e.g. http://localhost:11434/v1).';
+    }
+    return null;
+  }
+
+  // Local servers accept any key format, or none at all
+  validateApiKey(apiKey: string): boolean {
+    return typeof apiKey === 'string';
+  }
+
+  protected usesResponsesEndpoint(_model: string): boolean {
+    return false;
+  }
+
+  getHeaders(): {[key: string]: string} {
+    const headers: {[key: string]: string} = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  // Stick to the parameters every compatible server understands; servers differ on response_format,
+  // so structured replies rely on the schema in the prompt and validation instead. Tools are only sent when
+  // the user turned them on, and Ollama, llama.cpp and vLLM all take them in OpenAI's format
+  buildChatRequestBody(params: ChatRequestParams): any {
+    return {
+      model: params.model,
+      messages: this.formatMessages(params.messages),
+      max_tokens: params.maxTokens,
+      stream: params.stream,
+      ...(params.tools && params.tools.length > 0 ? { tools: this.formatTools(params.tools) } : {})
+    };
+  }
+
+  // Vision models on local servers take images as image_url parts, but there's no common way to send a PDF
+  protected formatAttachment(attachment: ChatAttachment): any {
+    if (attachment.mimeType === 'application/pdf') {
+      throw new Error(`"${attachment.name}" can't be sent to an ${this.label}: only images can be attached there. Use OpenAI, Azure OpenAI or Anthropic for PDFs.`);
+    }
+    return super.formatAttachment(attachment);
+  }
+
+  // Local servers list whatever they have loaded; only hide embedding models
+  protected isChatModel(id: string): boolean {
+    return id !== '' && !/embed/i.test(id);
+  }
+}
+
+// Azure OpenAI: the "model" is a deployment name, auth uses an api-key header and every call carries api-version
+class AzureOpenAIProvider extends OpenAIProvider {
+  readonly id: string = 'azure';
+  readonly label: string = 'Azure OpenAI';
+  private apiVersion: string;
+  private deployments: string[];
+
+  constructor(apiKey: string, endpoint: string, apiVersion: string, deployments: string) {
+    super(apiKey, endpoint);
+    this.apiVersion = apiVersion || '2024-10-21';
+    this.deployments = deployments.split(',').map(name => name.trim()).filter(name => name !== '');
+  }
+
+  getConfigurationError(): string | null {
+    if (!this.baseUrl || !this.apiKey) {
+      return 'Azure OpenAI endpoint or API key is not set. Please configure them in Settings → Plugins → ChatGPT Toolkit.';
+    }
+    if (this.deployments.length === 0) {
+      return 'No Azure OpenAI deployments configured. Add your deployment names in Settings → Plugins → ChatGPT Toolkit.';
+    }
+    return null;
+  }
+
+  // Azure keys are 32-character hex strings (older) or longer base62 strings (newer)
+  validateApiKey(apiKey: string): boolean {
+    return typeof apiKey === 'string' && /^[A-Za-z0-9]{32,}$/.test(apiKey);
+  }
+
+  getChatEndpoint(deployment: string): string {
+    return `${this.baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+
+  getHeaders(): {[key: string]: string} {
+    return {
+      'Content-Type': 'application/json',
+      'api-key': this.apiKey
+    };
+  }
+
+  // The embedding model is a deployment too
+  getEmbeddingsEndpoint(deployment: string): string | null {
+    return `${this.baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/embeddings?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+
+  buildEmbeddingsRequestBody(_deployment: string, inputs: string[]): any {
+    return { input: inputs };
+  }
+
+  // The image model is a deployment too; whether it answers with base64 or a URL depends on the model behind it
+  getImagesEndpoint(deployment: string): string | null {
+    return `${this.baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/images/generations?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+
+  buildImageRequestBody(_deployment: string, prompt: string): any {
+    return { prompt, n: 1, size: IMAGE_SIZE };
+  }
+
+  getTranscriptionsEndpoint(deployment: string): string | null {
+    return `${this.baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/audio/transcriptions?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+
+  buildTranscriptionRequestBody(_deployment: string, audio: AudioFile): FormData {
+    const form = new FormData();
+    form.append('file', audio.data, audio.name);
+    form.append('response_format', 'json');
+    return form;
+  }
+
+  // Deployment names say nothing about the underlying model, so only send parameters every chat deployment accepts
+  buildChatRequestBody(params: ChatRequestParams): any {
+    return {
+      messages: this.formatMessages(params.messages),
+      max_completion_tokens: params.maxTokens,
+      stream: params.stream,
+      // Structured outputs are supported from api-version 2024-08-01-preview
+      ...(params.responseSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: params.responseSchema.name, schema: params.responseSchema.schema, strict: true } } }
+        : {}),
+      ...(params.tools && params.tools.length > 0 ? { tools: this.formatTools(params.tools) } : {})
+    };
+  }
+
+  // Azure has no data-plane call to list deployments, so the configured names are the model list
+  async listModels(): Promise<ModelInfo[]> {
+    return this.deployments.map((name, index) => ({
+      id: name,
+      created: this.deployments.length - index,
+      owned_by: 'azure'
+    }));
+  }
+}
+
+// Anthropic Messages API: the system prompt is a top-level field and replies arrive as content blocks
+class AnthropicProvider implements ChatProvider {
+  readonly id: string = 'anthropic';
+  readonly label: string = 'Anthropic';
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl = 'https://api.anthropic.com/v1') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getConfigurationError(): string | null {
+    if (!this.apiKey) {
+      return 'Anthropic API key is not set. Please configure it in Settings → Plugins → ChatGPT Toolkit.';
+    }
+    return null;
+  }
+
+  validateApiKey(apiKey: string): boolean {
+    return typeof apiKey === 'string' && /^sk-ant-[A-Za-z0-9\-_]+$/.test(apiKey);
+  }
+
+  getChatEndpoint(_model: string): string {
+    return `${this.baseUrl}/messages`;
+  }
+
+  getHeaders(): {[key: string]: string} {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Joplin runs the plugin in a browser context
+      'anthropic-dangerous-direct-browser-access': 'true'
+    };
+  }
+
+  // There is no JSON schema option here, so structured replies rely on the schema in the prompt and validation
+  buildChatRequestBody(params: ChatRequestParams): any {
+    const system = params.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      model: params.model,
+      ...(system ? { system } : {}),
+      messages: this.formatMessages(params.messages),
+      max_tokens: params.maxTokens,
+      stream: params.stream,
+      ...(params.tools && params.tools.length > 0
+        ? { tools: params.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })) }
+        : {})
+    };
+  }
+
+  // Tool calls are tool_use blocks in the assistant turn; their results go back as tool_result blocks in one user turn
+  private formatMessages(messages: ProviderMessage[]): any[] {
+    const formatted: any[] = [];
+    for (const message of messages) {
+      if (message.role === 'system') {
+        continue;
+      }
+      if (message.role === 'tool') {
+        const result = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+        const previous = formatted[formatted.length - 1];
+        if (previous && previous.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(result);
+        } else {
+          formatted.push({ role: 'user', content: [result] });
+        }
+      } else if (message.toolCalls) {
+        formatted.push({
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+          ]
+        });
+      } else if (message.attachments && message.attachments.length > 0) {
+        // Anthropic recommends putting images and documents before the question
+        formatted.push({
+          role: message.role,
+          content: [
+            ...message.attachments.map(attachment => ({
+              type: attachment.mimeType === 'application/pdf' ? 'document' : 'image',
+              source: { type: 'base64', media_type: attachment.mimeType, data: attachment.data }
+            })),
+            { type: 'text', text: message.content }
+          ]
+        });
+      } else {
+        formatted.push({ role: message.role, content: message.content });
+      }
+    }
+    return formatted;
+  }
+
+  parseChatResponse(data: any): string {
+    console.info(`[ChatGPT API] Parsed response:`, {
+      blocks: data.content?.length || 0,
+      usage: data.usage,
+      model: data.model,
+      stop_reason: data.stop_reason
+    });
+
+    if (!Array.isArray(data.content)) {
+      console.error(`[ChatGPT API] No content blocks in response:`, data);
+      throw new Error('No response content received from Anthropic');
+    }
+
+    const content = data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    if (!content) {
+      console.error(`[ChatGPT API] No text in content blocks:`, data.content);
+      throw new Error('No content in Anthropic response');
+    }
+
+    return content;
+  }
+
+  parseToolCalls(data: any): ToolCall[] {
+    return (Array.isArray(data.content) ? data.content : [])
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input }));
+  }
+
+  // Anthropic doesn't offer embeddings
+  getEmbeddingsEndpoint(_model: string): string | null {
+    return null;
+  }
+
+  buildEmbeddingsRequestBody(_model: string, _inputs: string[]): any {
+    throw new Error('Anthropic has no embeddings API');
+  }
+
+  // Claude models don't generate images
+  getImagesEndpoint(_model: string): string | null {
+    return null;
+  }
+
+  buildImageRequestBody(_model: string, _prompt: string): any {
+    throw new Error('Anthropic has no image generation API');
+  }
+
+  // Nor speech-to-text; recordings need a transcription server
+  getTranscriptionsEndpoint(_model: string): string | null {
+    return null;
+  }
+
+  buildTranscriptionRequestBody(_model: string, _audio: AudioFile): FormData {
+    throw new Error('Anthropic has no transcription API');
+  }
+
+  // Text arrives as { type: 'content_block_delta', delta: { type: 'text_delta', text } }
+  parseStreamEvent(event: any): string {
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text || '';
+    }
+    return '';
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.baseUrl}/models?limit=100`, {
+      method: 'GET',
+      headers: this.getHeaders()
+    });
+
+    if (!response.ok) {
+      console.warn(`Failed to fetch models from ${this.label}:`, response.status, response.statusText);
+      return [];
+    }
+
+    const data = await response.json();
+    if (!data.data || !Array.isArray(data.data)) {
+      return [];
+    }
+
+    return data.data
+      .map((model: any) => ({
+        id: model.id,
+        created: model.created_at ? Math.floor(Date.parse(model.created_at) / 1000) : 0,
+        owned_by: 'anthropic'
+      }))
+      .sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
+  }
+}
+
+// Build the provider selected in settings (unknown values fall back to OpenAI)
+function createProvider(config: ProviderConfig): ChatProvider {
+  switch (config.provider) {
+    case 'openaiCompatible':
+      return new OpenAICompatibleProvider(config.customApiKey || '', config.customBaseUrl || '');
+    case 'azure':
+      return new AzureOpenAIProvider(config.azureApiKey || '', config.azureEndpoint || '', config.azureApiVersion || '', config.azureDeployments || '');
+    case 'anthropic':
+      return new AnthropicProvider(config.anthropicApiKey || '');
+    default:
+      return new OpenAIProvider(config.openaiApiKey || '');
+  }
+}
+
+// Read provider settings and build the provider without a ChatGPTAPI instance
+async function loadProviderFromSettings(): Promise<ChatProvider> {
+  return createProvider({
+    provider: await joplin.settings.value('aiProvider'),
+    openaiApiKey: await joplin.settings.value('openaiApiKey'),
+    customBaseUrl: await joplin.settings.value('customBaseUrl'),
+    customApiKey: await joplin.settings.value('customApiKey'),
+    azureEndpoint: await joplin.settings.value('azureEndpoint'),
+    azureApiKey: await joplin.settings.value('azureApiKey'),
+    azureApiVersion: await joplin.settings.value('azureApiVersion'),
+    azureDeployments: await joplin.settings.value('azureDeployments'),
+    anthropicApiKey: await joplin.settings.value('anthropicApiKey')
+  });
+}
+
+// Milliseconds to wait according to a Retry-After header (seconds or an HTTP date); undefined if absent or unreadable
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Embedding model used for note search unless the settings name another one
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Default model for /image in the chat
+const DEFAULT_IMAGE_MODEL = 'gpt-image-1';
+
+// Default speech-to-text model for "Transcribe Attachment"
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+// Built-in system prompt, used until system-prompt.txt (or the prompts notebook) provides one
+const DEFAULT_SYSTEM_PROMPT = `*System Prompt (for Joplin + ChatGPT)*
 
 You are an AI Executive Assistant working inside the Joplin note-taking system. You support a busy executive by improving their notes, helping with writing, research, and organization. Always respond in *clear, concise, professional* language and use *Markdown* formatting suitable for Joplin.
 
@@ -388,7 +974,115 @@ Default behaviors when the user's request is ambiguous:
 •⁠  ⁠If the text looks like meeting notes → *extract decisions and action items*.
 
 Always optimize your responses so they are immediately useful to a busy executive reading within Joplin.`;
+
+// ChatGPT API class with proper typing
+class ChatGPTAPI {
+  private settings: ChatGPTAPISettings;
+  private conversationHistory: Array<{role: 'user' | 'assistant', content: string}> = [];
+  private activeRequests: Set<ActiveRequest> = new Set();
+  // System prompt from the prompts notebook; when set it is used instead of system-prompt.txt
+  private systemPromptOverride: string | null = null;
+  // Persona of the active chat; its system prompt and tuning take precedence over the settings
+  private persona: Persona | null = null;
+  // Model of the active chat, when it has its own; used instead of the Model setting
+  private modelOverride: string | null = null;
+
+  constructor() {
+    this.settings = {
+      provider: 'openai',
+      openaiApiKey: '',
+      customBaseUrl: '',
+      customApiKey: '',
+      azureEndpoint: '',
+      azureApiKey: '',
+      azureApiVersion: '2024-10-21',
+      azureDeployments: '',
+      anthropicApiKey: '',
+      openaiModel: 'gpt-5.1',
+      embeddingModel: DEFAULT_EMBEDDING_MODEL,
+      imageModel: DEFAULT_IMAGE_MODEL,
+      transcriptionModel: DEFAULT_TRANSCRIPTION_MODEL,
+      transcriptionBaseUrl: '',
+      maxTokens: 1000,
+      systemPrompt: DEFAULT_SYSTEM_PROMPT,
+      autoSave: true,
+      reasoningEffort: 'low',
+      verbosity: 'low',
+      streamResponses: true
+    };
+  }
+
+  async loadSettings(): Promise<void> {
+    this.settings.provider = await joplin.settings.value('aiProvider') || 'openai';
+    this.settings.openaiApiKey = await joplin.settings.value('openaiApiKey');
+    this.settings.customBaseUrl = await joplin.settings.value('customBaseUrl') || '';
+    this.settings.customApiKey = await joplin.settings.value('customApiKey') || '';
+    this.settings.azureEndpoint = await joplin.settings.value('azureEndpoint') || '';
+    this.settings.azureApiKey = await joplin.settings.value('azureApiKey') || '';
+    this.settings.azureApiVersion = await joplin.settings.value('azureApiVersion') || '2024-10-21';
+    this.settings.azureDeployments = await joplin.settings.value('azureDeployments') || '';
+    this.settings.anthropicApiKey = await joplin.settings.value('anthropicApiKey') || '';
+    const modelValue = await joplin.settings.value('openaiModel');
+    
+    // Model names on other providers are whatever the server offers, so only OpenAI models are validated
+    if (modelValue && modelValue.trim() !== '' && this.getProvider().id !== 'openai') {
+      this.settings.openaiModel = modelValue;
+    } else if (modelValue && modelValue.trim() !== '') {
+      const isValid = await this.validateModel(modelValue);
+      if (!isValid.valid) {
+        console.warn('Invalid model specified:', modelValue);
+        console.warn('Valid models:', isValid.validModels.join(', '));
+        // Show error to user
+        await joplin.views.dialogs.showMessageBox(
+          `Invalid model: "${modelValue}"\n\n` +
+          `Valid models are:\n${isValid.validModels.join(', ')}\n\n` +
+          `Leave the field blank to auto-select the latest general model.`
+        );
+        // Reset to blank to trigger auto-select
+        await joplin.settings.setValue('openaiModel', '');
+        this.settings.openaiModel = '';
+      } else {
+        this.settings.openaiModel = modelValue;
+      }
+    } else {
+      this.settings.openaiModel = '';
+    }
+    if (this.modelOverride) {
+      this.settings.openaiModel = this.modelOverride;
+    }
+    
+    this.settings.embeddingModel = await joplin.settings.value('embeddingModel') || DEFAULT_EMBEDDING_MODEL;
+    this.settings.imageModel = await joplin.settings.value('imageModel') || DEFAULT_IMAGE_MODEL;
+    this.settings.transcriptionModel = await joplin.settings.value('transcriptionModel') || DEFAULT_TRANSCRIPTION_MODEL;
+    this.settings.transcriptionBaseUrl = (await joplin.settings.value('transcriptionBaseUrl') || '').trim();
+    this.settings.maxTokens = await joplin.settings.value('maxTokens');
     
+    await this.reloadSystemPrompt();
+    
+    this.settings.autoSave = await joplin.settings.value('autoSave');
+    this.settings.reasoningEffort = this.persona?.reasoningEffort || await joplin.settings.value('reasoningEffort');
+    this.settings.verbosity = this.persona?.verbosity || await joplin.settings.value('verbosity');
+    this.settings.streamResponses = await joplin.settings.value('streamResponses') !== false;
+  }
+
+  // Refresh the system prompt from the persona, the prompts notebook or system-prompt.txt (always falls back to the default)
+  async reloadSystemPrompt(): Promise<void> {
+    try {
+      this.settings.systemPrompt = this.persona?.systemPrompt || this.systemPromptOverride || await this.loadSystemPromptFromFile();
+      // Ensure we always have a non-empty system prompt
+      if (!this.settings.systemPrompt || this.settings.systemPrompt.trim().length === 0) {
+        console.warn('[ChatGPT API] System prompt was empty, using default');
+        this.settings.systemPrompt = DEFAULT_SYSTEM_PROMPT;
+      }
+    } catch (error: any) {
+      console.error('[ChatGPT API] Error loading system prompt, using default:', error);
+      // Fallback to hardcoded default
+      this.settings.systemPrompt = DEFAULT_SYSTEM_PROMPT;
+    }
+  }
+
+  // Load system prompt from file (similar to Joplin's styles)
+  async loadSystemPromptFromFile(): Promise<string> {
     const fs = require('fs');
     const path = require('path');
     
@@ -430,7 +1124,7 @@ Always optimize your responses so they are immediately useful to a busy executiv
         }
         
         // Write default prompt to file for future use
-        fs.writeFileSync(promptFile, defaultPrompt, 'utf8');
+        fs.writeFileSync(promptFile, DEFAULT_SYSTEM_PROMPT, 'utf8');
         console.info('[ChatGPT API] Created default system prompt file:', promptFile);
         
         // Store file path in settings for reference
@@ -446,11 +1140,11 @@ Always optimize your responses so they are immediately useful to a busy executiv
       }
       
       // Always return default if file doesn't exist or is empty
-      return defaultPrompt;
+      return DEFAULT_SYSTEM_PROMPT;
     } catch (error: any) {
       console.error('[ChatGPT API] Error loading system prompt from file:', error);
       // Always return default on any error
-      return defaultPrompt;
+      return DEFAULT_SYSTEM_PROMPT;
     }
   }
 
@@ -506,35 +1200,54 @@ Always optimize your responses so they are immediately useful to a busy executiv
     console.info(`[ChatGPT API] Conversation history cleared`);
   }
 
-  // Validate API key format
-  private validateApiKey(apiKey: string): boolean {
-    if (!apiKey || typeof apiKey !== 'string') {
+  setPersona(persona: Persona | null): void {
+    this.persona = persona;
+  }
+
+  setModelOverride(model: string | null): void {
+    this.modelOverride = model && model.trim() ? model.trim() : null;
+  }
+
+  setSystemPromptOverride(prompt: string | null): void {
+    this.systemPromptOverride = prompt && prompt.trim() ? prompt.trim() : null;
+  }
+
+  getConversationHistory(): Array<{role: 'user' | 'assistant', content: string}> {
+    return [...this.conversationHistory];
+  }
+
+  // Replace the history (e.g. when switching chat sessions), trimmed like live history
+  setConversationHistory(history: Array<{role: 'user' | 'assistant', content: string}>): void {
+    this.conversationHistory = history.map(message => ({ role: message.role, content: message.content }));
+    this.trimHistoryToTokenLimit(Math.floor(this.settings.maxTokens / 2));
+    console.info(`[ChatGPT API] Conversation history replaced (${this.conversationHistory.length} messages)`);
+  }
+
+  // Abort every in-flight request; returns false if nothing was running
+  cancelActiveRequest(): boolean {
+    if (this.activeRequests.size === 0) {
       return false;
     }
-    
-    // Check for basic OpenAI API key format (sk- or sk-proj- prefix)
-    if (!apiKey.startsWith('sk-')) {
-      console.warn('API key validation: Key should start with "sk-"');
-      return true; // Allow anyway, just warn
-    }
-    
-    // Current API keys are typically 150+ characters
-    if (apiKey.length < 20 || apiKey.length > 200) {
-      return false;
-    }
-    
-    // Allow letters, numbers, hyphens, underscores, and periods
-    // Modern OpenAI API keys follow format: sk-proj-[long alphanumeric string]
-    if (!/^sk-[A-Za-z0-9\-_\.]+$/.test(apiKey)) {
-      return false;
-    }
-    
+    this.activeRequests.forEach(request => {
+      request.cancelled = true;
+      request.controller.abort();
+    });
+    console.info(`[ChatGPT API] Cancelled ${this.activeRequests.size} active request(s)`);
     return true;
   }
 
-  // Estimate token count for a message (rough approximation: 1 token ≈ 4 characters)
+  // Provider for the current settings
+  getProvider(): ChatProvider {
+    return createProvider(this.settings);
+  }
+
+  // Validate API key format for the selected provider
+  private validateApiKey(apiKey: string): boolean {
+    return this.getProvider().validateApiKey(apiKey);
+  }
+
   private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return estimateTokenCount(text);
   }
 
   // Get conversation history limited by token count
@@ -549,6 +1262,9 @@ Always optimize your responses so they are immediately useful to a busy executiv
     // Start from the most recent messages and work backwards
     for (let i = this.conversationHistory.length - 1; i >= 0; i--) {
       const message = this.conversationHistory[i];
+      if (!message || !message.content) {
+        continue; // Skip malformed messages
+      }
       const messageTokens = this.estimateTokens(message.content);
       
       if (totalTokens + messageTokens <= maxTokens) {
@@ -575,6 +1291,9 @@ Always optimize your responses so they are immediately useful to a busy executiv
     // Start from the most recent messages and work backwards
     for (let i = this.conversationHistory.length - 1; i >= 0; i--) {
       const message = this.conversationHistory[i];
+      if (!message || !message.content) {
+        continue; // Skip malformed messages
+      }
       const messageTokens = this.estimateTokens(message.content);
       
       if (totalTokens + messageTokens <= maxTokens) {
@@ -589,131 +1308,166 @@ Always optimize your responses so they are immediately useful to a busy executiv
     console.info(`[ChatGPT API] History trimmed to ${trimmedHistory.length} messages (estimated ${totalTokens} tokens, max ${maxTokens})`);
   }
 
-  async sendMessage(userMessage: string): Promise<string> {
+  async sendMessage(userMessage: string, options: SendMessageOptions = {}): Promise<string> {
     await this.loadSettings();
 
-    if (!this.settings.openaiApiKey) {
-      throw new Error('OpenAI API key is not set. Please configure it in Settings → Plugins → ChatGPT Toolkit.');
+    const provider = this.getProvider();
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      throw new Error(configurationError);
     }
 
     console.info(`[ChatGPT API] Starting request to model: ${this.settings.openaiModel}`);
     console.info(`[ChatGPT API] User message length: ${userMessage.length} characters`);
     console.info(`[ChatGPT API] Max tokens: ${this.settings.maxTokens}`);
 
-    // Create AbortController for timeout
+    // Stream only when the caller can render deltas and the user hasn't disabled it; tool calls need the whole response
+    const tools = options.tools && options.onToolCall ? options.tools : [];
+    const stream = !!options.onDelta && this.settings.streamResponses && tools.length === 0;
+
+    // Create AbortController for timeout and user cancellation
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
+    const activeRequest: ActiveRequest = { controller, cancelled: false };
+    // Requests with their own signal (batch jobs) are cancelled by their owner, not the chat Stop button
+    if (!options.signal) {
+      this.activeRequests.add(activeRequest);
+    }
+    const onCallerAbort = () => {
+      activeRequest.cancelled = true;
+      controller.abort();
+    };
+    if (options.signal) {
+      if (options.signal.aborted) {
+        onCallerAbort();
+      }
+      options.signal.addEventListener('abort', onCallerAbort);
+    }
+    let partialContent = '';
+    const onTimeout = () => {
       console.error(`[ChatGPT API] Request timeout after 60 seconds for model: ${this.settings.openaiModel}`);
       controller.abort();
-    }, 60000); // 60 second timeout
+    };
+    let timeoutId = setTimeout(onTimeout, 60000); // 60 second timeout
 
     try {
-      // Determine the correct endpoint and parameter name based on model type
-      const endpoint = (this.settings.openaiModel.startsWith('o3') || this.settings.openaiModel === 'o4-mini') 
-        ? 'https://api.openai.com/v1/responses'
-        : 'https://api.openai.com/v1/chat/completions';
-      
-      const isResponsesEndpoint = endpoint.includes('/responses');
+      // The provider decides the endpoint and request shape for the model
+      const endpoint = provider.getChatEndpoint(this.settings.openaiModel);
       
       // Build messages array with conversation history
-      const messages = [
+      const messages: ProviderMessage[] = [
         { role: 'system', content: this.settings.systemPrompt + '\n\nPlease format your responses using Markdown syntax for better readability.' }
       ];
+      if (options.context) {
+        messages.push({ role: 'system', content: options.context });
+      }
       
       // Add conversation history, but limit to 1/2 of max tokens
-      const maxHistoryTokensForRequest = Math.floor(this.settings.maxTokens / 2);
-      const recentHistory = this.getLimitedHistory(maxHistoryTokensForRequest);
-      messages.push(...recentHistory);
+      if (!options.stateless) {
+        const maxHistoryTokensForRequest = Math.floor(this.settings.maxTokens / 2);
+        const recentHistory = this.getLimitedHistory(maxHistoryTokensForRequest);
+        messages.push(...recentHistory);
+      }
       
       // Add current user message
-      messages.push({ role: 'user', content: userMessage });
+      messages.push({ role: 'user', content: userMessage, attachments: options.attachments });
       
-      const requestBody: any = {
-        model: this.settings.openaiModel,
-        [isResponsesEndpoint ? 'input' : 'messages']: messages,
-        ...(this.settings.openaiModel.includes('gpt-5') || this.settings.openaiModel.includes('gpt-4.1') || this.settings.openaiModel.startsWith('o')
-          ? { max_completion_tokens: this.settings.maxTokens }
-          : { max_tokens: this.settings.maxTokens }
-        ),
-        stream: false
-      };
-
-      // Add new parameters for newer models
-      if (this.settings.openaiModel.includes('gpt-5') || this.settings.openaiModel.startsWith('o')) {
-        requestBody.reasoning_effort = this.settings.reasoningEffort; // low, medium, high
-        requestBody.verbosity = this.settings.verbosity; // low, medium, high
-      }
+      let content = '';
+      for (let round = 0; ; round++) {
+        const requestBody = provider.buildChatRequestBody({
+          model: this.settings.openaiModel,
+          messages: messages,
+          maxTokens: this.settings.maxTokens,
+          reasoningEffort: this.settings.reasoningEffort,
+          verbosity: this.settings.verbosity,
+          stream: stream,
+          responseSchema: options.responseSchema,
+          tools: tools
+        });
 
-      console.info(`[ChatGPT API] Request body:`, JSON.stringify(requestBody, null, 2));
-      console.info(`[ChatGPT API] Using endpoint: ${endpoint}`);
+        console.info(`[ChatGPT API] Request body:`, formatRequestBodyForLog(requestBody));
+        console.info(`[ChatGPT API] Using endpoint: ${endpoint}`);
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.settings.openaiApiKey}`
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: provider.getHeaders(),
+          body: JSON.stringify(requestBody),
+          signal: controller.signal
+        });
 
-      clearTimeout(timeoutId);
+        clearTimeout(timeoutId);
 
-      console.info(`[ChatGPT API] Response status: ${response.status} ${response.statusText}`);
-      console.info(`[ChatGPT API] Response headers:`, {
-        'content-type': response.headers.get('content-type'),
-        'content-length': response.headers.get('content-length'),
-        'x-ratelimit-limit': response.headers.get('x-ratelimit-limit'),
-        'x-ratelimit-remaining': response.headers.get('x-ratelimit-remaining')
-      });
+        console.info(`[ChatGPT API] Response status: ${response.status} ${response.statusText}`);
+        console.info(`[ChatGPT API] Response headers:`, {
+          'content-type': response.headers.get('content-type'),
+          'content-length': response.headers.get('content-length'),
+          'x-ratelimit-limit': response.headers.get('x-ratelimit-limit'),
+          'x-ratelimit-remaining': response.headers.get('x-ratelimit-remaining')
+        });
 
-      if (!response.ok) {
-        let errorData: any = {};
-        try {
-          const errorText = await response.text();
-          console.error(`[ChatGPT API] Error response body:`, errorText);
-          errorData = JSON.parse(errorText);
-        } catch (parseError) {
-          console.error(`[ChatGPT API] Failed to parse error response:`, parseError);
+        if (!response.ok) {
+          let errorData: any = {};
+          try {
+            const errorText = await response.text();
+            console.error(`[ChatGPT API] Error response body:`, errorText);
+            errorData = JSON.parse(errorText);
+          } catch (parseError) {
+            console.error(`[ChatGPT API] Failed to parse error response:`, parseError);
+          }
+          
+          const errorMessage = `${provider.label} API error: ${response.status} ${response.statusText}. ${errorData.error?.message || errorData.error?.code || 'Unknown error'}`;
+          console.error(`[ChatGPT API] Full error:`, errorMessage);
+          // Callers such as batch jobs back off on 429 using these
+          const apiError: any = new Error(errorMessage);
+          apiError.status = response.status;
+          apiError.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+          throw apiError;
         }
-        
-        const errorMessage = `OpenAI API error: ${response.status} ${response.statusText}. ${errorData.error?.message || errorData.error?.code || 'Unknown error'}`;
-        console.error(`[ChatGPT API] Full error:`, errorMessage);
-        throw new Error(errorMessage);
-      }
-
-      // Handle non-streaming response
-      const responseText = await response.text();
-      console.info(`[ChatGPT API] Response body length: ${responseText.length} characters`);
-      
-      let data: ChatGPTResponse;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error(`[ChatGPT API] Failed to parse response JSON:`, parseError);
-        console.error(`[ChatGPT API] Raw response:`, responseText);
-        throw new Error('Invalid JSON response from OpenAI API');
-      }
 
-      console.info(`[ChatGPT API] Parsed response:`, {
-        choices: data.choices?.length || 0,
-        usage: data.usage,
-        model: data.model
-      });
+        if (stream && options.onDelta) {
+          // While streaming, the timeout only fires if the server goes quiet for 60 seconds
+          timeoutId = setTimeout(onTimeout, 60000);
+          const onDelta = options.onDelta;
+          content = await this.readStreamingResponse(response, provider, (delta: string) => {
+            partialContent += delta;
+            onDelta(delta);
+          }, () => {
+            clearTimeout(timeoutId);
+            timeoutId = setTimeout(onTimeout, 60000);
+          });
+          clearTimeout(timeoutId);
+          break;
+        }
 
-      if (!data.choices || data.choices.length === 0) {
-        console.error(`[ChatGPT API] No choices in response:`, data);
-        throw new Error('No response choices received from ChatGPT');
-      }
+        const data = await this.readJsonResponse(response, provider);
+        const toolCalls = tools.length > 0 ? provider.parseToolCalls(data) : [];
+        if (toolCalls.length === 0) {
+          content = provider.parseChatResponse(data);
+          break;
+        }
+        if (round >= MAX_TOOL_ROUNDS) {
+          throw new Error(`ChatGPT was still calling tools after ${MAX_TOOL_ROUNDS} rounds without answering. Try a more specific request.`);
+        }
 
-      const content = data.choices[0]?.message?.content;
-      if (!content) {
-        console.error(`[ChatGPT API] No content in first choice:`, data.choices[0]);
-        throw new Error('No content in ChatGPT response');
+        // Run the calls (writes wait for the user, so the timeout is off meanwhile) and send the results back
+        messages.push({ role: 'assistant', content: '', toolCalls });
+        for (const call of toolCalls) {
+          if (activeRequest.cancelled) {
+            throw new Error('Request cancelled');
+          }
+          messages.push({ role: 'tool', toolCallId: call.id, content: await this.runToolCall(call, options) });
+        }
+        if (activeRequest.cancelled) {
+          throw new Error('Request cancelled');
+        }
+        timeoutId = setTimeout(onTimeout, 60000);
       }
 
       console.info(`[ChatGPT API] Success! Response length: ${content.length} characters`);
       
+      if (options.stateless) {
+        return content;
+      }
+
       // Store the conversation exchange in history
       this.conversationHistory.push({ role: 'user', content: userMessage });
       this.conversationHistory.push({ role: 'assistant', content: content });
@@ -729,6 +1483,19 @@ Always optimize your responses so they are immediately useful to a busy executiv
     } catch (error: any) {
       clearTimeout(timeoutId);
       
+      if (activeRequest.cancelled) {
+        console.info(`[ChatGPT API] Request cancelled by user (${partialContent.length} characters received)`);
+        // Keep history consistent: record the exchange only if some of the reply arrived
+        if (partialContent && !options.stateless) {
+          this.conversationHistory.push({ role: 'user', content: userMessage });
+          this.conversationHistory.push({ role: 'assistant', content: partialContent });
+        }
+        const cancelledError: any = new Error('Request cancelled');
+        cancelledError.name = 'CancelledError';
+        cancelledError.partialContent = partialContent;
+        throw cancelledError;
+      }
+      
       if (error.name === 'AbortError') {
         console.error(`[ChatGPT API] Request was aborted (timeout) for model: ${this.settings.openaiModel}`);
         throw new Error(`Request timeout after 60 seconds. This may indicate the model '${this.settings.openaiModel}' is not available or experiencing issues.`);
@@ -741,461 +1508,4099 @@ Always optimize your responses so they are immediately useful to a busy executiv
       }
       
       throw error;
+    } finally {
+      this.activeRequests.delete(activeRequest);
+      if (options.signal) {
+        options.signal.removeEventListener('abort', onCallerAbort);
+      }
+    }
+  }
+
+  // Ask for a JSON reply matching `schema`. Providers that support structured output are given the schema as well
+  // as the prompt; either way the reply is validated, and an invalid one is sent back with its errors to be fixed.
+  // Throws with `schemaErrors` set when the reply still doesn't match. The exchange is kept out of the chat
+  async sendStructured<T>(prompt: string, schema: StructuredOutputSchema, options: SendMessageOptions = {}): Promise<T> {
+    const requestOptions: SendMessageOptions = { ...options, stateless: true, responseSchema: schema };
+    const instructions = `${prompt}\n\nReply with JSON only, matching this JSON schema:\n${JSON.stringify(schema.schema)}`;
+
+    let reply = await this.sendMessage(instructions, requestOptions);
+    for (let repairs = 0; ; repairs++) {
+      const { value, errors } = checkStructuredReply(reply, schema.schema);
+      if (errors.length === 0) {
+        return value as T;
+      }
+      if (repairs >= MAX_STRUCTURED_REPAIRS) {
+        const schemaError: any = new Error(`ChatGPT's reply did not match the expected format (${schema.name}): ${errors.slice(0, 5).join('; ')}`);
+        schemaError.schemaErrors = errors;
+        throw schemaError;
+      }
+      console.warn(`[ChatGPT API] Reply does not match schema ${schema.name}, asking for a correction:`, errors);
+      reply = await this.sendMessage(
+        `${instructions}\n\nYour previous reply was:\n\n${reply}\n\nIt does not match the schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with corrected JSON only.`,
+        requestOptions
+      );
+    }
+  }
+
+  // Embed texts with the configured embedding model; vectors come back in input order
+  async embed(inputs: string[]): Promise<number[][]> {
+    await this.loadSettings();
+
+    const provider = this.getProvider();
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      throw new Error(configurationError);
+    }
+    const endpoint = provider.getEmbeddingsEndpoint(this.settings.embeddingModel);
+    if (!endpoint) {
+      throw new Error(`${provider.label} has no embeddings API. Set Notes Search Backend to "Local keyword search" (or choose another AI provider) in Settings → Plugins → ChatGPT Toolkit.`);
+    }
+
+    // A stalled server would otherwise hold up indexing and notes search indefinitely
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), EMBEDDING_TIMEOUT_MS);
+
+    try {
+      console.info(`[ChatGPT API] Embedding ${inputs.length} texts with model: ${this.settings.embeddingModel}`);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: provider.getHeaders(),
+        body: JSON.stringify(provider.buildEmbeddingsRequestBody(this.settings.embeddingModel, inputs)),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        let errorData: any = {};
+        try {
+          errorData = JSON.parse(await response.text());
+        } catch (parseError) {
+          console.error(`[ChatGPT API] Failed to parse error response:`, parseError);
+        }
+        throw new Error(`${provider.label} API error: ${response.status} ${response.statusText}. ${errorData.error?.message || errorData.error?.code || 'Unknown error'}`);
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(await response.text());
+      } catch (parseError) {
+        throw new Error(`Invalid JSON response from ${provider.label} API`);
+      }
+      if (!Array.isArray(data.data) || data.data.length !== inputs.length) {
+        throw new Error(`Unexpected embeddings response from ${provider.label} API`);
+      }
+      return [...data.data]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding);
+
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Embeddings request timed out after ${EMBEDDING_TIMEOUT_MS / 1000} seconds.`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Transcribe a recording, on the transcription server if one is set. Not recorded in the conversation history.
+  async transcribeAudio(audio: AudioFile): Promise<string> {
+    await this.loadSettings();
+
+    const customServer = this.settings.transcriptionBaseUrl;
+    const provider = customServer ? new OpenAICompatibleProvider('', customServer) : this.getProvider();
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      throw new Error(configurationError);
+    }
+    const model = this.settings.transcriptionModel;
+    const endpoint = provider.getTranscriptionsEndpoint(model);
+    if (!endpoint) {
+      throw new Error(`${provider.label} can't transcribe audio. Set Transcription Server URL to an OpenAI-compatible speech-to-text server (e.g. a local whisper server) in Settings → Plugins → ChatGPT Toolkit.`);
+    }
+    if (!customServer && audio.data.size > MAX_TRANSCRIPTION_BYTES) {
+      throw new Error(`"${audio.name}" is too large to transcribe (${formatByteSize(audio.data.size)}; ${provider.label} accepts up to ${formatByteSize(MAX_TRANSCRIPTION_BYTES)}). Split the recording, or set Transcription Server URL to a local whisper server.`);
+    }
+    // fetch sets the multipart Content-Type, with its boundary, from the form
+    const headers = provider.getHeaders();
+    delete headers['Content-Type'];
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TRANSCRIPTION_TIMEOUT_MS);
+
+    try {
+      console.info(`[ChatGPT API] Transcribing ${audio.name} (${audio.data.size} bytes) with model: ${model}`);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: provider.buildTranscriptionRequestBody(model, audio),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        let errorData: any = {};
+        try {
+          errorData = JSON.parse(await response.text());
+        } catch (parseError) {
+          console.error(`[ChatGPT API] Failed to parse error response:`, parseError);
+        }
+        throw new Error(`${provider.label} API error: ${response.status} ${response.statusText}. ${errorData.error?.message || errorData.error?.code || 'Unknown error'}`);
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(await response.text());
+      } catch (parseError) {
+        throw new Error(`Invalid JSON response from ${provider.label} API`);
+      }
+      if (typeof data.text !== 'string') {
+        throw new Error(`Unexpected transcription response from ${provider.label} API`);
+      }
+      return data.text.trim();
+
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Transcription timed out after ${TRANSCRIPTION_TIMEOUT_MS / 60000} minutes.`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Generate one image from a prompt. Not recorded in the conversation history; the chat Stop button cancels it.
+  async generateImage(prompt: string): Promise<{ mimeType: string; data: string; revisedPrompt: string }> {
+    await this.loadSettings();
+
+    const provider = this.getProvider();
+    const configurationError = provider.getConfigurationError();
+    if (configurationError) {
+      throw new Error(configurationError);
+    }
+    const model = this.settings.imageModel;
+    const endpoint = provider.getImagesEndpoint(model);
+    if (!endpoint) {
+      throw new Error(`${provider.label} can't generate images. Choose OpenAI, Azure OpenAI or an OpenAI-compatible server as the AI provider in Settings → Plugins → ChatGPT Toolkit to use /image.`);
+    }
+
+    const controller = new AbortController();
+    const activeRequest: ActiveRequest = { controller, cancelled: false };
+    this.activeRequests.add(activeRequest);
+    const timeoutId = setTimeout(() => controller.abort(), IMAGE_TIMEOUT_MS);
+
+    try {
+      console.info(`[ChatGPT API] Generating an image with model: ${model}`);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: provider.getHeaders(),
+        body: JSON.stringify(provider.buildImageRequestBody(model, prompt)),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        let errorData: any = {};
+        try {
+          errorData = JSON.parse(await response.text());
+        } catch (parseError) {
+          console.error(`[ChatGPT API] Failed to parse error response:`, parseError);
+        }
+        throw new Error(`${provider.label} API error: ${response.status} ${response.statusText}. ${errorData.error?.message || errorData.error?.code || 'Unknown error'}`);
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(await response.text());
+      } catch (parseError) {
+        throw new Error(`Invalid JSON response from ${provider.label} API`);
+      }
+      const image = Array.isArray(data.data) ? data.data[0] : null;
+      const revisedPrompt = image?.revised_prompt || '';
+      if (image?.b64_json) {
+        return { mimeType: 'image/png', data: image.b64_json, revisedPrompt };
+      }
+      if (!image?.url) {
+        throw new Error(`Unexpected image response from ${provider.label} API`);
+      }
+
+      // Some servers only return a short-lived link; download the image before it expires
+      const download = await fetch(image.url, { signal: controller.signal });
+      if (!download.ok) {
+        throw new Error(`Could not download the generated image: ${download.status} ${download.statusText}`);
+      }
+      const mimeType = (download.headers?.get('content-type') || 'image/png').split(';')[0].trim();
+      return { mimeType, data: Buffer.from(await download.arrayBuffer()).toString('base64'), revisedPrompt };
+
+    } catch (error: any) {
+      if (activeRequest.cancelled) {
+        const cancelledError: any = new Error('Request cancelled');
+        cancelledError.name = 'CancelledError';
+        cancelledError.partialContent = '';
+        throw cancelledError;
+      }
+      if (error.name === 'AbortError') {
+        throw new Error(`Image generation timed out after ${IMAGE_TIMEOUT_MS / 1000} seconds.`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      this.activeRequests.delete(activeRequest);
+    }
+  }
+
+  // Parse a complete (non-streaming) JSON response body
+  private async readJsonResponse(response: Response, provider: ChatProvider): Promise<any> {
+    const responseText = await response.text();
+    console.info(`[ChatGPT API] Response body length: ${responseText.length} characters`);
+    
+    let data: any;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError) {
+      console.error(`[ChatGPT API] Failed to parse response JSON:`, parseError);
+      console.error(`[ChatGPT API] Raw response:`, responseText);
+      throw new Error(`Invalid JSON response from ${provider.label} API`);
+    }
+
+    return data;
+  }
+
+  // Run one tool call for sendMessage. Unknown tools, arguments that don't match the schema and errors are
+  // reported back to the model so it can correct itself
+  private async runToolCall(call: ToolCall, options: SendMessageOptions): Promise<string> {
+    const tool = (options.tools || []).find(candidate => candidate.name === call.name);
+    if (!tool || !options.onToolCall) {
+      return `Error: there is no tool named ${call.name}.`;
+    }
+    const errors = validateJsonSchema(call.arguments, tool.parameters);
+    if (errors.length > 0) {
+      return `Error: the arguments do not match the ${call.name} schema:\n${errors.map(error => `- ${error}`).join('\n')}`;
+    }
+
+    console.info(`[ChatGPT API] Running tool ${call.name}`);
+    try {
+      return await options.onToolCall(call);
+    } catch (error: any) {
+      console.warn(`[ChatGPT API] Tool ${call.name} failed:`, error);
+      return `Error: ${error.message}`;
+    }
+  }
+
+  // Read a server-sent-event stream, forwarding each text delta as it arrives
+  private async readStreamingResponse(response: Response, provider: ChatProvider, onDelta: (delta: string) => void, onChunk: () => void): Promise<string> {
+    if (!response.body) {
+      throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+
+    const handleEvent = (rawEvent: string) => {
+      const delta = this.parseStreamEvent(rawEvent, provider);
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    };
+
+    let chunk = await reader.read();
+    while (!chunk.done) {
+      onChunk();
+      buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n/g, '\n');
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+      chunk = await reader.read();
+    }
+
+    // Flush a final event that wasn't followed by a blank line
+    if (buffer.trim()) {
+      handleEvent(buffer);
+    }
+
+    if (!content) {
+      throw new Error('No content in ChatGPT response');
+    }
+
+    console.info(`[ChatGPT API] Stream finished (${content.length} characters)`);
+    return content;
+  }
+
+  // Extract the text delta from one SSE event using the provider's event format
+  private parseStreamEvent(rawEvent: string, provider: ChatProvider): string {
+    const data = rawEvent
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('\n');
+
+    if (!data || data === '[DONE]') {
+      return '';
+    }
+
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch (parseError) {
+      console.warn(`[ChatGPT API] Skipping unparseable stream event:`, data);
+      return '';
+    }
+
+    if (event.error) {
+      throw new Error(`${provider.label} API error: ${event.error.message || event.error.code || 'Unknown error'}`);
     }
+
+    return provider.parseStreamEvent(event);
   }
 
-  async improveNote(noteContent: string): Promise<string> {
+  // The one-shot note actions below keep their exchange out of the chat
+  async improveNote(noteContent: string, options: SendMessageOptions = {}): Promise<string> {
     const prompt = `Please improve the following note content by enhancing clarity, structure, and readability while preserving the original meaning and key information:
 
 ${noteContent}
 
 Please provide only the improved version without any additional commentary.`;
     
-    return await this.sendMessage(prompt);
+    return await this.sendMessage(prompt, { ...options, stateless: true });
   }
 
-  async summarizeNote(noteContent: string): Promise<string> {
+  async summarizeNote(noteContent: string, options: SendMessageOptions = {}): Promise<string> {
     const prompt = `Please provide a concise summary of the following note content, highlighting the key points and main ideas:
 
 ${noteContent}
 
 Please provide only the summary without any additional commentary.`;
     
-    return await this.sendMessage(prompt);
+    return await this.sendMessage(prompt, { ...options, stateless: true });
   }
 
-  async checkGrammar(text: string): Promise<string> {
-    const prompt = `Please fix any grammar, spelling, and punctuation errors in the following text while preserving the original meaning and style:
+  async translateNote(noteContent: string, language: string, options: SendMessageOptions = {}): Promise<string> {
+    const prompt = `Please translate the following note content into ${language}, keeping its Markdown formatting, links and code blocks intact:
 
-${text}
+${noteContent}
 
-Please provide only the corrected version without any additional commentary.`;
-    
-    return await this.sendMessage(prompt);
-  }
-}
+Please provide only the translation without any additional commentary.`;
 
-// Interface for model data with metadata
-interface ModelInfo {
-  id: string;
-  created: number;
-  owned_by?: string;
-}
+    return await this.sendMessage(prompt, options);
+  }
 
-// Function to fetch available models from OpenAI API
-async function fetchAvailableModels(apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('https://api.openai.com/v1/models', {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      }
-    });
+  // A short title for a note; the exchange is kept out of the chat
+  async generateTitle(noteContent: string, options: SendMessageOptions = {}): Promise<string> {
+    const prompt = `Write a concise, specific title of at most eight words for the following note, in the language the note is written in:
 
-    if (!response.ok) {
-      console.warn('Failed to fetch models from OpenAI API:', response.status, response.statusText);
-      return [];
-    }
+${noteContent}`;
 
-    const data = await response.json();
-    if (data.data && Array.isArray(data.data)) {
-      // Filter and extract model info for chat/completion models
-      // Only include gpt-4o and newer models
-      const models: ModelInfo[] = data.data
-        .filter((model: any) => {
-          const id = model.id || '';
-          
-          // Filter for relevant models (chat models, not embeddings, etc.)
-          const isRelevantModel = id.includes('gpt') || id.startsWith('o1') || id.startsWith('o3') || id.startsWith('o4');
-          
-          // Only include gpt-4o and newer (exclude gpt-4, gpt-4-turbo, gpt-3.5-turbo)
-          const is4oOrNewer = 
-            id.startsWith('gpt-4o') ||           // gpt-4o, gpt-4o-mini
-            id.startsWith('gpt-4.1') ||          // gpt-4.1, gpt-4.1-mini, gpt-4.1-nano
-            id.startsWith('gpt-5') ||            // gpt-5, gpt-5.1, gpt-5-mini, gpt-5-nano
-            id.startsWith('o1') ||               // o1, o1-preview
-            id.startsWith('o3') ||               // o3, o3-mini
-            id.startsWith('o4');                 // o4-mini
-          
-          return isRelevantModel && is4oOrNewer;
-        })
-        .map((model: any) => ({
-          id: model.id,
-          created: model.created || 0,
-          owned_by: model.owned_by
-        }))
-        // Sort by created date (newest first)
-        .sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
-      
-      console.info('Fetched', models.length, 'available models from OpenAI API (gpt-4o and newer)');
-      return models;
+    const reply = await this.sendStructured<{ title: string }>(prompt, NOTE_TITLE_SCHEMA, options);
+    const title = cleanGeneratedTitle(reply.title);
+    if (!title) {
+      throw new Error('ChatGPT did not return a title.');
     }
-    return [];
-  } catch (error: any) {
-    console.warn('Error fetching models from OpenAI API:', error.message);
-    return [];
+    return title;
   }
-}
 
-// Register the plugin
-joplin.plugins.register({
-  onStart: async function() {
-    console.info('ChatGPT Toolkit Plugin started!');
+  // Action items in a note, with owners and due dates where the note gives them; the exchange is kept out of the chat
+  async extractTasks(note: { title: string; body: string }, today: string): Promise<ExtractedTask[]> {
+    const prompt = `List the action items in the following note. For each one give the task as a short imperative sentence, the person responsible if the note names one (otherwise an empty string), and the due date as YYYY-MM-DD if the note gives one (otherwise an empty string). Today is ${today}; turn relative dates such as "next Friday" into dates. Return an empty list if there are no action items.
+
+Note title: ${note.title}
+
+${note.body}`;
+
+    const reply = await this.sendStructured<{ tasks: ExtractedTask[] }>(prompt, EXTRACTED_TASKS_SCHEMA);
+    return normalizeExtractedTasks(reply.tasks);
+  }
+
+  // Tags for a note, preferring ones that already exist; the exchange is kept out of the chat
+  async suggestTags(note: { title: string; body: string }, existingTags: string[]): Promise<TagSuggestion[]> {
+    const prompt = `Suggest up to ${MAX_SUGGESTED_TAGS} tags for the following note. Prefer tags from the existing list and only propose a new tag when none of them fits. Tags are short and lowercase.
+
+Existing tags: ${existingTags.length > 0 ? existingTags.join(', ') : '(none)'}
+
+Note title: ${note.title}
+
+${note.body}`;
+
+    const reply = await this.sendStructured<{ tags: string[] }>(prompt, TAG_SUGGESTIONS_SCHEMA);
+    return normalizeTagSuggestions(reply.tags, existingTags);
+  }
+
+  // The notebooks a note fits best, best first; the exchange is kept out of the chat
+  async suggestNotebook(note: { title: string; body: string }, folders: FolderPath[]): Promise<NotebookSuggestion[]> {
+    const prompt = `Choose the notebook the following note belongs in, from the list below, plus up to two alternatives, best first. Give each one's id and a one-sentence reason.
+
+Notebooks (id: name):
+${folders.map(folder => `- ${folder.id}: ${folder.path}`).join('\n')}
+
+Note title: ${note.title}
+
+${note.body}`;
+
+    const reply = await this.sendStructured<{ notebooks: Array<{ id: string; reason: string }> }>(prompt, NOTEBOOK_SUGGESTIONS_SCHEMA);
+    return normalizeNotebookSuggestions(reply.notebooks, folders);
+  }
+
+  async checkGrammar(text: string, options: SendMessageOptions = {}): Promise<string> {
+    const prompt = `Please fix any grammar, spelling, and punctuation errors in the following text while preserving the original meaning and style:
+
+${text}
+
+Please provide only the corrected version without any additional commentary.`;
     
+    return await this.sendMessage(prompt, { ...options, stateless: true });
+  }
+}
+
+// ===== STRUCTURED OUTPUT =====
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// The part of JSON Schema that structured replies are checked against. Schemas sent to OpenAI should list every
+// property in `required` and set `additionalProperties: false`, as its strict mode expects
+interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: any[];
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+}
+
+// A schema for sendStructured; `name` (letters, digits, _ and -) labels it in provider requests and errors
+interface StructuredOutputSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+// Invalid replies are sent back with their errors this many times before giving up
+const MAX_STRUCTURED_REPAIRS = 2;
+
+// Models often wrap JSON in a code fence or a sentence, so read the outermost object in the reply
+function parseJsonReply(reply: string): any {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start !== -1 && end > start) {
     try {
-      // ===== LOAD MODELS FOR SETTINGS DROPDOWN =====
-      // Try to load stored models for the settings dropdown
-      let modelsForSettings: ModelInfo[] = [];
-      const settingsModelsKey = 'modelsList';
+      return JSON.parse(reply.slice(start, end + 1));
+    } catch (parseError) {
+      console.warn('[ChatGPT API] Reply is not valid JSON:', parseError);
+    }
+  }
+  throw new Error(`Expected a JSON reply but got: ${reply.slice(0, 200)}`);
+}
+
+function jsonTypeOf(value: any): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+// Where a value breaks the schema, one message per problem with a path such as `$.tasks[2].due`; empty when it matches
+function validateJsonSchema(value: any, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonTypeOf(value);
+    // Every integer is also a number
+    if (!allowed.includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+      return [`${path} should be ${allowed.join(' or ')} but is ${actual}`];
+    }
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (jsonTypeOf(value) === 'object') {
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        errors.push(`${path}.${name} is missing`);
+      }
+    }
+    for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+      if (name in value) {
+        errors.push(...validateJsonSchema(value[name], propertySchema, `${path}.${name}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const name of Object.keys(value)) {
+        if (!schema.properties || !(name in schema.properties)) {
+          errors.push(`${path}.${name} is not allowed`);
+        }
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    const itemSchema = schema.items;
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, itemSchema, `${path}[${index}]`)));
+  }
+  return errors;
+}
+
+// The parsed reply and what is wrong with it, if anything
+function checkStructuredReply(reply: string, schema: JsonSchema): { value: any; errors: string[] } {
+  let value: any;
+  try {
+    value = parseJsonReply(reply);
+  } catch (parseError) {
+    return { value: undefined, errors: ['The reply is not a JSON object'] };
+  }
+  return { value, errors: validateJsonSchema(value, schema) };
+}
+
+// ===== NOTE TOOLS =====
+
+// A function the model may call from the chat; write tools only run once the user allows them in the panel
+interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  write: boolean;
+}
+
+// One call the model asked for, with its arguments parsed (null when they weren't valid JSON)
+interface ToolCall {
+  id: string;
+  name: string;
+  arguments: any;
+}
+
+// Rounds of tool calls allowed for one chat message before giving up
+const MAX_TOOL_ROUNDS = 8;
+
+// Most notes search_notes returns
+const MAX_TOOL_SEARCH_RESULTS = 10;
+
+// Longest note body read_note returns, in characters
+const MAX_TOOL_NOTE_CHARS = 8000;
+
+// Tool result for a write the user declined
+const TOOL_DECLINED_RESULT = 'The user declined this change, so nothing was written. Do not try it again unless they ask.';
+
+const NOTE_TOOLS: ToolDefinition[] = [
+  {
+    name: 'search_notes',
+    description: `Search the user's notes with Joplin's full-text search and return the id and title of up to ${MAX_TOOL_SEARCH_RESULTS} matches. Joplin search syntax such as tag:work or notebook:Projects can be used.`,
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'The search query' } },
+      required: ['query'],
+      additionalProperties: false
+    },
+    write: false
+  },
+  {
+    name: 'read_note',
+    description: 'Read a note by id: its title, notebook id and Markdown body.',
+    parameters: {
+      type: 'object',
+      properties: { id: { type: 'string', description: 'The note id' } },
+      required: ['id'],
+      additionalProperties: false
+    },
+    write: false
+  },
+  {
+    name: 'list_notebooks',
+    description: 'List every notebook with its id and full path, e.g. "Work / Projects".',
+    parameters: { type: 'object', properties: {}, required: [], additionalProperties: false },
+    write: false
+  },
+  {
+    name: 'create_note',
+    description: 'Create a note. The user is asked to allow it first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        body: { type: 'string', description: 'The note in Markdown' },
+        notebookId: { type: 'string', description: 'Id of a notebook from list_notebooks, or an empty string for the notebook the user has open' }
+      },
+      required: ['title', 'body', 'notebookId'],
+      additionalProperties: false
+    },
+    write: true
+  },
+  {
+    name: 'append_to_note',
+    description: 'Add Markdown text to the end of a note. The user is asked to allow it first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'The note id' },
+        text: { type: 'string', description: 'The text to add, in Markdown' }
+      },
+      required: ['id', 'text'],
+      additionalProperties: false
+    },
+    write: true
+  },
+  {
+    name: 'add_tag',
+    description: 'Tag a note, creating the tag if it does not exist yet. The user is asked to allow it first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'The note id' },
+        tag: { type: 'string', description: 'The tag name' }
+      },
+      required: ['id', 'tag'],
+      additionalProperties: false
+    },
+    write: true
+  }
+];
+
+// Providers send arguments as a JSON string (OpenAI) or an object (Anthropic)
+function parseToolArguments(raw: any): any {
+  if (typeof raw !== 'string') {
+    return raw ?? null;
+  }
+  try {
+    return JSON.parse(raw || '{}');
+  } catch (error) {
+    return null;
+  }
+}
+
+// A note body for read_note, cut to MAX_TOOL_NOTE_CHARS with a marker saying so
+function truncateNoteForTool(body: string): string {
+  if (body.length <= MAX_TOOL_NOTE_CHARS) {
+    return body;
+  }
+  return `${body.slice(0, MAX_TOOL_NOTE_CHARS)}\n\n[Truncated: the note is ${body.length} characters long]`;
+}
+
+// ===== TEXT DIFF =====
+
+// A run of text that is unchanged, added or removed between two versions
+interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// A piece of the review the user can take or leave; unchanged pieces have original === revised
+interface DiffHunk {
+  original: string;
+  revised: string;
+  changed: boolean;
+}
+
+// A rewrite waiting for the user's per-hunk decision in the review modal
+interface PendingReview {
+  title: string;
+  // Suffix for the title when the result is saved as a new note
+  label: string;
+  // Shown in the note's edit history once applied
+  action: string;
+  noteId: string;
+  noteTitle: string;
+  target: 'selection' | 'note';
+  original: string;
+  hunks: DiffHunk[];
+}
+
+// Beyond this many edits a diff is no longer readable, so it is shown as a full replacement
+const MAX_DIFF_EDITS = 2000;
+
+// Split text into words and the whitespace between them, so the tokens join back to the original
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+// Myers' O(ND) diff over token arrays, merged into segments
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v: number[] = new Array(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+  let found = false;
+
+  for (let d = 0; d <= Math.min(max, MAX_DIFF_EDITS) && !found; d++) {
+    // Only diagonals -d-1..d+1 are read when backtracking, so keep just that window
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return mergeSegments([
+      { type: 'delete', text: a.join('') },
+      { type: 'insert', text: b.join('') }
+    ]);
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const segments: DiffSegment[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (diagonal: number) => previous[diagonal + d + 1];
+    const k = x - y;
+    const previousK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      segments.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        segments.push({ type: 'insert', text: b[--y] });
+      } else {
+        segments.push({ type: 'delete', text: a[--x] });
+      }
+    }
+  }
+
+  return mergeSegments(segments.reverse());
+}
+
+// Join neighbouring segments of the same type and drop empty ones
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) {
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+// Word-level diff between the original text and ChatGPT's revision
+function diffText(original: string, revised: string): DiffSegment[] {
+  return diffTokens(tokenizeWords(original), tokenizeWords(revised));
+}
+
+// Group segments into hunks; spaces between two edits are folded in so a reworded phrase is a single hunk
+function buildDiffHunks(segments: DiffSegment[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let openHunk: DiffHunk | null = null;
+
+  segments.forEach((segment, index) => {
+    if (segment.type === 'equal') {
+      if (openHunk && /^[ \t]+$/.test(segment.text) && index + 1 < segments.length) {
+        openHunk.original += segment.text;
+        openHunk.revised += segment.text;
+        return;
+      }
+      openHunk = null;
+      hunks.push({ original: segment.text, revised: segment.text, changed: false });
+      return;
+    }
+
+    if (!openHunk) {
+      openHunk = { original: '', revised: '', changed: true };
+      hunks.push(openHunk);
+    }
+    if (segment.type === 'delete') {
+      openHunk.original += segment.text;
+    } else {
+      openHunk.revised += segment.text;
+    }
+  });
+
+  return hunks;
+}
+
+// Rebuild the text, taking the revision only for the accepted hunks
+function applyDiffHunks(hunks: DiffHunk[], acceptedHunks: number[]): string {
+  const accepted = new Set(acceptedHunks);
+  return hunks.map((hunk, index) => (hunk.changed && accepted.has(index) ? hunk.revised : hunk.original)).join('');
+}
+
+// Why the hunks no longer fit `current` (the open note's body, or its selection), or null if they still do
+function getStaleReviewError(review: PendingReview, noteId: string, current: string): string | null {
+  if (review.target === 'selection') {
+    return noteId !== review.noteId || current !== review.original
+      ? 'The selection changed while the review was open. Select the text and run the action again to review it.'
+      : null;
+  }
+  return current !== review.original
+    ? 'The note changed while the review was open. Run the action again to review the latest version.'
+    : null;
+}
+
+// ===== CHAT SESSIONS =====
+
+// One chat turn as persisted in a session (the API history only keeps role and content)
+interface ChatSessionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  model?: string;
+}
+
+interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatSessionMessage[];
+  // Persona the chat uses; missing means the default persona
+  personaId?: string;
+  // Model the chat uses instead of the Model setting (from its persona); missing means the setting
+  model?: string;
+}
+
+// What the panel's session switcher needs to list a session
+interface ChatSessionSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  messageCount: number;
+}
+
+// Named chat sessions persisted as a JSON file in the plugin data dir
+class ChatSessionStore {
+  private filePath: string;
+  private sessions: ChatSession[] = [];
+  private activeSessionId = '';
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // Read sessions from disk; a missing or corrupt file starts with a single empty session
+  load(): void {
+    const fs = require('fs');
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.sessions = Array.isArray(data.sessions)
+          ? data.sessions.filter((session: any) => session && session.id && Array.isArray(session.messages))
+          : [];
+        this.activeSessionId = data.activeSessionId || '';
+      }
+    } catch (error: any) {
+      console.error('Error reading chat sessions file, starting fresh:', error);
+      this.sessions = [];
+    }
+
+    if (!this.findSession(this.activeSessionId)) {
+      const mostRecent = this.listSessions()[0];
+      if (mostRecent) {
+        this.activeSessionId = mostRecent.id;
+      } else {
+        this.createSession();
+      }
+    }
+  }
+
+  // Write to a temp file first so a crash mid-write can't truncate the sessions file
+  private save(): void {
+    const fs = require('fs');
+    const path = require('path');
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify({ activeSessionId: this.activeSessionId, sessions: this.sessions }, null, 2), 'utf8');
+      fs.renameSync(tempFile, this.filePath);
+    } catch (error: any) {
+      console.error('Error saving chat sessions:', error);
+    }
+  }
+
+  private findSession(id: string): ChatSession | undefined {
+    return this.sessions.find(session => session.id === id);
+  }
+
+  private requireSession(id: string): ChatSession {
+    const session = this.findSession(id);
+    if (!session) {
+      throw new Error(`Chat session not found: ${id}`);
+    }
+    return session;
+  }
+
+  // Most recently used first
+  listSessions(): ChatSessionSummary[] {
+    return this.sessions
+      .map(session => ({
+        id: session.id,
+        name: session.name,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  getActiveSession(): ChatSession {
+    return this.requireSession(this.activeSessionId);
+  }
+
+  createSession(name?: string, personaId?: string): ChatSession {
+    const now = Date.now();
+    const session: ChatSession = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: (name || '').trim() || `Chat ${new Date(now).toLocaleString()}`,
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    };
+    if (personaId) {
+      session.personaId = personaId;
+    }
+    this.sessions.push(session);
+    this.activeSessionId = session.id;
+    this.save();
+    return session;
+  }
+
+  switchSession(id: string): ChatSession {
+    const session = this.requireSession(id);
+    this.activeSessionId = session.id;
+    this.save();
+    return session;
+  }
+
+  renameSession(id: string, name: string): ChatSession {
+    const trimmedName = (name || '').trim();
+    if (!trimmedName) {
+      throw new Error('Session name cannot be empty');
+    }
+    const session = this.requireSession(id);
+    session.name = trimmedName;
+    this.save();
+    return session;
+  }
+
+  // Deleting the active session falls back to the most recent remaining one (or a fresh session)
+  deleteSession(id: string): ChatSession {
+    this.requireSession(id);
+    this.sessions = this.sessions.filter(session => session.id !== id);
+    if (this.activeSessionId === id) {
+      const mostRecent = this.listSessions()[0];
+      if (!mostRecent) {
+        return this.createSession();
+      }
+      this.activeSessionId = mostRecent.id;
+    }
+    this.save();
+    return this.getActiveSession();
+  }
+
+  setSessionPersona(id: string, personaId: string): ChatSession {
+    const session = this.requireSession(id);
+    session.personaId = personaId;
+    this.save();
+    return session;
+  }
+
+  // An empty model puts the chat back on the Model setting
+  setSessionModel(id: string, model?: string): ChatSession {
+    const session = this.requireSession(id);
+    if (model) {
+      session.model = model;
+    } else {
+      delete session.model;
+    }
+    this.save();
+    return session;
+  }
+
+  appendMessages(messages: ChatSessionMessage[]): void {
+    const session = this.getActiveSession();
+    session.messages.push(...messages);
+    session.updatedAt = Date.now();
+    this.save();
+  }
+
+  clearActiveSession(): void {
+    const session = this.getActiveSession();
+    session.messages = [];
+    session.updatedAt = Date.now();
+    this.save();
+  }
+}
+
+// Precedes each message in an exported transcript so the note can be read back into a session
+const TRANSCRIPT_MESSAGE_MARKER = /^<!-- chatgpt-message role="(user|assistant)" timestamp="([^"]*)"(?: model="([^"]*)")? -->$/gm;
+
+// Render a session as a Markdown note body
+function formatTranscriptMarkdown(session: ChatSession): string {
+  const lines = [
+    `*Exported from ChatGPT Toolkit on ${new Date().toLocaleString()}. Open this note and use **Resume Chat** in the ChatGPT panel to continue the conversation.*`,
+    ''
+  ];
+
+  for (const message of session.messages) {
+    const timestamp = new Date(message.timestamp);
+    const speaker = message.role === 'user' ? '🧑 You' : `🤖 Assistant${message.model ? ` (${message.model})` : ''}`;
+    lines.push(
+      `<!-- chatgpt-message role="${message.role}" timestamp="${timestamp.toISOString()}"${message.model ? ` model="${message.model}"` : ''} -->`,
+      `### ${speaker} · ${timestamp.toLocaleString()}`,
+      '',
+      message.content,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+// Read the messages back out of an exported transcript ([] if the note isn't one)
+function parseTranscriptMarkdown(body: string): ChatSessionMessage[] {
+  const normalized = body.replace(/\r\n/g, '\n');
+  const markers = [...normalized.matchAll(TRANSCRIPT_MESSAGE_MARKER)];
+
+  return markers.map((marker, index) => {
+    const start = (marker.index || 0) + marker[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index : normalized.length;
+    // Drop the heading line written under the marker
+    const content = normalized.slice(start, end).replace(/^\n### [^\n]*\n/, '').trim();
+    const timestamp = Date.parse(marker[2]);
+    const message: ChatSessionMessage = {
+      role: marker[1] as 'user' | 'assistant',
+      content: content,
+      timestamp: isNaN(timestamp) ? Date.now() : timestamp
+    };
+    if (marker[3]) {
+      message.model = marker[3];
+    }
+    return message;
+  }).filter(message => message.content !== '');
+}
+
+// ===== NOTE REVISIONS =====
+
+// A note body as it was just before a ChatGPT edit
+interface NoteRevision {
+  id: string;
+  timestamp: number;
+  // What overwrote this version, e.g. "Append response" or "Improve note"
+  action: string;
+  body: string;
+  // The body the edit left behind, when known, so an undo can tell whether the note changed since
+  result?: string;
+}
+
+// Older snapshots are dropped once a note has this many
+const MAX_NOTE_REVISIONS = 20;
+
+// Per-note revision logs, one JSON file per note in the plugin data dir
+class NoteRevisionStore {
+  private dirPath: string;
+
+  constructor(dirPath: string) {
+    this.dirPath = dirPath;
+  }
+
+  private filePath(noteId: string): string {
+    const path = require('path');
+    // Note ids are hex, but never let one escape the revisions folder
+    return path.join(this.dirPath, `${noteId.replace(/[^A-Za-z0-9_-]/g, '')}.json`);
+  }
+
+  // Oldest first, as stored; a missing or corrupt file is an empty log
+  private read(noteId: string): NoteRevision[] {
+    const fs = require('fs');
+    try {
+      const file = this.filePath(noteId);
+      if (!fs.existsSync(file)) {
+        return [];
+      }
+      const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return Array.isArray(data.revisions)
+        ? data.revisions.filter((revision: any) => revision && revision.id && typeof revision.body === 'string')
+        : [];
+    } catch (error: any) {
+      console.error('Error reading note revisions, ignoring them:', error);
+      return [];
+    }
+  }
+
+  // Same temp-file-and-rename write as the chat sessions file; an empty log removes the file
+  private write(noteId: string, revisions: NoteRevision[]): void {
+    const fs = require('fs');
+    const file = this.filePath(noteId);
+    if (revisions.length === 0) {
+      fs.rmSync(file, { force: true });
+      return;
+    }
+    fs.mkdirSync(this.dirPath, { recursive: true });
+    const tempFile = `${file}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify({ noteId, revisions }, null, 2), 'utf8');
+    fs.renameSync(tempFile, file);
+  }
+
+  // Newest first
+  listRevisions(noteId: string): NoteRevision[] {
+    return this.read(noteId).reverse();
+  }
+
+  recordRevision(noteId: string, body: string, action: string, result?: string): NoteRevision {
+    const now = Date.now();
+    const revision: NoteRevision = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: now,
+      action,
+      body
+    };
+    if (result !== undefined) {
+      revision.result = result;
+    }
+    const revisions = [...this.read(noteId), revision].slice(-MAX_NOTE_REVISIONS);
+    this.write(noteId, revisions);
+    return revision;
+  }
+
+  getRevision(noteId: string, revisionId: string): NoteRevision {
+    const revision = this.read(noteId).find(candidate => candidate.id === revisionId);
+    if (!revision) {
+      throw new Error(`Note revision not found: ${revisionId}`);
+    }
+    return revision;
+  }
+
+  // Remove and return the newest snapshot, so repeated undos keep stepping back
+  takeLatestRevision(noteId: string): NoteRevision | null {
+    const revisions = this.read(noteId);
+    const latest = revisions.pop();
+    if (!latest) {
+      return null;
+    }
+    this.write(noteId, revisions);
+    return latest;
+  }
+}
+
+// ===== PROMPT TEMPLATES =====
+
+// Where a template's reply goes: over the selection (after review), after the note, into a new note, or just the chat
+type PromptTemplateTarget = 'replaceSelection' | 'append' | 'newNote' | 'chat';
+
+const PROMPT_TEMPLATE_TARGETS: PromptTemplateTarget[] = ['replaceSelection', 'append', 'newNote', 'chat'];
+
+// Targets that don't need the chat or a review, so a template can run on many notes at once
+const BATCH_TEMPLATE_TARGETS: PromptTemplateTarget[] = ['append', 'newNote'];
+
+// A user-defined prompt, shown as a panel button and registered as a command
+interface PromptTemplate {
+  id: string;
+  name: string;
+  prompt: string;
+  target: PromptTemplateTarget;
+}
+
+// Values for the {{placeholders}} a template can use
+interface PromptTemplateContext {
+  selection: string;
+  noteTitle: string;
+  noteBody: string;
+  date: string;
+}
+
+// Written to prompt-templates.json the first time, as examples to edit
+const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'action-items',
+    name: 'Action Items',
+    prompt: 'List the action items in the note "{{note.title}}" as a Markdown checklist, with owners and due dates where they are mentioned:\n\n{{note.body}}',
+    target: 'append'
+  },
+  {
+    id: 'translate-to-english',
+    name: 'Translate to English',
+    prompt: 'Translate the following text to English. Reply with only the translation:\n\n{{selection}}',
+    target: 'replaceSelection'
+  },
+  {
+    id: 'meeting-follow-up',
+    name: 'Meeting Follow-up',
+    prompt: 'Write a short follow-up email for the meeting notes below, dated {{date}}:\n\n{{note.body}}',
+    target: 'newNote'
+  },
+  {
+    id: 'explain-selection',
+    name: 'Explain Selection',
+    prompt: 'Explain the following in plain language:\n\n{{selection}}',
+    target: 'chat'
+  }
+];
+
+// Fill in {{selection}}, {{note.body}}, {{note.title}} and {{date}}; unknown placeholders are left as written
+function renderPromptTemplate(prompt: string, context: PromptTemplateContext): string {
+  const values: { [placeholder: string]: string } = {
+    'selection': context.selection,
+    'note.body': context.noteBody,
+    'note.title': context.noteTitle,
+    'date': context.date
+  };
+  return prompt.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, name) => (name in values ? values[name] : placeholder));
+}
+
+// Keep the usable entries of a templates file, giving each a unique id derived from its name if it has none
+function normalizePromptTemplates(data: any): PromptTemplate[] {
+  const entries = Array.isArray(data) ? data : (data && Array.isArray(data.templates) ? data.templates : []);
+  const templates: PromptTemplate[] = [];
+  const ids = new Set<string>();
+
+  for (const entry of entries) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const prompt = typeof entry?.prompt === 'string' ? entry.prompt : '';
+    if (!name || !prompt.trim()) {
+      console.warn('Skipping prompt template without a name or prompt:', entry);
+      continue;
+    }
+    const baseId = String(entry.id || name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+    let id = baseId;
+    for (let suffix = 2; ids.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    ids.add(id);
+    templates.push({
+      id,
+      name,
+      prompt,
+      target: PROMPT_TEMPLATE_TARGETS.includes(entry.target) ? entry.target : 'chat'
+    });
+  }
+
+  return templates;
+}
+
+// A note in the prompts notebook together with its tag titles
+interface PromptNote {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+}
+
+// In the prompts notebook, the note with this title or tag is the system prompt
+const SYSTEM_PROMPT_NOTE_TITLE = 'System Prompt';
+const SYSTEM_PROMPT_TAG = 'system-prompt';
+
+// Tags that choose a template note's target (Joplin stores tag titles in lower case)
+const PROMPT_TEMPLATE_TARGET_TAGS: { [tag: string]: PromptTemplateTarget } = {
+  'replace-selection': 'replaceSelection',
+  'append': 'append',
+  'new-note': 'newNote',
+  'chat': 'chat'
+};
+
+// Split the prompts notebook into the system prompt and templates named after the other notes
+function readPromptNotes(notes: PromptNote[]): { systemPrompt: string | null; templates: PromptTemplate[] } {
+  const tags = (note: PromptNote) => note.tags.map(tag => tag.toLowerCase());
+  const systemNote = notes.find(note => tags(note).includes(SYSTEM_PROMPT_TAG))
+    || notes.find(note => note.title.trim().toLowerCase() === SYSTEM_PROMPT_NOTE_TITLE.toLowerCase());
+
+  const templateEntries = notes
+    .filter(note => note !== systemNote)
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .map(note => {
+      const targetTag = tags(note).find(tag => tag in PROMPT_TEMPLATE_TARGET_TAGS);
+      return {
+        name: note.title,
+        prompt: note.body.trim(),
+        target: targetTag ? PROMPT_TEMPLATE_TARGET_TAGS[targetTag] : 'chat'
+      };
+    });
+
+  return {
+    systemPrompt: systemNote && systemNote.body.trim() ? systemNote.body.trim() : null,
+    templates: normalizePromptTemplates(templateEntries)
+  };
+}
+
+// Prompt templates kept in a JSON file in the plugin data dir, created with examples on first use
+class PromptTemplateStore {
+  private filePath: string;
+  private templates: PromptTemplate[] = [];
+
+  // Templates from the prompts notebook; when set they replace the file's templates
+  private notebookTemplates: PromptTemplate[] | null = null;
+  // Why the last load failed, or null if it succeeded
+  private loadError: string | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  setNotebookTemplates(templates: PromptTemplate[] | null): void {
+    this.notebookTemplates = templates;
+  }
+
+  // A corrupt file keeps whatever was loaded before rather than dropping every template
+  load(): void {
+    const fs = require('fs');
+    const path = require('path');
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify({ templates: DEFAULT_PROMPT_TEMPLATES }, null, 2), 'utf8');
+      }
+      this.templates = normalizePromptTemplates(JSON.parse(fs.readFileSync(this.filePath, 'utf8')));
+      this.loadError = null;
+    } catch (error: any) {
+      console.error('Error reading prompt templates file:', error);
+      this.loadError = error.message;
+    }
+  }
+
+  getLoadError(): string | null {
+    return this.loadError;
+  }
+
+  getTemplates(): PromptTemplate[] {
+    return this.notebookTemplates || this.templates;
+  }
+
+  getTemplate(id: string): PromptTemplate {
+    const template = this.getTemplates().find(candidate => candidate.id === id);
+    if (!template) {
+      throw new Error(`Prompt template not found: ${id}`);
+    }
+    return template;
+  }
+}
+
+// ===== PERSONAS =====
+
+// A named assistant setup with its own system prompt and, optionally, model and GPT-5 tuning
+interface Persona {
+  id: string;
+  name: string;
+  // Empty means the regular system prompt (system-prompt.txt or the prompts notebook)
+  systemPrompt: string;
+  // Selected in the model selector when the persona is chosen
+  model?: string;
+  reasoningEffort?: string;
+  verbosity?: string;
+}
+
+// Uses the regular system prompt; always available, and the fallback for chats whose persona was removed
+const DEFAULT_PERSONA: Persona = { id: 'executive-assistant', name: 'Executive Assistant', systemPrompt: '' };
+
+// Written to personas.json the first time, as examples to edit
+const DEFAULT_PERSONAS: Persona[] = [
+  DEFAULT_PERSONA,
+  {
+    id: 'code-reviewer',
+    name: 'Code Reviewer',
+    systemPrompt: 'You are a senior software engineer reviewing code from the user\'s notes. Point out bugs, security problems and unclear code first, then suggest concrete improvements with corrected code in fenced Markdown code blocks. Be direct and brief.',
+    reasoningEffort: 'medium'
+  },
+  {
+    id: 'translator',
+    name: 'Translator',
+    systemPrompt: 'You are a professional translator. Translate the text you are given into the language the user asks for (English if none is named), keeping its meaning, tone and Markdown formatting. Reply with only the translation.',
+    verbosity: 'low'
+  }
+];
+
+// Keep the usable entries of a personas file; the default persona is always first
+function normalizePersonas(data: any): Persona[] {
+  const entries = Array.isArray(data) ? data : (data && Array.isArray(data.personas) ? data.personas : []);
+  const personas: Persona[] = [];
+  const ids = new Set<string>();
+  const optional = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+  for (const entry of entries) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!name) {
+      console.warn('Skipping persona without a name:', entry);
+      continue;
+    }
+    const id = String(entry.id || name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'persona';
+    if (ids.has(id)) {
+      console.warn('Skipping persona with a duplicate id:', id);
+      continue;
+    }
+    ids.add(id);
+    const persona: Persona = { id, name, systemPrompt: typeof entry.systemPrompt === 'string' ? entry.systemPrompt.trim() : '' };
+    for (const key of ['model', 'reasoningEffort', 'verbosity'] as const) {
+      const value = optional(entry[key]);
+      if (value) {
+        persona[key] = value;
+      }
+    }
+    personas.push(persona);
+  }
+
+  const defaultIndex = personas.findIndex(persona => persona.id === DEFAULT_PERSONA.id);
+  if (defaultIndex === -1) {
+    personas.unshift({ ...DEFAULT_PERSONA });
+  } else if (defaultIndex > 0) {
+    personas.unshift(...personas.splice(defaultIndex, 1));
+  }
+  return personas;
+}
+
+// Personas kept in a JSON file in the plugin data dir, created with examples on first use
+class PersonaStore {
+  private filePath: string;
+  private personas: Persona[] = [{ ...DEFAULT_PERSONA }];
+  // Why the last load failed, or null if it succeeded
+  private loadError: string | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // A corrupt file keeps whatever was loaded before
+  load(): void {
+    const fs = require('fs');
+    const path = require('path');
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify({ personas: DEFAULT_PERSONAS }, null, 2), 'utf8');
+      }
+      this.personas = normalizePersonas(JSON.parse(fs.readFileSync(this.filePath, 'utf8')));
+      this.loadError = null;
+    } catch (error: any) {
+      console.error('Error reading personas file:', error);
+      this.loadError = error.message;
+    }
+  }
+
+  getLoadError(): string | null {
+    return this.loadError;
+  }
+
+  getPersonas(): Persona[] {
+    return this.personas;
+  }
+
+  // Unknown ids (e.g. a persona deleted from the file) fall back to the default persona
+  getPersona(id?: string): Persona {
+    return this.personas.find(persona => persona.id === id) || this.personas[0];
+  }
+}
+
+// ===== NOTE CONTEXT =====
+
+// Estimate token count for a message (rough approximation: 1 token ≈ 4 characters)
+function estimateTokenCount(text: string): number {
+  if (!text || typeof text !== 'string') {
+    return 0;
+  }
+  return Math.ceil(text.length / 4);
+}
+
+// Linked notes beyond this many are left out of the context
+const MAX_LINKED_CONTEXT_NOTES = 10;
+
+// The selected note, and the notes it links to, sent along with chat requests
+interface NoteContext {
+  note: Note;
+  linkedNotes: Note[];
+}
+
+// Ids of the items a note links to with `:/<id>` links, in order of first appearance
+function extractLinkedNoteIds(body: string): string[] {
+  const ids: string[] = [];
+  const linkPattern = /:\/([0-9a-f]{32})\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = linkPattern.exec(body)) !== null) {
+    if (!ids.includes(match[1])) {
+      ids.push(match[1]);
+    }
+  }
+  return ids;
+}
+
+// The system message that grounds a chat request in the attached notes
+function formatNoteContext(context: NoteContext): string {
+  const sections = [
+    'The user is working on the note below. Use it as context when answering; do not repeat it back unless asked.',
+    `## Current note: ${context.note.title || 'Untitled'}\n\n${context.note.body}`,
+    ...context.linkedNotes.map(note => `## Linked note: ${note.title || 'Untitled'}\n\n${note.body}`)
+  ];
+  return sections.join('\n\n');
+}
+
+// ===== ATTACHMENTS =====
+
+// An image or PDF sent along with one chat message
+interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // File contents, base64-encoded
+  data: string;
+  size: number;
+}
+
+// What vision models accept; PDFs also need OpenAI, Azure OpenAI or Anthropic
+const ATTACHMENT_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'];
+
+// Largest file that can be attached, in bytes (Anthropic's limit for images)
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Most files that can be attached to one message
+const MAX_ATTACHMENTS = 5;
+
+function formatByteSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Why a file can't be attached next to `attachedCount` others, or null if it can
+function checkAttachment(name: string, mimeType: string, size: number, attachedCount: number): string | null {
+  if (!ATTACHMENT_MIME_TYPES.includes(mimeType)) {
+    return `"${name}" can't be attached: only PNG, JPEG, GIF and WebP images and PDFs are supported.`;
+  }
+  if (size > MAX_ATTACHMENT_BYTES) {
+    return `"${name}" is too large to attach (${formatByteSize(size)}; the limit is ${formatByteSize(MAX_ATTACHMENT_BYTES)}).`;
+  }
+  if (attachedCount >= MAX_ATTACHMENTS) {
+    return `"${name}" was not attached: a message can carry at most ${MAX_ATTACHMENTS} files.`;
+  }
+  return null;
+}
+
+// Split a `data:<type>;base64,<data>` URL, e.g. a pasted image; null for anything else
+function parseDataUrl(url: string): { mimeType: string; data: string; size: number } | null {
+  const match = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/.exec(url);
+  if (!match) {
+    return null;
+  }
+  const data = match[2];
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return { mimeType: match[1].toLowerCase(), data, size: Math.floor(data.length * 3 / 4) - padding };
+}
+
+function attachmentDataUrl(attachment: ChatAttachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+// A request body for the log, with each attachment's contents reduced to its type and size:
+// the base64 can run to megabytes per message and is the user's own files
+function formatRequestBodyForLog(body: any): string {
+  return JSON.stringify(body, function (this: any, key: string, value: any) {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const dataUrl = parseDataUrl(value);
+    if (dataUrl) {
+      return `[${dataUrl.mimeType}, ${formatByteSize(dataUrl.size)}]`;
+    }
+    // Anthropic sends the base64 on its own, next to the media type
+    if (key === 'data' && this && this.type === 'base64') {
+      return `[${this.media_type}, ${formatByteSize(Math.floor(value.length * 3 / 4))}]`;
+    }
+    return value;
+  }, 2);
+}
+
+// ===== IMAGE GENERATION =====
+
+// An image generated with /image, kept until it is inserted or pushed out by newer ones
+interface GeneratedImage {
+  id: string;
+  prompt: string;
+  // The prompt as rewritten by the model (DALL·E 3 does this), or '' if unchanged
+  revisedPrompt: string;
+  mimeType: string;
+  // Image contents, base64-encoded
+  data: string;
+}
+
+const IMAGE_SIZE = '1024x1024';
+
+// Image generation is much slower than chat
+const IMAGE_TIMEOUT_MS = 120000;
+
+// Most generated images kept for inserting; older ones are dropped
+const MAX_GENERATED_IMAGES = 10;
+
+// The prompt of an `/image <prompt>` chat message ('' if it has none), or null for any other message
+function parseImageCommand(message: string): string | null {
+  const match = /^\/image(?:\s+([\s\S]*))?$/i.exec(message.trim());
+  return match ? (match[1] || '').trim() : null;
+}
+
+// ===== TRANSCRIPTION =====
+
+// A recording sent for transcription; the name's extension tells the server the audio format
+interface AudioFile {
+  name: string;
+  // Contents, typed with the audio MIME type
+  data: Blob;
+}
+
+// Largest recording OpenAI transcribes; transcription servers set their own limits
+const MAX_TRANSCRIPTION_BYTES = 25 * 1024 * 1024;
+
+// Long recordings take a while, especially on a local whisper server without a GPU
+const TRANSCRIPTION_TIMEOUT_MS = 600000;
+
+// Audio (and the video containers Whisper reads the audio track from)
+function isTranscribableMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('audio/') || mimeType === 'video/mp4' || mimeType === 'video/webm';
+}
+
+// Markdown written into the note: the summary, when there is one, goes above the transcript
+function formatTranscriptSection(name: string, transcript: string, summary = ''): string {
+  const sections = summary ? [`### Summary of ${name}\n\n${summary.trim()}`] : [];
+  sections.push(`### Transcript of ${name}\n\n${transcript.trim()}`);
+  return sections.join('\n\n');
+}
+
+// Put the section on the line after the recording's link, or at the end if the note no longer links to it
+function insertTranscript(body: string, resourceId: string, section: string): string {
+  const linkIndex = body.indexOf(`:/${resourceId}`);
+  if (linkIndex === -1) {
+    return body.trim() ? `${body.trimEnd()}\n\n${section}\n` : `${section}\n`;
+  }
+  const lineEnd = body.indexOf('\n', linkIndex);
+  const insertAt = lineEnd === -1 ? body.length : lineEnd;
+  return `${body.slice(0, insertAt)}\n\n${section}\n${body.slice(insertAt)}`;
+}
+
+// ===== NOTES INDEX =====
+
+// Longest piece of a note indexed on its own (~375 tokens)
+const NOTE_CHUNK_MAX_CHARS = 1500;
+
+// Texts sent per embeddings request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Time allowed for one embeddings request before it's abandoned
+const EMBEDDING_TIMEOUT_MS = 60000;
+
+// What a search backend keeps for one chunk of a note
+interface IndexedChunk {
+  text: string;
+  // Embedding of the text (embeddings backend)
+  vector?: number[];
+  // How often each term occurs in the text (keyword backend)
+  terms?: {[term: string]: number};
+}
+
+interface IndexedNote {
+  noteId: string;
+  title: string;
+  updatedTime: number;
+  chunks: IndexedChunk[];
+}
+
+// A note as fetched for indexing
+interface IndexableNote {
+  id: string;
+  title: string;
+  body: string;
+  updated_time: number;
+}
+
+// A matching chunk, best match first
+interface NoteSearchResult {
+  noteId: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+// How chunks are indexed and scored against a query
+interface NotesSearchBackend {
+  // Saved with the index; an index built under a different key is thrown away
+  readonly key: string;
+  indexChunks(texts: string[]): Promise<IndexedChunk[]>;
+  // One score per chunk; higher is better and 0 or less means no match
+  scoreChunks(query: string, chunks: IndexedChunk[]): Promise<number[]>;
+}
+
+// Split a note into chunks of whole paragraphs, cutting only paragraphs that are too long on their own.
+// Each chunk starts with the title so it still makes sense when retrieved alone.
+function chunkNoteText(title: string, body: string, maxChars = NOTE_CHUNK_MAX_CHARS): string[] {
+  const heading = `# ${title || 'Untitled'}\n\n`;
+  const limit = Math.max(maxChars - heading.length, 1);
+  const pieces: string[] = [];
+  body.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph !== '').forEach(paragraph => {
+    for (let start = 0; start < paragraph.length; start += limit) {
+      pieces.push(paragraph.slice(start, start + limit));
+    }
+  });
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > limit) {
+      chunks.push(heading + current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current || chunks.length === 0) {
+    chunks.push(heading + current);
+  }
+  return chunks;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Remote embeddings: chunks and queries are embedded by the AI provider and compared by cosine similarity
+class EmbeddingsSearchBackend implements NotesSearchBackend {
+  readonly key: string;
+  private embed: (inputs: string[]) => Promise<number[][]>;
+
+  constructor(model: string, embed: (inputs: string[]) => Promise<number[][]>) {
+    this.key = `embeddings:${model}`;
+    this.embed = embed;
+  }
+
+  async indexChunks(texts: string[]): Promise<IndexedChunk[]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      vectors.push(...await this.embed(texts.slice(start, start + EMBEDDING_BATCH_SIZE)));
+    }
+    return texts.map((text, index) => ({
+      text,
+      // Five decimals keep the ranking and make the file a lot smaller
+      vector: vectors[index].map(value => Math.round(value * 1e5) / 1e5)
+    }));
+  }
+
+  async scoreChunks(query: string, chunks: IndexedChunk[]): Promise<number[]> {
+    if (chunks.length === 0) {
+      return [];
+    }
+    const [queryVector] = await this.embed([query]);
+    return chunks.map(chunk => cosineSimilarity(queryVector, chunk.vector || []));
+  }
+}
+
+// Words too common to tell notes apart
+const SEARCH_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their',
+  'them', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your'
+]);
+
+// Lower-cased words and numbers in any script, without stop words
+function tokenizeForSearch(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(term => !SEARCH_STOP_WORDS.has(term));
+}
+
+// BM25 tuning: term frequency saturation and document length normalisation (the usual defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Local keyword search: BM25 over the chunks, computed in the plugin. Nothing leaves the machine.
+class KeywordSearchBackend implements NotesSearchBackend {
+  readonly key: string = 'keyword';
+
+  async indexChunks(texts: string[]): Promise<IndexedChunk[]> {
+    return texts.map(text => {
+      const terms: {[term: string]: number} = {};
+      tokenizeForSearch(text).forEach(term => {
+        terms[term] = (terms[term] || 0) + 1;
+      });
+      return { text, terms };
+    });
+  }
+
+  async scoreChunks(query: string, chunks: IndexedChunk[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+    const lengths = chunks.map(chunk => Object.values(chunk.terms || {}).reduce((sum, count) => sum + count, 0));
+    const averageLength = lengths.reduce((sum, length) => sum + length, 0) / (chunks.length || 1) || 1;
+    const inverseFrequency = queryTerms.map(term => {
+      const containing = chunks.filter(chunk => chunk.terms?.[term]).length;
+      return Math.log(1 + (chunks.length - containing + 0.5) / (containing + 0.5));
+    });
+
+    return chunks.map((chunk, index) => queryTerms.reduce((score, term, termIndex) => {
+      const frequency = chunk.terms?.[term] || 0;
+      if (!frequency) {
+        return score;
+      }
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * lengths[index] / averageLength);
+      return score + inverseFrequency[termIndex] * frequency * (BM25_K1 + 1) / (frequency + norm);
+    }, 0));
+  }
+}
+
+// Build the backend chosen in settings (unknown values fall back to embeddings)
+function createNotesSearchBackend(backend: string, embeddingModel: string, embed: (inputs: string[]) => Promise<number[][]>): NotesSearchBackend {
+  if (backend === 'keyword') {
+    return new KeywordSearchBackend();
+  }
+  return new EmbeddingsSearchBackend(embeddingModel || DEFAULT_EMBEDDING_MODEL, embed);
+}
+
+// The system message that hands retrieved chunks to the model and asks it to cite them
+function formatRetrievedContext(results: NoteSearchResult[]): string {
+  const sections = results.map(result => `## [${result.title || 'Untitled'}](:/${result.noteId})\n\n${result.text}`);
+  return [
+    'Excerpts from the user\'s notes that may help answer the next message. Only rely on them where they are relevant.',
+    'When you use an excerpt, cite its note with the Markdown link given in its heading, e.g. [Note title](:/noteId).',
+    ...sections
+  ].join('\n\n');
+}
+
+// Each note's distinct sources, in the order they were retrieved
+function uniqueSources(results: NoteSearchResult[]): Array<{ noteId: string; title: string }> {
+  const sources: Array<{ noteId: string; title: string }> = [];
+  results.forEach(result => {
+    if (!sources.some(source => source.noteId === result.noteId)) {
+      sources.push({ noteId: result.noteId, title: result.title || 'Untitled' });
+    }
+  });
+  return sources;
+}
+
+// Search data for every note, kept in one JSON file and updated note by note
+class NotesIndexStore {
+  private filePath: string;
+  private backend: NotesSearchBackend | null = null;
+  private key = '';
+  private notes: {[noteId: string]: IndexedNote} = {};
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // A missing or corrupt file means an empty index
+  load(): void {
+    const fs = require('fs');
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.key = typeof data.key === 'string' ? data.key : '';
+      this.notes = data.notes && typeof data.notes === 'object' ? data.notes : {};
+    } catch (error: any) {
+      console.error('Error reading notes index, starting fresh:', error);
+      this.key = '';
+      this.notes = {};
+    }
+  }
+
+  // Scores from different backends (or embedding models) can't be mixed, so switching empties the index
+  setBackend(backend: NotesSearchBackend): void {
+    this.backend = backend;
+    if (backend.key !== this.key) {
+      this.key = backend.key;
+      this.notes = {};
+      this.save();
+    }
+  }
+
+  noteCount(): number {
+    return Object.keys(this.notes).length;
+  }
+
+  // Compare the index with the notes that exist now (id and updated_time only)
+  findStaleNotes(current: Array<{ id: string; updated_time: number }>): { changed: string[]; removed: string[] } {
+    const currentIds = new Set(current.map(note => note.id));
+    return {
+      changed: current.filter(note => this.notes[note.id]?.updatedTime !== note.updated_time).map(note => note.id),
+      removed: Object.keys(this.notes).filter(noteId => !currentIds.has(noteId))
+    };
+  }
+
+  // Index the notes' chunks and save; notes already indexed at the same updated_time are skipped
+  async indexNotes(notes: IndexableNote[]): Promise<number> {
+    const backend = this.requireBackend();
+    const pending = notes.filter(note => this.notes[note.id]?.updatedTime !== note.updated_time);
+    const chunked = pending.map(note => ({ note, texts: chunkNoteText(note.title, note.body || '') }));
+    const chunks = await backend.indexChunks(chunked.reduce((all: string[], entry) => all.concat(entry.texts), []));
+
+    let offset = 0;
+    chunked.forEach(({ note, texts }) => {
+      this.notes[note.id] = {
+        noteId: note.id,
+        title: note.title,
+        updatedTime: note.updated_time,
+        chunks: chunks.slice(offset, offset + texts.length)
+      };
+      offset += texts.length;
+    });
+    if (pending.length > 0) {
+      this.save();
+    }
+    return pending.length;
+  }
+
+  removeNotes(noteIds: string[]): void {
+    const indexed = noteIds.filter(noteId => this.notes[noteId]);
+    indexed.forEach(noteId => delete this.notes[noteId]);
+    if (indexed.length > 0) {
+      this.save();
+    }
+  }
+
+  // The chunks that match the query best
+  async search(query: string, limit: number): Promise<NoteSearchResult[]> {
+    const backend = this.requireBackend();
+    const entries: Array<{ note: IndexedNote; chunk: IndexedChunk }> = [];
+    Object.values(this.notes).forEach(note => {
+      note.chunks.forEach(chunk => entries.push({ note, chunk }));
+    });
+    if (entries.length === 0) {
+      return [];
+    }
+    const scores = await backend.scoreChunks(query, entries.map(entry => entry.chunk));
+    return entries
+      .map((entry, index) => ({ noteId: entry.note.noteId, title: entry.note.title, text: entry.chunk.text, score: scores[index] }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private requireBackend(): NotesSearchBackend {
+    if (!this.backend) {
+      throw new Error('Notes search backend is not set');
+    }
+    return this.backend;
+  }
+
+  private save(): void {
+    const fs = require('fs');
+    const path = require('path');
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify({ key: this.key, notes: this.notes }), 'utf8');
+      fs.renameSync(tempFile, this.filePath);
+    } catch (error: any) {
+      console.error('Error saving notes index:', error);
+    }
+  }
+}
+
+// ===== BATCH OPERATIONS =====
+
+type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One note in a batch job, as shown in the panel's progress view
+interface BatchItem {
+  noteId: string;
+  title: string;
+  status: BatchItemStatus;
+  error?: string;
+  // Rate-limit retries so far
+  retries: number;
+}
+
+interface BatchRunnerOptions {
+  // Notes processed at once; halved (down to 1) each time the provider rate-limits
+  concurrency: number;
+  // Retries per note after a rate limit before it counts as failed
+  maxRetries: number;
+  // First wait after a rate limit when the response has no Retry-After; doubles on each retry
+  baseDelayMs: number;
+  onUpdate?: (item: BatchItem) => void;
+  // Replaced in tests; ends early when `signal` aborts
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+}
+
+// Longest rate-limit pause, whatever Retry-After asks for, so a batch never sits idle for minutes
+const MAX_BATCH_RETRY_DELAY_MS = 60000;
+
+// Resolves after `ms`, or as soon as `signal` aborts
+function sleepUnlessAborted(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise<void>(resolve => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', finish);
+      resolve();
+    };
+    const timer = setTimeout(finish, ms);
+    signal.addEventListener('abort', finish);
+  });
+}
+
+function isRateLimitError(error: any): boolean {
+  return error?.status === 429;
+}
+
+// Runs one task per note with limited concurrency, backing off and slowing down when rate-limited.
+// Cancelling stops new notes from starting and aborts the requests in flight through `signal`.
+class BatchRunner {
+  private options: BatchRunnerOptions;
+  private controller = new AbortController();
+  private concurrency: number;
+  private pausedUntil = 0;
+
+  constructor(options: BatchRunnerOptions) {
+    this.options = options;
+    this.concurrency = Math.max(1, options.concurrency);
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  isCancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  cancel(): void {
+    this.controller.abort();
+  }
+
+  async run(items: BatchItem[], task: (item: BatchItem) => Promise<void>): Promise<BatchItem[]> {
+    const queue = [...items];
+    const workers: Promise<void>[] = [];
+    for (let slot = 0; slot < this.concurrency; slot++) {
+      workers.push(this.work(slot, queue, task));
+    }
+    await Promise.all(workers);
+    // Whatever never started was cancelled
+    items.filter(item => item.status === 'pending').forEach(item => this.update(item, 'cancelled'));
+    return items;
+  }
+
+  // A worker whose slot is above the current concurrency (after a rate limit) stops taking notes
+  private async work(slot: number, queue: BatchItem[], task: (item: BatchItem) => Promise<void>): Promise<void> {
+    while (queue.length > 0 && !this.isCancelled() && slot < this.concurrency) {
+      await this.waitForPause();
+      const item = queue.shift();
+      if (!item || this.isCancelled()) {
+        if (item) {
+          queue.unshift(item);
+        }
+        return;
+      }
+      await this.runItem(item, task);
+    }
+  }
+
+  private async runItem(item: BatchItem, task: (item: BatchItem) => Promise<void>): Promise<void> {
+    this.update(item, 'running');
+    for (;;) {
+      try {
+        await task(item);
+        this.update(item, 'done');
+        return;
+      } catch (error: any) {
+        if (this.isCancelled() || error.name === 'CancelledError') {
+          this.update(item, 'cancelled');
+          return;
+        }
+        if (isRateLimitError(error) && item.retries < this.options.maxRetries) {
+          item.retries++;
+          this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+          const delay = Math.min(error.retryAfterMs ?? this.options.baseDelayMs * Math.pow(2, item.retries - 1), MAX_BATCH_RETRY_DELAY_MS);
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+          console.warn(`[ChatGPT Batch] Rate limited on "${item.title}", retrying in ${delay} ms with concurrency ${this.concurrency}`);
+          await this.waitForPause();
+          continue;
+        }
+        this.update(item, 'failed', error.message);
+        return;
+      }
+    }
+  }
+
+  // Every worker waits out a rate-limit pause, not just the one that hit it; cancelling ends the wait
+  private async waitForPause(): Promise<void> {
+    const sleep = this.options.sleep || sleepUnlessAborted;
+    const wait = this.pausedUntil - Date.now();
+    if (wait > 0 && !this.isCancelled()) {
+      await sleep(wait, this.controller.signal);
+    }
+  }
+
+  private update(item: BatchItem, status: BatchItemStatus, error?: string): void {
+    item.status = status;
+    item.error = error;
+    if (this.options.onUpdate) {
+      this.options.onUpdate(item);
+    }
+  }
+}
+
+// ===== NOTE ORGANIZATION =====
+
+// More suggested tags than this are dropped
+const MAX_SUGGESTED_TAGS = 8;
+
+// A tag proposed for a note; `isNew` tags don't exist yet and are created when accepted
+interface TagSuggestion {
+  title: string;
+  isNew: boolean;
+}
+
+// A notebook with its full name, e.g. "Work / Projects / Importer"
+interface FolderPath {
+  id: string;
+  path: string;
+}
+
+interface NotebookSuggestion {
+  folderId: string;
+  path: string;
+  reason: string;
+}
+
+// A generated title for a note, waiting to be applied
+interface TitleSuggestion {
+  noteId: string;
+  oldTitle: string;
+  title: string;
+}
+
+// Generated titles are cut back to a word boundary within this many characters
+const MAX_GENERATED_TITLE_LENGTH = 80;
+
+// Suggestions shown in the panel for approval; nothing is changed until they are applied
+type PendingSuggestion =
+  | { kind: 'tags'; noteId: string; noteTitle: string; tags: TagSuggestion[] }
+  | { kind: 'notebook'; noteId: string; noteTitle: string; notebooks: NotebookSuggestion[] }
+  | { kind: 'titles'; titles: TitleSuggestion[] }
+  | { kind: 'tasks'; noteId: string; noteTitle: string; folderId: string; tasks: ExtractedTask[] };
+
+const TAG_SUGGESTIONS_SCHEMA: StructuredOutputSchema = {
+  name: 'tag_suggestions',
+  schema: {
+    type: 'object',
+    properties: { tags: { type: 'array', items: { type: 'string' } } },
+    required: ['tags'],
+    additionalProperties: false
+  }
+};
+
+const NOTEBOOK_SUGGESTIONS_SCHEMA: StructuredOutputSchema = {
+  name: 'notebook_suggestions',
+  schema: {
+    type: 'object',
+    properties: {
+      notebooks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { id: { type: 'string' }, reason: { type: 'string' } },
+          required: ['id', 'reason'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['notebooks'],
+    additionalProperties: false
+  }
+};
+
+const NOTE_TITLE_SCHEMA: StructuredOutputSchema = {
+  name: 'note_title',
+  schema: {
+    type: 'object',
+    properties: { title: { type: 'string' } },
+    required: ['title'],
+    additionalProperties: false
+  }
+};
+
+// Suggested tag names, trimmed and de-duplicated, with existing tags matched regardless of case
+function normalizeTagSuggestions(tags: any, existingTags: string[]): TagSuggestion[] {
+  if (!Array.isArray(tags)) {
+    throw new Error('The reply has no list of tags.');
+  }
+  const existing = new Map(existingTags.map(tag => [tag.toLowerCase(), tag]));
+  const seen = new Set<string>();
+  const suggestions: TagSuggestion[] = [];
+  for (const tag of tags) {
+    const title = typeof tag === 'string' ? tag.trim().replace(/^#/, '') : '';
+    const key = title.toLowerCase();
+    if (!title || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const existingTitle = existing.get(key);
+    suggestions.push(existingTitle ? { title: existingTitle, isNew: false } : { title, isNew: true });
+  }
+  return suggestions.slice(0, MAX_SUGGESTED_TAGS);
+}
+
+// Titles that say nothing about the note: empty, "Untitled", or the default for notes made from a chat reply
+function isDefaultNoteTitle(title: string): boolean {
+  return /^(untitled( \d+)?|new note|chatgpt response - .*)?$/i.test((title || '').trim());
+}
+
+// The title from a model reply, without heading marks, a "Title:" label, quotes or a closing full stop
+function cleanGeneratedTitle(reply: string): string {
+  const firstLine = reply.split('\n').map(line => line.trim()).find(line => line.length > 0) || '';
+  let title = firstLine
+    .replace(/^#+\s*/, '')
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'“”‘’*_`]+|["'“”‘’*_`]+\.?$/g, '')
+    .replace(/\.$/, '')
+    .trim();
+  if (title.length > MAX_GENERATED_TITLE_LENGTH) {
+    const cut = title.slice(0, MAX_GENERATED_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    title = (lastSpace > MAX_GENERATED_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim();
+  }
+  return title;
+}
+
+// Every notebook named by its path from the top level, sorted by that path
+function buildFolderPaths(folders: Array<{ id: string; title: string; parent_id: string }>): FolderPath[] {
+  const foldersById = new Map(folders.map(folder => [folder.id, folder]));
+  return folders.map(folder => {
+    const names = [folder.title];
+    let parent = foldersById.get(folder.parent_id);
+    // The length check guards against a parent cycle in damaged data
+    while (parent && names.length <= folders.length) {
+      names.unshift(parent.title);
+      parent = foldersById.get(parent.parent_id);
+    }
+    return { id: folder.id, path: names.join(' / ') };
+  }).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// The suggested notebooks that exist, best first; made-up ids are dropped
+function normalizeNotebookSuggestions(notebooks: any, folders: FolderPath[]): NotebookSuggestion[] {
+  if (!Array.isArray(notebooks)) {
+    throw new Error('The reply has no list of notebooks.');
+  }
+  const suggestions: NotebookSuggestion[] = [];
+  for (const notebook of notebooks) {
+    const folder = folders.find(candidate => candidate.id === notebook?.id);
+    if (folder && !suggestions.some(suggestion => suggestion.folderId === folder.id)) {
+      suggestions.push({ folderId: folder.id, path: folder.path, reason: typeof notebook.reason === 'string' ? notebook.reason : '' });
+    }
+  }
+  if (suggestions.length === 0) {
+    throw new Error('ChatGPT did not suggest any of your notebooks.');
+  }
+  return suggestions;
+}
+
+// ===== TASK EXTRACTION =====
+
+// More extracted tasks than this are dropped
+const MAX_EXTRACTED_TASKS = 25;
+
+// An action item found in a note; `due` is a YYYY-MM-DD date or empty
+interface ExtractedTask {
+  task: string;
+  owner: string;
+  due: string;
+}
+
+const EXTRACTED_TASKS_SCHEMA: StructuredOutputSchema = {
+  name: 'extracted_tasks',
+  schema: {
+    type: 'object',
+    properties: {
+      tasks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            task: { type: 'string' },
+            owner: { type: 'string', description: 'Person responsible, or an empty string' },
+            due: { type: 'string', description: 'Due date as YYYY-MM-DD, or an empty string' }
+          },
+          required: ['task', 'owner', 'due'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['tasks'],
+    additionalProperties: false
+  }
+};
+
+// Tasks from a model reply, with blank ones dropped and due dates that aren't real dates cleared
+function normalizeExtractedTasks(tasks: any): ExtractedTask[] {
+  if (!Array.isArray(tasks)) {
+    throw new Error('The reply has no list of tasks.');
+  }
+  return tasks
+    .filter(item => typeof item?.task === 'string' && item.task.trim())
+    .map(item => {
+      const due = typeof item.due === 'string' ? item.due.trim() : '';
+      return {
+        task: item.task.trim(),
+        owner: typeof item.owner === 'string' ? item.owner.trim() : '',
+        due: parseTaskDueDate(due) ? due : ''
+      };
+    })
+    .slice(0, MAX_EXTRACTED_TASKS);
+}
+
+// A to-do's `todo_due` for a YYYY-MM-DD date: 9:00 local time that day, so the reminder comes during the working day.
+// 0 (no due date) for anything else
+function parseTaskDueDate(due: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(due);
+  if (!match) {
+    return 0;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 9, 0, 0);
+  // Rejects dates such as 2025-02-30 that Date would roll over into the next month
+  return date.getDate() === Number(match[3]) ? date.getTime() : 0;
+}
+
+// Body of the to-do created for a task, linking back to the note it came from
+function formatTaskNoteBody(task: ExtractedTask, source: { id: string; title: string }): string {
+  const lines: string[] = [];
+  if (task.owner) {
+    lines.push(`**Owner:** ${task.owner}`);
+  }
+  lines.push(`From [${source.title || 'Untitled'}](:/${source.id})`);
+  return lines.join('\n\n');
+}
+
+// ===== FILE WATCHING =====
+
+// Calls back once per burst of writes to any of a few files in a folder. The folder is watched
+// rather than the files because many editors save by writing a new file and renaming it over the old one.
+class DataFileWatcher {
+  private dirPath: string;
+  private fileNames: string[];
+  private onChange: (fileName: string) => void;
+  private delayMs: number;
+  private watcher: any = null;
+  private timers: Map<string, any> = new Map();
+
+  constructor(dirPath: string, fileNames: string[], onChange: (fileName: string) => void, delayMs = 300) {
+    this.dirPath = dirPath;
+    this.fileNames = fileNames;
+    this.onChange = onChange;
+    this.delayMs = delayMs;
+  }
+
+  start(): void {
+    const fs = require('fs');
+    this.stop();
+    this.watcher = fs.watch(this.dirPath, (eventType: string, fileName: string | null) => {
+      // Some platforms don't report which file changed; then every watched file is checked
+      const changed = fileName ? [String(fileName)] : this.fileNames;
+      changed.filter(name => this.fileNames.includes(name)).forEach(name => this.schedule(name));
+    });
+    this.watcher.on('error', (error: any) => {
+      console.error('Error watching plugin data folder:', error);
+    });
+  }
+
+  stop(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private schedule(fileName: string): void {
+    clearTimeout(this.timers.get(fileName));
+    this.timers.set(fileName, setTimeout(() => {
+      this.timers.delete(fileName);
+      this.onChange(fileName);
+    }, this.delayMs));
+  }
+}
+
+// Interface for model data with metadata
+interface ModelInfo {
+  id: string;
+  created: number;
+  owned_by?: string;
+}
+
+// Function to fetch available models from the selected provider
+async function fetchAvailableModels(provider: ChatProvider): Promise<ModelInfo[]> {
+  try {
+    const models = await provider.listModels();
+    console.info('Fetched', models.length, 'available models from', provider.label);
+    return models;
+  } catch (error: any) {
+    console.warn(`Error fetching models from ${provider.label}:`, error.message);
+    return [];
+  }
+}
+
+// Register the plugin
+joplin.plugins.register({
+  onStart: async function() {
+    console.info('ChatGPT Toolkit Plugin started!');
+    
+    try {
+      // ===== LOAD MODELS FOR SETTINGS DROPDOWN =====
+      // Try to load stored models for the settings dropdown
+      let modelsForSettings: ModelInfo[] = [];
+      const settingsModelsKey = 'modelsList';
+      
+      try {
+        const storedModels = await joplin.data.get(['plugins', 'com.cogitations.chatgpt-toolkit', 'data', settingsModelsKey]);
+        if (storedModels && storedModels.value) {
+          modelsForSettings = JSON.parse(storedModels.value);
+          modelsForSettings.sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
+          console.info('Loaded', modelsForSettings.length, 'models for settings dropdown');
+        }
+      } catch (e) {
+        // Models not in storage yet, will use defaults
+      }
+      
+      // Default models if none are stored
+      if (modelsForSettings.length === 0) {
+        const now = Math.floor(Date.now() / 1000);
+        modelsForSettings = [
+          { id: 'gpt-5.1', created: now },
+          { id: 'gpt-5', created: now - 86400 },
+          { id: 'gpt-5-mini', created: now - 172800 },
+          { id: 'gpt-5-nano', created: now - 259200 },
+          { id: 'gpt-4.1', created: now - 345600 },
+          { id: 'gpt-4.1-mini', created: now - 432000 },
+          { id: 'gpt-4.1-nano', created: now - 518400 },
+          { id: 'gpt-4o', created: now - 604800 },
+          { id: 'gpt-4o-mini', created: now - 691200 },
+          { id: 'o1', created: now - 1036800 },
+          { id: 'o1-preview', created: now - 1123200 },
+          { id: 'o3', created: now - 1209600 },
+          { id: 'o3-mini', created: now - 1296000 },
+          { id: 'o4-mini', created: now - 1382400 }
+        ];
+      }
+      
+      // Create options object for dropdown (with blank option for auto-select)
+      const settingsModelOptions: {[key: string]: string} = {
+        '': '(Auto-select latest general model)'
+      };
+      
+      // Add all models with formatted display names
+      modelsForSettings.forEach(model => {
+        const displayName = model.id === 'gpt-5.1' ? 'GPT-5.1 (Latest)' : 
+                           model.id.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+        settingsModelOptions[model.id] = displayName;
+      });
+      
+      // Debug: Log the options object (using console.log for better visibility)
+      console.log('=== ChatGPT Toolkit Settings Debug ===');
+      console.log('Settings dropdown options:', JSON.stringify(settingsModelOptions, null, 2));
+      console.log('Number of model options:', Object.keys(settingsModelOptions).length);
+      console.log('Models for settings:', modelsForSettings.map(m => m.id).join(', '));
+      
+      // ===== SETTINGS SETUP =====
+      console.log('Setting up ChatGPT Toolkit settings...');
+      
+      // Get system prompt file path for default value
+      const path = require('path');
+      let systemPromptFilePath = '';
+      try {
+        const dataDir = await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit');
+        systemPromptFilePath = path.join(dataDir, 'system-prompt.txt');
+      } catch (error: any) {
+        console.warn('Could not get plugin data directory for system prompt file path:', error);
+        // Will be set later when file is created
+      }
+      
+      // Create a settings section so options appear in Joplin's UI
+      const pluginVersion = '1.1.1';
+      const loadTimestamp = new Date().toLocaleString();
+      await joplin.settings.registerSection('chatgptToolkit', {
+        label: 'ChatGPT Toolkit',
+        iconName: 'fas fa-robot',
+        description: `AI-powered writing assistant for Joplin. Version: ${pluginVersion} | Loaded: ${loadTimestamp} | Source: https://github.com/ishapiro/joplin-chatgpt-plugin`
+      });
+
+      try {
+        console.log('Registering settings with options:', {
+          modelOptionsCount: Object.keys(settingsModelOptions).length,
+          hasOptions: !!settingsModelOptions,
+          optionsKeys: Object.keys(settingsModelOptions).slice(0, 5).join(', ') + '...'
+        });
+        
+        await joplin.settings.registerSettings({
+          'aiProvider': {
+            value: 'openai',
+            type: SettingItemType.String,
+            label: 'AI Provider',
+            description: 'Where chat requests are sent. Choose "OpenAI-compatible server" for a local Ollama, llama.cpp or vLLM server and set its base URL below; Azure OpenAI and Anthropic use their own settings below.',
+            public: true,
+            section: 'chatgptToolkit',
+            isEnum: true,
+            options: {
+              'openai': 'OpenAI',
+              'openaiCompatible': 'OpenAI-compatible server (custom base URL)',
+              'azure': 'Azure OpenAI',
+              'anthropic': 'Anthropic',
+            },
+          },
+          'openaiApiKey': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'OpenAI API Key',
+            description: 'Your OpenAI API key for ChatGPT access. Get one from https://platform.openai.com/api-keys',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'customBaseUrl': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'Custom Base URL',
+            description: 'Base URL of an OpenAI-compatible server, including the API version path (e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp). Used when AI Provider is "OpenAI-compatible server".',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'customApiKey': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'Custom Server API Key',
+            description: 'Optional API key for the OpenAI-compatible server. Leave blank if the server does not require one.',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'azureEndpoint': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'Azure OpenAI Endpoint',
+            description: 'Your Azure OpenAI resource endpoint (e.g. https://my-resource.openai.azure.com). Used when AI Provider is "Azure OpenAI".',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'azureApiKey': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'Azure OpenAI API Key',
+            description: 'Key 1 or Key 2 from the "Keys and Endpoint" page of your Azure OpenAI resource.',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'azureApiVersion': {
+            value: '2024-10-21',
+            type: SettingItemType.String,
+            label: 'Azure OpenAI API Version',
+            description: 'The api-version sent with every Azure OpenAI request.',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'azureDeployments': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'Azure OpenAI Deployments',
+            description: 'Comma-separated deployment names to offer in the model selector (e.g. gpt-4o-prod, gpt-4o-mini).',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'anthropicApiKey': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'Anthropic API Key',
+            description: 'Your Anthropic API key, used when AI Provider is "Anthropic". Get one from https://console.anthropic.com/settings/keys',
+            public: true,
+            section: 'chatgptToolkit',
+          },
+          'openaiModel': {
+            value: '',
+            type: SettingItemType.String,
+            label: 'OpenAI Model',
+            description: 'Select a model from the dropdown, or choose "(Auto-select latest general model)" to automatically use the newest general model. Models are filtered to gpt-4o and newer.',
+            public: true,
+            section: 'chatgptToolkit',
+            options: settingsModelOptions,
+          },
+        'maxTokens': {
+          value: 1000,
+          type: SettingItemType.Int,
+          label: 'Max Tokens',
+          description: 'Maximum number of tokens to generate in responses',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'openSystemPromptFile': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Open System Prompt File',
+          description: 'To open the system prompt file: 1) Check this box, 2) Click "Apply", 3) The editor will open. After editing, uncheck the box and click "Apply" again. The file will be created with a default prompt if it doesn\'t exist. Saved changes are picked up automatically.',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'systemPromptFile': {
+          value: systemPromptFilePath || 'Will be set when plugin loads',
+          type: SettingItemType.String,
+          label: 'System Prompt File Path',
+          description: 'Full path to the system prompt file (shown below the button above).',
+          public: true,
+          section: 'chatgptToolkit',
+          readOnly: true,
+        },
+        'promptSource': {
+          value: 'file',
+          type: SettingItemType.String,
+          label: 'Prompt Source',
+          description: 'Where the system prompt and prompt templates come from. "Notebook" reads them from notes in the prompts notebook below, so they sync between devices: a note titled "System Prompt" (or tagged system-prompt) is the system prompt and every other note is a template named after its title. Tag a template note replace-selection, append, new-note or chat to choose where its reply goes.',
+          public: true,
+          section: 'chatgptToolkit',
+          isEnum: true,
+          options: {
+            'file': 'Plugin data files (system-prompt.txt, prompt-templates.json)',
+            'notebook': 'Notebook',
+          },
+        },
+        'promptNotebook': {
+          value: 'ChatGPT Prompts',
+          type: SettingItemType.String,
+          label: 'Prompts Notebook',
+          description: 'Name of the notebook to read prompts from when Prompt Source is "Notebook".',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'openaiModelUserSet': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Model User Set Flag',
+          description: 'Internal flag to track if user manually set the model',
+          public: false,
+          section: 'chatgptToolkit',
+        },
+        'noteContextEnabled': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Use Note as Context',
+          description: 'Send the selected note with each chat message (toggled from the chat panel)',
+          public: false,
+          section: 'chatgptToolkit',
+        },
+        'notesSearchEnabled': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Search All Notes',
+          description: 'Add the best-matching excerpts from all notes to each chat message (toggled from the chat panel)',
+          public: false,
+          section: 'chatgptToolkit',
+        },
+        'noteContextIncludeLinked': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Include Linked Notes in Context',
+          description: 'Also send the notes the selected note links to (toggled from the chat panel)',
+          public: false,
+          section: 'chatgptToolkit',
+        },
+        'noteToolsEnabled': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Let ChatGPT Use Notes',
+          description: 'Let the chat search, read, create, append to and tag notes; every change is confirmed in the panel (toggled from the chat panel)',
+          public: false,
+          section: 'chatgptToolkit',
+        },
+        'autoSave': {
+          value: true,
+          type: SettingItemType.Bool,
+          label: 'Auto-save Changes',
+          description: 'Automatically save note changes after AI operations',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'reasoningEffort': {
+          value: 'low',
+          type: SettingItemType.String,
+          label: 'Reasoning Effort',
+          description: 'Controls depth of reasoning for GPT-5 and o-series models (low, medium, high)',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'verbosity': {
+          value: 'low',
+          type: SettingItemType.String,
+          label: 'Verbosity',
+          description: 'Controls response detail level for GPT-5 and o-series models (low, medium, high)',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'notesSearchBackend': {
+          value: 'embeddings',
+          type: SettingItemType.String,
+          label: 'Notes Search Backend',
+          description: 'How "Search all notes" finds matching excerpts. "Embeddings" sends every note to the AI provider\'s embeddings API; "Local keyword search" ranks excerpts with BM25 inside the plugin, so notes never leave this machine and it works offline. Changing it rebuilds the index.',
+          public: true,
+          section: 'chatgptToolkit',
+          isEnum: true,
+          options: {
+            'embeddings': 'Embeddings (AI provider)',
+            'keyword': 'Local keyword search (BM25, offline)',
+          },
+        },
+        'embeddingModel': {
+          value: DEFAULT_EMBEDDING_MODEL,
+          type: SettingItemType.String,
+          label: 'Embedding Model',
+          description: 'Model (or Azure deployment) used to index notes for "Search all notes" with the embeddings backend. Changing it rebuilds the index.',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'imageModel': {
+          value: DEFAULT_IMAGE_MODEL,
+          type: SettingItemType.String,
+          label: 'Image Model',
+          description: 'Model (or Azure deployment) used by /image in the chat, e.g. gpt-image-1 or dall-e-3',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'transcriptionModel': {
+          value: DEFAULT_TRANSCRIPTION_MODEL,
+          type: SettingItemType.String,
+          label: 'Transcription Model',
+          description: 'Speech-to-text model (or Azure deployment) used by "Transcribe Attachment", e.g. whisper-1 or gpt-4o-transcribe',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'transcriptionBaseUrl': {
+          value: '',
+          type: SettingItemType.String,
+          label: 'Transcription Server URL',
+          description: 'Leave empty to transcribe with the AI provider. Set it to an OpenAI-compatible server with /audio/transcriptions, e.g. a local whisper server at http://localhost:8000/v1, to keep recordings on your own machine.',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'summarizeTranscripts': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Summarize Transcripts',
+          description: 'After "Transcribe Attachment", also add a ChatGPT summary above the transcript',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'notesSearchResults': {
+          value: 5,
+          type: SettingItemType.Int,
+          label: 'Notes Search Results',
+          description: 'How many note excerpts "Search all notes" adds to each message',
+          minimum: 1,
+          maximum: 20,
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'autoTitleNewNotes': {
+          value: false,
+          type: SettingItemType.Bool,
+          label: 'Generate Titles for New Notes',
+          description: 'Ask ChatGPT for a title when "New Note" saves a reply, instead of "ChatGPT Response - <date>"',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'batchConcurrency': {
+          value: 3,
+          type: SettingItemType.Int,
+          label: 'Batch Concurrency',
+          description: 'How many notes "Run ChatGPT on Multiple Notes" processes at once. Lowered automatically while the provider is rate limiting',
+          minimum: 1,
+          maximum: 10,
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'streamResponses': {
+          value: true,
+          type: SettingItemType.Bool,
+          label: 'Stream Responses',
+          description: 'Show chat replies in the panel as they are generated instead of waiting for the full response',
+          public: true,
+          section: 'chatgptToolkit',
+        },
+        'pluginVersion': {
+          value: `${pluginVersion} | Loaded: ${loadTimestamp}`,
+          type: SettingItemType.String,
+          label: 'Plugin Version & Status',
+          description: 'Shows the current plugin version and when it was last loaded. This helps verify you are running the latest code.',
+          public: true,
+          section: 'chatgptToolkit',
+          isEnum: false,
+        },
+      });
+      
+      // Debug: Log settings registration
+      console.log('Settings registered successfully');
+      console.log('Model setting options count:', Object.keys(settingsModelOptions).length);
+      console.log('System prompt file path:', systemPromptFilePath);
+      console.log('=== End Settings Debug ===');
       
+      // Update system prompt file path after it's created
       try {
-        const storedModels = await joplin.data.get(['plugins', 'com.cogitations.chatgpt-toolkit', 'data', settingsModelsKey]);
-        if (storedModels && storedModels.value) {
-          modelsForSettings = JSON.parse(storedModels.value);
-          modelsForSettings.sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
-          console.info('Loaded', modelsForSettings.length, 'models for settings dropdown');
+        const chatGPTAPI = new ChatGPTAPI();
+        await chatGPTAPI.loadSettings(); // This will create the file if it doesn't exist
+        const actualPath = await chatGPTAPI.getSystemPromptFilePath();
+        if (actualPath) {
+          await joplin.settings.setValue('systemPromptFile', actualPath);
+          systemPromptFilePath = actualPath;
+        }
+      } catch (error: any) {
+        console.warn('Could not update system prompt file path:', error);
+      }
+      
+      // Handle checkbox for opening system prompt file
+      // User workflow: Check box → Click Apply → Editor opens → Uncheck box → Click Apply
+      joplin.settings.onChange(async (event: any) => {
+        if (event.keys.includes('openSystemPromptFile')) {
+          const currentValue = await joplin.settings.value('openSystemPromptFile');
+          // Only open file when checkbox is checked (true)
+          // User will manually uncheck it after editing
+          if (currentValue === true) {
+            try {
+              // Open the file
+              await joplin.commands.execute('openSystemPromptFile');
+              
+              // Update the path display after opening (file may have been created)
+              try {
+                const chatGPTAPI = new ChatGPTAPI();
+                const actualPath = await chatGPTAPI.getSystemPromptFilePath();
+                if (actualPath) {
+                  await joplin.settings.setValue('systemPromptFile', actualPath);
+                }
+              } catch (pathError: any) {
+                console.warn('Could not update system prompt file path after opening:', pathError);
+              }
+            } catch (error: any) {
+              console.error('Error opening system prompt file from settings:', error);
+              await joplin.views.dialogs.showMessageBox(
+                `Error opening system prompt file: ${error.message}\n\n` +
+                `You can also use the Command Palette (Ctrl+Shift+P / Cmd+Shift+P) and search for "Open System Prompt File".`
+              );
+            }
+          }
+        }
+      });
+      
+      
+      } catch (error) {
+        console.error('ERROR registering settings:', error);
+        console.error('Error details:', JSON.stringify(error, null, 2));
+        throw error; // Re-throw to see the error in Joplin
+      }
+
+      // Provider selected in settings; model defaults below only apply to OpenAI
+      const startupProvider = await loadProviderFromSettings();
+
+      // ===== SET DEFAULT MODEL IF BLANK =====
+      // Check if model is blank or not user-set, and set to latest general model
+      try {
+        const currentModel = await joplin.settings.value('openaiModel');
+        const modelUserSet = await joplin.settings.value('openaiModelUserSet');
+        
+        // If model is blank/empty or not user-set, fetch and set the latest general model
+        if (startupProvider.id === 'openai' && ((!currentModel || currentModel.trim() === '') || !modelUserSet)) {
+          // Try to get available models (from storage or fetch if needed)
+          let modelsToCheck: ModelInfo[] = [];
+          const modelsListKey = 'modelsList';
+          
+          // Check if models are already fetched
+          try {
+            const storedModels = await joplin.data.get(['plugins', 'com.cogitations.chatgpt-toolkit', 'data', modelsListKey]);
+            if (storedModels && storedModels.value) {
+              modelsToCheck = JSON.parse(storedModels.value);
+              modelsToCheck.sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
+            }
+          } catch (e) {
+            // Models not in storage yet, will be fetched later
+          }
+          
+          // If we have models, find the latest general one
+          if (modelsToCheck.length > 0) {
+            const isGeneralModel = (id: string): boolean => {
+              const gptPattern = /^gpt-\d+(\.\d+)?[a-z]?$/;
+              const oPattern = /^o\d+$/;
+              if (id.includes('-') && !id.match(/^gpt-\d+(\.\d+)?[a-z]?$/)) {
+                return false;
+              }
+              return gptPattern.test(id) || oPattern.test(id);
+            };
+            
+            const latestGeneralModel = modelsToCheck.find(model => isGeneralModel(model.id));
+            if (latestGeneralModel) {
+              await joplin.settings.setValue('openaiModel', latestGeneralModel.id);
+              await joplin.settings.setValue('openaiModelUserSet', false);
+              console.info('Set default model in settings to:', latestGeneralModel.id);
+            }
+          } else {
+            // Fallback to hardcoded default
+            await joplin.settings.setValue('openaiModel', 'gpt-5.1');
+            await joplin.settings.setValue('openaiModelUserSet', false);
+          }
+        }
+      } catch (error: any) {
+        console.warn('Error setting default model in settings:', error.message);
+      }
+
+      // Create global ChatGPT API instance
+      const chatGPTAPI = new ChatGPTAPI();
+
+      // Restore saved chat sessions and continue the active one
+      const chatSessions = new ChatSessionStore(path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'chat-sessions.json'));
+      chatSessions.load();
+
+      // Snapshots of note bodies taken before each ChatGPT edit, for undo and history
+      const noteRevisions = new NoteRevisionStore(path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'revisions'));
+
+      // User-defined prompts for the panel's template buttons and their commands
+      const promptTemplates = new PromptTemplateStore(path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'prompt-templates.json'));
+      promptTemplates.load();
+
+      // Named system prompts, chosen per chat session
+      const personas = new PersonaStore(path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'personas.json'));
+      personas.load();
+
+      // Search data for every note, for searching the whole collection from the chat
+      const notesIndex = new NotesIndexStore(path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'notes-index.json'));
+      notesIndex.load();
+
+      // The prompts notebook and its notes, while Prompt Source is "Notebook"
+      let promptFolderId: string | null = null;
+      let promptNoteIds = new Set<string>();
+
+      // Read the system prompt and templates from the prompts notebook (or go back to the files) and refresh the panel
+      async function reloadNotebookPrompts(): Promise<void> {
+        promptFolderId = null;
+        promptNoteIds = new Set();
+        if (await joplin.settings.value('promptSource') === 'notebook') {
+          const notebookName = ((await joplin.settings.value('promptNotebook')) || '').trim();
+          const folder = (await getAllFolders()).find(candidate => candidate.title === notebookName);
+          if (folder) {
+            const notes: PromptNote[] = [];
+            let page = 1;
+            let response: any;
+            do {
+              response = await joplin.data.get(['folders', folder.id, 'notes'], { fields: ['id', 'title', 'body'], page: page++ });
+              for (const note of response.items) {
+                const noteTags = await joplin.data.get(['notes', note.id, 'tags'], { fields: ['title'] });
+                notes.push({ ...note, tags: noteTags.items.map((tag: any) => tag.title) });
+              }
+            } while (response.has_more);
+
+            const prompts = readPromptNotes(notes);
+            promptFolderId = folder.id;
+            promptNoteIds = new Set(notes.map(note => note.id));
+            chatGPTAPI.setSystemPromptOverride(prompts.systemPrompt);
+            promptTemplates.setNotebookTemplates(prompts.templates);
+            console.info(`Loaded ${prompts.templates.length} prompt templates${prompts.systemPrompt ? ' and the system prompt' : ''} from notebook "${notebookName}"`);
+          } else {
+            console.warn(`Prompts notebook "${notebookName}" not found, using the plugin data files`);
+          }
+        }
+        if (!promptFolderId) {
+          chatGPTAPI.setSystemPromptOverride(null);
+          promptTemplates.setNotebookTemplates(null);
+        }
+        await joplin.views.panels.postMessage(panel, { type: 'promptTemplatesChanged', templates: promptTemplates.getTemplates() });
+      }
+
+      // ===== COMMANDS SETUP =====
+      console.info('Setting up ChatGPT Toolkit commands...');
+
+      // Helper function to get current note
+      async function getCurrentNote(): Promise<Note> {
+        const noteIds = await joplin.workspace.selectedNoteIds();
+        if (noteIds.length === 0) {
+          throw new Error('No note selected. Please select a note first.');
+        }
+        return await joplin.data.get(['notes', noteIds[0]], { fields: ['id', 'title', 'body'] });
+      }
+
+      // Helper function to get current folder ID
+      async function getCurrentFolderId(): Promise<string | null> {
+        try {
+          const noteIds = await joplin.workspace.selectedNoteIds();
+          if (noteIds.length > 0) {
+            const note = await joplin.data.get(['notes', noteIds[0]], { fields: ['parent_id'] });
+            return note.parent_id;
+          }
+          // If no note selected, use the default folder
+          const folders = await joplin.data.get(['folders'], { fields: ['id', 'title'] });
+          const inboxFolder = folders.items.find((folder: any) => folder.title === 'Inbox');
+          return inboxFolder ? inboxFolder.id : folders.items[0].id;
+        } catch (error) {
+          console.error('Error getting current folder:', error);
+          return null; // Let Joplin use default folder
+        }
+      }
+
+      // Helper function to get every notebook (the data API returns them in pages)
+      async function getAllFolders(): Promise<Array<{id: string, title: string, parent_id: string}>> {
+        const folders: Array<{id: string, title: string, parent_id: string}> = [];
+        let page = 1;
+        let response: any;
+        do {
+          response = await joplin.data.get(['folders'], { fields: ['id', 'title', 'parent_id'], page: page++ });
+          folders.push(...response.items);
+        } while (response.has_more);
+        return folders;
+      }
+
+      function escapeHtml(text: string): string {
+        return text
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;');
+      }
+
+      // Dialog for picking a notebook, e.g. for a chat transcript or extracted to-dos (created on first use)
+      let notebookDialog: string | null = null;
+      async function chooseNotebook(prompt: string): Promise<string | null> {
+        if (!notebookDialog) {
+          notebookDialog = await joplin.views.dialogs.create('chatgptNotebookDialog');
+          await joplin.views.dialogs.setButtons(notebookDialog, [
+            { id: 'ok', title: 'Save' },
+            { id: 'cancel', title: 'Cancel' }
+          ]);
+        }
+
+        const folders = await getAllFolders();
+        if (folders.length === 0) {
+          throw new Error('No notebooks found. Create a notebook first.');
+        }
+        const currentFolderId = await getCurrentFolderId();
+
+        // List notebooks as an indented tree
+        const options: string[] = [];
+        const addFolders = (parentId: string, depth: number) => {
+          folders
+            .filter(folder => (folder.parent_id || '') === parentId)
+            .sort((a, b) => a.title.localeCompare(b.title))
+            .forEach(folder => {
+              const selected = folder.id === currentFolderId ? ' selected' : '';
+              options.push(`<option value="${folder.id}"${selected}>${'&nbsp;&nbsp;'.repeat(depth)}${escapeHtml(folder.title)}</option>`);
+              addFolders(folder.id, depth + 1);
+            });
+        };
+        addFolders('', 0);
+
+        await joplin.views.dialogs.setHtml(notebookDialog, `
+          <form name="notebookForm" style="padding: 10px; font-family: sans-serif; font-size: 13px;">
+            <p style="margin-top: 0;">${escapeHtml(prompt)}</p>
+            <select name="folderId" style="width: 100%; padding: 4px;">${options.join('')}</select>
+          </form>
+        `);
+
+        const result = await joplin.views.dialogs.open(notebookDialog);
+        if (result.id !== 'ok') {
+          return null;
+        }
+        return result.formData?.notebookForm?.folderId || null;
+      }
+
+      // Helper function to update note content; the previous body is kept as a revision first
+      async function updateNoteContent(noteId: string, newContent: string, action: string, autoSave: boolean = true): Promise<void> {
+        const current = await joplin.data.get(['notes', noteId], { fields: ['body'] });
+        noteRevisions.recordRevision(noteId, current.body || '', action, newContent);
+        await joplin.data.put(['notes', noteId], null, { body: newContent });
+        if (autoSave) {
+          // Note: Joplin auto-saves changes, no manual save command needed
+          console.info('Note content updated successfully');
+        }
+      }
+
+      // Helper function to get selected text from editor
+      async function getSelectedText(): Promise<string> {
+        try {
+          return await joplin.commands.execute('selectedText');
+        } catch (error) {
+          console.error('Error getting selected text:', error);
+          return '';
+        }
+      }
+
+      // Helper function to replace selected text in editor; the note body is kept as a revision first
+      // Failures are left to the caller, so it doesn't report an edit that never happened
+      async function replaceSelectedText(newText: string, action: string): Promise<void> {
+        const noteIds = await joplin.workspace.selectedNoteIds();
+        if (noteIds.length > 0) {
+          const note = await joplin.data.get(['notes', noteIds[0]], { fields: ['body'] });
+          noteRevisions.recordRevision(noteIds[0], note.body || '', action);
+        }
+        await joplin.commands.execute('replaceSelection', newText);
+      }
+
+      // Helper function to copy text to clipboard
+      async function copyToClipboard(text: string): Promise<void> {
+        try {
+          await joplin.clipboard.writeText(text);
+        } catch (error) {
+          console.error('Error copying to clipboard:', error);
+        }
+      }
+
+      // Helper function to get last ChatGPT response from chat
+      let lastChatGPTResponse: string = '';
+
+      // Make the active chat session the API's conversation context
+      function activateChatSession(): void {
+        const session = chatSessions.getActiveSession();
+        const messages = session.messages;
+        chatGPTAPI.setConversationHistory(messages);
+        chatGPTAPI.setPersona(personas.getPersona(session.personaId));
+        chatGPTAPI.setModelOverride(session.model || null);
+        const lastReply = [...messages].reverse().find(message => message.role === 'assistant');
+        lastChatGPTResponse = lastReply ? lastReply.content : '';
+      }
+
+      // The model the active chat sends to: its own, or the Model setting
+      async function getChatModel(): Promise<string> {
+        return chatSessions.getActiveSession().model || await joplin.settings.value('openaiModel') || '';
+      }
+
+      // Session list plus the active session's transcript, for the panel's session switcher
+      async function getChatSessionState() {
+        const activeSession = chatSessions.getActiveSession();
+        return {
+          success: true,
+          sessions: chatSessions.listSessions(),
+          activeSessionId: activeSession.id,
+          personaId: personas.getPersona(activeSession.personaId).id,
+          model: await getChatModel(),
+          messages: activeSession.messages
+        };
+      }
+
+      // Continue where the last session left off
+      activateChatSession();
+
+      // Note attached to chat requests while note-grounded mode is on
+      let noteContext: NoteContext | null = null;
+
+      // Read the selected note (and, if enabled, the notes it links to) fresh from the database
+      async function loadNoteContext(): Promise<NoteContext | null> {
+        if (!await joplin.settings.value('noteContextEnabled')) {
+          return null;
+        }
+        const noteIds = await joplin.workspace.selectedNoteIds();
+        if (noteIds.length === 0) {
+          return null;
+        }
+        const note: Note = await joplin.data.get(['notes', noteIds[0]], { fields: ['id', 'title', 'body'] });
+        const linkedNotes: Note[] = [];
+        if (await joplin.settings.value('noteContextIncludeLinked')) {
+          const linkedIds = extractLinkedNoteIds(note.body || '').filter(id => id !== note.id);
+          for (const id of linkedIds.slice(0, MAX_LINKED_CONTEXT_NOTES)) {
+            try {
+              linkedNotes.push(await joplin.data.get(['notes', id], { fields: ['id', 'title', 'body'] }));
+            } catch (error: any) {
+              // Resources use the same link syntax, and the note may have been deleted
+            }
+          }
+        }
+        return { note: { id: note.id, title: note.title, body: note.body || '' }, linkedNotes };
+      }
+
+      // What the panel's context chip shows
+      async function getNoteContextState() {
+        return {
+          success: true,
+          enabled: !!await joplin.settings.value('noteContextEnabled'),
+          includeLinked: !!await joplin.settings.value('noteContextIncludeLinked'),
+          noteTitle: noteContext ? noteContext.note.title || 'Untitled' : '',
+          linkedCount: noteContext ? noteContext.linkedNotes.length : 0,
+          tokens: noteContext ? estimateTokenCount(formatNoteContext(noteContext)) : 0,
+          searchNotes: !!await joplin.settings.value('notesSearchEnabled'),
+          indexedNotes: notesIndex.noteCount(),
+          noteTools: !!await joplin.settings.value('noteToolsEnabled')
+        };
+      }
+
+      async function refreshNoteContext() {
+        noteContext = await loadNoteContext();
+        const state = await getNoteContextState();
+        await joplin.views.panels.postMessage(panel, { type: 'noteContextChanged', ...state });
+        return state;
+      }
+
+      // Images and PDFs waiting to go out with the next chat message
+      let chatAttachments: ChatAttachment[] = [];
+
+      // What the panel's attachment chips show; images get a preview of themselves
+      function getAttachmentState() {
+        return {
+          success: true,
+          attachments: chatAttachments.map(attachment => ({
+            id: attachment.id,
+            name: attachment.name,
+            size: formatByteSize(attachment.size),
+            preview: attachment.mimeType.startsWith('image/') ? attachmentDataUrl(attachment) : ''
+          }))
+        };
+      }
+
+      async function postAttachmentState(): Promise<void> {
+        await joplin.views.panels.postMessage(panel, { type: 'attachmentsChanged', ...getAttachmentState() });
+      }
+
+      // Queue a file for the next message; throws with the reason when it can't be attached
+      function addChatAttachment(name: string, mimeType: string, data: string, size: number): void {
+        const problem = checkAttachment(name, mimeType, size, chatAttachments.length);
+        if (problem) {
+          throw new Error(problem);
+        }
+        chatAttachments.push({ id: `${Date.now().toString(36)}-${chatAttachments.length}`, name, mimeType, data, size });
+      }
+
+      // Attach the images and PDFs the selected note embeds or links to
+      async function attachNoteResources(): Promise<{ success: boolean; message?: string; error?: string }> {
+        const note = await getCurrentNote();
+        let attached = 0;
+        const skipped: string[] = [];
+        for (const id of extractLinkedNoteIds(note.body || '')) {
+          let resource: any;
+          try {
+            resource = await joplin.data.get(['resources', id], { fields: ['id', 'title', 'mime', 'size'] });
+          } catch (error: any) {
+            // Notes use the same link syntax
+            continue;
+          }
+          if (!ATTACHMENT_MIME_TYPES.includes(resource.mime) || chatAttachments.some(attachment => attachment.id === resource.id)) {
+            continue;
+          }
+          const name = resource.title || resource.id;
+          const problem = checkAttachment(name, resource.mime, resource.size, chatAttachments.length);
+          if (problem) {
+            skipped.push(problem);
+            continue;
+          }
+          const file = await joplin.data.get(['resources', id, 'file']);
+          const data = Buffer.from(file.body).toString('base64');
+          chatAttachments.push({ id: resource.id, name, mimeType: resource.mime, data, size: resource.size });
+          attached++;
+        }
+        await postAttachmentState();
+        if (attached === 0 && skipped.length === 0) {
+          return { success: false, error: `"${note.title}" has no images or PDFs to attach.` };
+        }
+        return { success: true, message: [`Attached ${attached} file${attached === 1 ? '' : 's'} from "${note.title}".`, ...skipped].join(' ') };
+      }
+
+      // Images generated with /image in this session, newest last
+      let generatedImages: GeneratedImage[] = [];
+
+      async function generateChatImage(prompt: string): Promise<GeneratedImage> {
+        const result = await chatGPTAPI.generateImage(prompt);
+        const image: GeneratedImage = { id: `${Date.now().toString(36)}-${generatedImages.length}`, prompt, ...result };
+        generatedImages = [...generatedImages, image].slice(-MAX_GENERATED_IMAGES);
+        return image;
+      }
+
+      // Save a generated image as a resource and embed it at the cursor of the selected note
+      async function insertGeneratedImage(imageId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        const image = generatedImages.find(candidate => candidate.id === imageId);
+        if (!image) {
+          return { success: false, error: 'That image is no longer available. Generate it again with /image.' };
+        }
+        const note = await getCurrentNote();
+        const fs = require('fs');
+        const path = require('path');
+        // Resources are created from a file on disk
+        const extension = image.mimeType.split('/')[1] || 'png';
+        const filePath = path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), `generated-image-${image.id}.${extension}`);
+        fs.writeFileSync(filePath, Buffer.from(image.data, 'base64'));
+        let resource: any;
+        try {
+          resource = await joplin.data.post(['resources'], null, { title: image.prompt.slice(0, 80), mime: image.mimeType }, [{ path: filePath }]);
+        } finally {
+          fs.unlinkSync(filePath);
+        }
+        await replaceSelectedText(`![${image.prompt.slice(0, 80).replace(/[[\]]/g, '')}](:/${resource.id})`, 'Insert generated image');
+        return { success: true, message: `Image inserted into "${note.title}".` };
+      }
+
+      // Sync of the notes index currently running, shared by everyone who asks for one
+      let notesIndexSync: Promise<number> | null = null;
+
+      // Bring the notes index up to date: embed new and edited notes, drop deleted ones. Returns how many notes were embedded.
+      function syncNotesIndex(): Promise<number> {
+        if (!notesIndexSync) {
+          notesIndexSync = runNotesIndexSync().finally(() => {
+            notesIndexSync = null;
+          });
+        }
+        return notesIndexSync;
+      }
+
+      // Point the index at the search backend chosen in settings
+      async function applyNotesSearchBackend(): Promise<void> {
+        notesIndex.setBackend(createNotesSearchBackend(
+          await joplin.settings.value('notesSearchBackend'),
+          await joplin.settings.value('embeddingModel'),
+          (inputs: string[]) => chatGPTAPI.embed(inputs)
+        ));
+      }
+
+      async function runNotesIndexSync(): Promise<number> {
+        await applyNotesSearchBackend();
+        const current: Array<{ id: string; updated_time: number }> = [];
+        let page = 1;
+        let response: any;
+        do {
+          response = await joplin.data.get(['notes'], { fields: ['id', 'updated_time'], page: page++ });
+          current.push(...response.items);
+        } while (response.has_more);
+
+        const { changed, removed } = notesIndex.findStaleNotes(current);
+        notesIndex.removeNotes(removed);
+        let indexed = 0;
+        for (let start = 0; start < changed.length; start += EMBEDDING_BATCH_SIZE) {
+          const notes: IndexableNote[] = [];
+          for (const id of changed.slice(start, start + EMBEDDING_BATCH_SIZE)) {
+            notes.push(await joplin.data.get(['notes', id], { fields: ['id', 'title', 'body', 'updated_time'] }));
+          }
+          indexed += await notesIndex.indexNotes(notes);
+          if (changed.length > EMBEDDING_BATCH_SIZE) {
+            await showPanelNotice('info', `Indexing notes for search: ${indexed} of ${changed.length}...`);
+          }
+        }
+        return indexed;
+      }
+
+      // Sync, then report the outcome in the panel
+      function updateNotesIndexInBackground(): void {
+        syncNotesIndex().then(async (indexed) => {
+          if (indexed > 0) {
+            await showPanelNotice('info', `Notes search index updated (${indexed} notes indexed, ${notesIndex.noteCount()} in total).`);
+          }
+          await refreshNoteContext();
+        }).catch(async (error: any) => {
+          console.error('Error updating notes search index:', error);
+          await showPanelNotice('error', `Could not index notes for search: ${error.message}`);
+        });
+      }
+
+      // System context for a chat message: the attached note and/or excerpts found across all notes
+      async function buildChatContext(userMessage: string): Promise<{ context?: string; sources: Array<{ noteId: string; title: string }> }> {
+        const contexts: string[] = [];
+        let sources: Array<{ noteId: string; title: string }> = [];
+        if (noteContext) {
+          contexts.push(formatNoteContext(noteContext));
+        }
+        if (await joplin.settings.value('notesSearchEnabled')) {
+          await applyNotesSearchBackend();
+          const results = await notesIndex.search(userMessage, await joplin.settings.value('notesSearchResults') || 5);
+          if (results.length > 0) {
+            contexts.push(formatRetrievedContext(results));
+            sources = uniqueSources(results);
+          }
         }
-      } catch (e) {
-        // Models not in storage yet, will use defaults
+        return { context: contexts.length > 0 ? contexts.join('\n\n') : undefined, sources };
       }
-      
-      // Default models if none are stored
-      if (modelsForSettings.length === 0) {
-        const now = Math.floor(Date.now() / 1000);
-        modelsForSettings = [
-          { id: 'gpt-5.1', created: now },
-          { id: 'gpt-5', created: now - 86400 },
-          { id: 'gpt-5-mini', created: now - 172800 },
-          { id: 'gpt-5-nano', created: now - 259200 },
-          { id: 'gpt-4.1', created: now - 345600 },
-          { id: 'gpt-4.1-mini', created: now - 432000 },
-          { id: 'gpt-4.1-nano', created: now - 518400 },
-          { id: 'gpt-4o', created: now - 604800 },
-          { id: 'gpt-4o-mini', created: now - 691200 },
-          { id: 'o1', created: now - 1036800 },
-          { id: 'o1-preview', created: now - 1123200 },
-          { id: 'o3', created: now - 1209600 },
-          { id: 'o3-mini', created: now - 1296000 },
-          { id: 'o4-mini', created: now - 1382400 }
-        ];
+
+      // A note change proposed by ChatGPT, waiting for the user to allow or decline it in the panel
+      let pendingToolWrite: { resolve: (allowed: boolean) => void } | null = null;
+
+      // Show a proposed change in the panel and wait for the user's decision
+      function confirmToolWrite(title: string, content: string): Promise<boolean> {
+        resolveToolWrite(false);
+        return new Promise<boolean>((resolve) => {
+          pendingToolWrite = { resolve };
+          Promise.resolve(joplin.views.panels.postMessage(panel, { type: 'showToolConfirmation', title, content })).catch((error: any) => {
+            console.error('Error asking the panel to confirm a change:', error);
+            resolveToolWrite(false);
+          });
+        });
       }
-      
-      // Create options object for dropdown (with blank option for auto-select)
-      const settingsModelOptions: {[key: string]: string} = {
-        '': '(Auto-select latest general model)'
-      };
-      
-      // Add all models with formatted display names
-      modelsForSettings.forEach(model => {
-        const displayName = model.id === 'gpt-5.1' ? 'GPT-5.1 (Latest)' : 
-                           model.id.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
-        settingsModelOptions[model.id] = displayName;
-      });
-      
-      // Debug: Log the options object (using console.log for better visibility)
-      console.log('=== ChatGPT Toolkit Settings Debug ===');
-      console.log('Settings dropdown options:', JSON.stringify(settingsModelOptions, null, 2));
-      console.log('Number of model options:', Object.keys(settingsModelOptions).length);
-      console.log('Models for settings:', modelsForSettings.map(m => m.id).join(', '));
-      
-      // ===== SETTINGS SETUP =====
-      console.log('Setting up ChatGPT Toolkit settings...');
-      
-      // Get system prompt file path for default value
-      const path = require('path');
-      let systemPromptFilePath = '';
-      try {
-        const dataDir = await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit');
-        systemPromptFilePath = path.join(dataDir, 'system-prompt.txt');
-      } catch (error: any) {
-        console.warn('Could not get plugin data directory for system prompt file path:', error);
-        // Will be set later when file is created
+
+      function resolveToolWrite(allowed: boolean): void {
+        if (pendingToolWrite) {
+          const { resolve } = pendingToolWrite;
+          pendingToolWrite = null;
+          resolve(allowed);
+        }
       }
-      
-      // Create a settings section so options appear in Joplin's UI
-      const pluginVersion = '1.1.1';
-      const loadTimestamp = new Date().toLocaleString();
-      await joplin.settings.registerSection('chatgptToolkit', {
-        label: 'ChatGPT Toolkit',
-        iconName: 'fas fa-robot',
-        description: `AI-powered writing assistant for Joplin. Version: ${pluginVersion} | Loaded: ${loadTimestamp} | Source: https://github.com/ishapiro/joplin-chatgpt-plugin`
-      });
 
-      try {
-        console.log('Registering settings with options:', {
-          modelOptionsCount: Object.keys(settingsModelOptions).length,
-          hasOptions: !!settingsModelOptions,
-          optionsKeys: Object.keys(settingsModelOptions).slice(0, 5).join(', ') + '...'
+      // Carry out a tool call from the chat; the results go back to the model as JSON
+      async function runNoteTool(call: ToolCall): Promise<string> {
+        const args = call.arguments;
+        switch (call.name) {
+          case 'search_notes': {
+            const response = await joplin.data.get(['search'], { query: args.query, fields: ['id', 'title'], limit: MAX_TOOL_SEARCH_RESULTS });
+            return JSON.stringify(response.items.map((note: any) => ({ id: note.id, title: note.title })));
+          }
+          case 'read_note': {
+            const note = await joplin.data.get(['notes', args.id], { fields: ['id', 'title', 'body', 'parent_id'] });
+            return JSON.stringify({ id: note.id, title: note.title, notebookId: note.parent_id, body: truncateNoteForTool(note.body || '') });
+          }
+          case 'list_notebooks':
+            return JSON.stringify(buildFolderPaths(await getAllFolders()));
+          case 'create_note': {
+            const folderId = args.notebookId || await getCurrentFolderId();
+            const folder = folderId ? await joplin.data.get(['folders', folderId], { fields: ['title'] }) : null;
+            if (!await confirmToolWrite(`Create note "${args.title}"${folder ? ` in ${folder.title}` : ''}`, args.body)) {
+              return TOOL_DECLINED_RESULT;
+            }
+            const note = await joplin.data.post(['notes'], null, { title: args.title, body: args.body, ...(folderId ? { parent_id: folderId } : {}) });
+            return JSON.stringify({ id: note.id, title: note.title });
+          }
+          case 'append_to_note': {
+            const note = await joplin.data.get(['notes', args.id], { fields: ['id', 'title', 'body'] });
+            if (!await confirmToolWrite(`Append to "${note.title}"`, args.text)) {
+              return TOOL_DECLINED_RESULT;
+            }
+            // Re-read the body: the note may have been edited while the confirmation was open
+            const latest = await joplin.data.get(['notes', note.id], { fields: ['body'] });
+            await updateNoteContent(note.id, `${latest.body || ''}\n\n${args.text}`, 'Chat: append to note');
+            return JSON.stringify({ id: note.id, appended: true });
+          }
+          case 'add_tag': {
+            const note = await joplin.data.get(['notes', args.id], { fields: ['id', 'title'] });
+            const tagTitle = args.tag.trim();
+            if (!await confirmToolWrite(`Tag "${note.title}" with "${tagTitle}"`, '')) {
+              return TOOL_DECLINED_RESULT;
+            }
+            let tag = (await getAllTags()).find(candidate => candidate.title.toLowerCase() === tagTitle.toLowerCase());
+            if (!tag) {
+              tag = await joplin.data.post(['tags'], null, { title: tagTitle });
+            }
+            await joplin.data.post(['tags', (tag as { id: string }).id, 'notes'], null, { id: note.id });
+            return JSON.stringify({ id: note.id, tag: (tag as { title: string }).title });
+          }
+          default:
+            throw new Error(`Unknown tool: ${call.name}`);
+        }
+      }
+
+      // Rewrite currently shown in the review modal
+      let pendingReview: PendingReview | null = null;
+
+      // Every destructive rewrite goes through here so nothing is written without a diff preview
+      async function openReview(review: Omit<PendingReview, 'hunks'> & { revised: string }): Promise<void> {
+        const hunks = buildDiffHunks(diffText(review.original, review.revised));
+        pendingReview = {
+          title: review.title,
+          label: review.label,
+          action: review.action,
+          noteId: review.noteId,
+          noteTitle: review.noteTitle,
+          target: review.target,
+          original: review.original,
+          hunks
+        };
+        await joplin.views.panels.show(actualPanelId);
+        await joplin.views.panels.postMessage(panel, {
+          type: 'showReviewModal',
+          title: review.title,
+          hunks
         });
-        
-        await joplin.settings.registerSettings({
-          'openaiApiKey': {
-            value: '',
-            type: SettingItemType.String,
-            label: 'OpenAI API Key',
-            description: 'Your OpenAI API key for ChatGPT access. Get one from https://platform.openai.com/api-keys',
-            public: true,
-            section: 'chatgptToolkit',
-          },
-          'openaiModel': {
-            value: '',
-            type: SettingItemType.String,
-            label: 'OpenAI Model',
-            description: 'Select a model from the dropdown, or choose "(Auto-select latest general model)" to automatically use the newest general model. Models are filtered to gpt-4o and newer.',
-            public: true,
-            section: 'chatgptToolkit',
-            options: settingsModelOptions,
-          },
-        'maxTokens': {
-          value: 1000,
-          type: SettingItemType.Int,
-          label: 'Max Tokens',
-          description: 'Maximum number of tokens to generate in responses',
-          public: true,
-          section: 'chatgptToolkit',
-        },
-        'openSystemPromptFile': {
-          value: false,
-          type: SettingItemType.Bool,
-          label: 'Open System Prompt File',
-          description: 'To open the system prompt file: 1) Check this box, 2) Click "Apply", 3) The editor will open. After editing, uncheck the box and click "Apply" again. The file will be created with a default prompt if it doesn\'t exist. After editing, reload the plugin to use the new prompt.',
-          public: true,
-          section: 'chatgptToolkit',
-        },
-        'systemPromptFile': {
-          value: systemPromptFilePath || 'Will be set when plugin loads',
-          type: SettingItemType.String,
-          label: 'System Prompt File Path',
-          description: 'Full path to the system prompt file (shown below the button above).',
-          public: true,
-          section: 'chatgptToolkit',
-          readOnly: true,
-        },
-        'openaiModelUserSet': {
-          value: false,
-          type: SettingItemType.Bool,
-          label: 'Model User Set Flag',
-          description: 'Internal flag to track if user manually set the model',
-          public: false,
-          section: 'chatgptToolkit',
-        },
-        'autoSave': {
-          value: true,
-          type: SettingItemType.Bool,
-          label: 'Auto-save Changes',
-          description: 'Automatically save note changes after AI operations',
-          public: true,
-          section: 'chatgptToolkit',
-        },
-        'reasoningEffort': {
-          value: 'low',
-          type: SettingItemType.String,
-          label: 'Reasoning Effort',
-          description: 'Controls depth of reasoning for GPT-5 and o-series models (low, medium, high)',
-          public: true,
-          section: 'chatgptToolkit',
-        },
-        'verbosity': {
-          value: 'low',
-          type: SettingItemType.String,
-          label: 'Verbosity',
-          description: 'Controls response detail level for GPT-5 and o-series models (low, medium, high)',
-          public: true,
-          section: 'chatgptToolkit',
-        },
-        'pluginVersion': {
-          value: `${pluginVersion} | Loaded: ${loadTimestamp}`,
-          type: SettingItemType.String,
-          label: 'Plugin Version & Status',
-          description: 'Shows the current plugin version and when it was last loaded. This helps verify you are running the latest code.',
-          public: true,
-          section: 'chatgptToolkit',
-          isEnum: false,
-        },
-      });
-      
-      // Debug: Log settings registration
-      console.log('Settings registered successfully');
-      console.log('Model setting options count:', Object.keys(settingsModelOptions).length);
-      console.log('System prompt file path:', systemPromptFilePath);
-      console.log('=== End Settings Debug ===');
-      
-      // Update system prompt file path after it's created
-      try {
-        const chatGPTAPI = new ChatGPTAPI();
-        await chatGPTAPI.loadSettings(); // This will create the file if it doesn't exist
-        const actualPath = await chatGPTAPI.getSystemPromptFilePath();
-        if (actualPath) {
-          await joplin.settings.setValue('systemPromptFile', actualPath);
-          systemPromptFilePath = actualPath;
+      }
+
+      // Apply the accepted hunks, save them as a new note, or discard the review
+      async function resolveReview(decision: string, acceptedHunks: number[]): Promise<{ success: boolean; message?: string; error?: string }> {
+        const review = pendingReview;
+        pendingReview = null;
+        if (!review) {
+          return { success: false, error: 'Nothing to review.' };
         }
-      } catch (error: any) {
-        console.warn('Could not update system prompt file path:', error);
+        if (decision === 'reject') {
+          return { success: true, message: 'Changes discarded.' };
+        }
+
+        const changeCount = review.hunks.filter(hunk => hunk.changed).length;
+        const acceptedCount = acceptedHunks.filter(index => review.hunks[index] && review.hunks[index].changed).length;
+        const result = applyDiffHunks(review.hunks, acceptedHunks);
+
+        if (decision === 'newNote') {
+          const folderId = (await joplin.data.get(['notes', review.noteId], { fields: ['parent_id'] })).parent_id;
+          const newNote = await joplin.data.post(['notes'], null, {
+            title: `${review.noteTitle} (${review.label})`,
+            body: result,
+            parent_id: folderId
+          });
+          await joplin.commands.execute('openNote', newNote.id);
+          return { success: true, message: `Saved ${acceptedCount} of ${changeCount} changes as the new note "${newNote.title}".` };
+        }
+
+        if (acceptedCount === 0) {
+          return { success: true, message: 'No changes selected; nothing was modified.' };
+        }
+
+        if (review.target === 'selection') {
+          // The hunks only fit the text that was reviewed, so the same note and selection must still be active
+          const noteIds = await joplin.workspace.selectedNoteIds();
+          const staleError = getStaleReviewError(review, noteIds[0] || '', await getSelectedText());
+          if (staleError) {
+            return { success: false, error: staleError };
+          }
+          await replaceSelectedText(result, review.action);
+          return { success: true, message: `Applied ${acceptedCount} of ${changeCount} changes to the selected text.` };
+        }
+
+        // Don't overwrite edits made while the review was open
+        const current = await joplin.data.get(['notes', review.noteId], { fields: ['body'] });
+        const staleError = getStaleReviewError(review, review.noteId, current.body);
+        if (staleError) {
+          return { success: false, error: staleError };
+        }
+        await updateNoteContent(review.noteId, result, review.action);
+        return { success: true, message: `Applied ${acceptedCount} of ${changeCount} changes to the note.` };
       }
-      
-      // Handle checkbox for opening system prompt file
-      // User workflow: Check box → Click Apply → Editor opens → Uncheck box → Click Apply
-      joplin.settings.onChange(async (event: any) => {
-        if (event.keys.includes('openSystemPromptFile')) {
-          const currentValue = await joplin.settings.value('openSystemPromptFile');
-          // Only open file when checkbox is checked (true)
-          // User will manually uncheck it after editing
-          if (currentValue === true) {
-            try {
-              // Open the file
-              await joplin.commands.execute('openSystemPromptFile');
-              
-              // Update the path display after opening (file may have been created)
-              try {
-                const chatGPTAPI = new ChatGPTAPI();
-                const actualPath = await chatGPTAPI.getSystemPromptFilePath();
-                if (actualPath) {
-                  await joplin.settings.setValue('systemPromptFile', actualPath);
-                }
-              } catch (pathError: any) {
-                console.warn('Could not update system prompt file path after opening:', pathError);
-              }
-            } catch (error: any) {
-              console.error('Error opening system prompt file from settings:', error);
-              await joplin.views.dialogs.showMessageBox(
-                `Error opening system prompt file: ${error.message}\n\n` +
-                `You can also use the Command Palette (Ctrl+Shift+P / Cmd+Shift+P) and search for "Open System Prompt File".`
-              );
-            }
+
+      // Fill in a template from the current note and selection, then send the reply where the template says
+      async function runPromptTemplate(templateId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        // Pick up edits to the templates file without a restart
+        promptTemplates.load();
+        const template = promptTemplates.getTemplate(templateId);
+        const noteIds = await joplin.workspace.selectedNoteIds();
+        const note: Note | null = noteIds.length > 0
+          ? await joplin.data.get(['notes', noteIds[0]], { fields: ['id', 'title', 'body', 'parent_id'] })
+          : null;
+        const selection = await getSelectedText() || '';
+
+        if (!note && (template.target === 'replaceSelection' || template.target === 'append')) {
+          return { success: false, error: 'No note selected. Please select a note first.' };
+        }
+        if (template.target === 'replaceSelection' && selection.trim() === '') {
+          return { success: false, error: `No text selected. Please select the text for "${template.name}" first.` };
+        }
+
+        const prompt = renderPromptTemplate(template.prompt, {
+          selection,
+          noteTitle: note ? note.title : '',
+          noteBody: note ? note.body : '',
+          date: new Date().toLocaleDateString()
+        });
+
+        if (template.target === 'chat') {
+          // Send through the panel so the reply streams, can be stopped and is saved in the chat session
+          await joplin.views.panels.show(actualPanelId);
+          await joplin.views.panels.postMessage(panel, { type: 'sendPrompt', content: prompt });
+          return { success: true };
+        }
+
+        await joplin.views.panels.postMessage(panel, {
+          type: 'addMessage',
+          sender: 'system',
+          content: `Running "${template.name}"...`
+        });
+        // Only the chat target belongs in the conversation; the others just edit notes
+        const response = await chatGPTAPI.sendMessage(prompt, { stateless: true });
+        lastChatGPTResponse = response;
+        const action = `Template: ${template.name}`;
+
+        if (template.target === 'replaceSelection' && note) {
+          await openReview({
+            title: `Review ${template.name}`,
+            label: template.name,
+            action,
+            noteId: note.id,
+            noteTitle: note.title,
+            target: 'selection',
+            original: selection,
+            revised: response
+          });
+          return { success: true, message: 'Review the changes, then apply the ones you want.' };
+        }
+
+        if (template.target === 'append' && note) {
+          // Re-read the body so edits made while waiting for the reply are kept
+          const latest = await joplin.data.get(['notes', note.id], { fields: ['body'] });
+          await updateNoteContent(note.id, latest.body + '\n\n' + response, action);
+          return { success: true, message: `"${template.name}" reply appended to the note.` };
+        }
+
+        const newNote = await joplin.data.post(['notes'], null, {
+          title: `${template.name} - ${note ? note.title : new Date().toLocaleString()}`,
+          body: response,
+          parent_id: note?.parent_id || await getCurrentFolderId()
+        });
+        await joplin.commands.execute('openNote', newNote.id);
+        return { success: true, message: `"${template.name}" reply saved as the new note "${newNote.title}".` };
+      }
+
+      // Batch job currently running, if any (one at a time)
+      let activeBatch: BatchRunner | null = null;
+
+      // Notes a batch runs over: the selected notes, or every note in the selected notebook
+      async function getBatchNotes(scope: string): Promise<Note[]> {
+        const fields = ['id', 'title', 'body', 'parent_id'];
+        if (scope === 'notebook') {
+          const folder = await joplin.workspace.selectedFolder();
+          if (!folder) {
+            return [];
           }
+          const notes: Note[] = [];
+          let page = 1;
+          let response: any;
+          do {
+            response = await joplin.data.get(['folders', folder.id, 'notes'], { fields, page: page++ });
+            notes.push(...response.items);
+          } while (response.has_more);
+          return notes;
         }
-      });
-      
-      
-      } catch (error) {
-        console.error('ERROR registering settings:', error);
-        console.error('Error details:', JSON.stringify(error, null, 2));
-        throw error; // Re-throw to see the error in Joplin
+        const notes: Note[] = [];
+        for (const noteId of await joplin.workspace.selectedNoteIds()) {
+          notes.push(await joplin.data.get(['notes', noteId], { fields }));
+        }
+        return notes;
       }
 
-      // ===== SET DEFAULT MODEL IF BLANK =====
-      // Check if model is blank or not user-set, and set to latest general model
-      try {
-        const currentModel = await joplin.settings.value('openaiModel');
-        const modelUserSet = await joplin.settings.value('openaiModelUserSet');
-        
-        // If model is blank/empty or not user-set, fetch and set the latest general model
-        if ((!currentModel || currentModel.trim() === '') || !modelUserSet) {
-          // Try to get available models (from storage or fetch if needed)
-          let modelsToCheck: ModelInfo[] = [];
-          const modelsListKey = 'modelsList';
-          
-          // Check if models are already fetched
-          try {
-            const storedModels = await joplin.data.get(['plugins', 'com.cogitations.chatgpt-toolkit', 'data', modelsListKey]);
-            if (storedModels && storedModels.value) {
-              modelsToCheck = JSON.parse(storedModels.value);
-              modelsToCheck.sort((a: ModelInfo, b: ModelInfo) => b.created - a.created);
+      // The work done for one note; `operation` is 'summarize', 'translate' or 'template:<id>'
+      function createBatchTask(operation: string, language: string): { label: string; task: (note: Note, signal: AbortSignal) => Promise<void> } {
+        if (operation === 'summarize') {
+          return {
+            label: 'Summarize notes',
+            task: async (note: Note, signal: AbortSignal) => {
+              const summary = await chatGPTAPI.summarizeNote(note.body, { stateless: true, signal });
+              // Re-read the body so edits made while waiting for the reply are kept
+              const latest = await joplin.data.get(['notes', note.id], { fields: ['body'] });
+              await updateNoteContent(note.id, `${latest.body}\n\n## Summary\n\n${summary}`, 'Batch: Summarize');
             }
-          } catch (e) {
-            // Models not in storage yet, will be fetched later
+          };
+        }
+        if (operation === 'translate') {
+          return {
+            label: `Translate notes into ${language}`,
+            task: async (note: Note, signal: AbortSignal) => {
+              const translation = await chatGPTAPI.translateNote(note.body, language, { stateless: true, signal });
+              await joplin.data.post(['notes'], null, { title: `${note.title} (${language})`, body: translation, parent_id: note.parent_id });
+            }
+          };
+        }
+        if (operation.startsWith('template:')) {
+          promptTemplates.load();
+          const template = promptTemplates.getTemplate(operation.slice('template:'.length));
+          // Replacing a selection needs a review of each change, which a batch can't offer
+          if (!BATCH_TEMPLATE_TARGETS.includes(template.target)) {
+            throw new Error(`"${template.name}" ${template.target === 'chat' ? 'sends its reply to the chat' : 'replaces the selection after a review'}, so it can't run on several notes at once.`);
           }
-          
-          // If we have models, find the latest general one
-          if (modelsToCheck.length > 0) {
-            const isGeneralModel = (id: string): boolean => {
-              const gptPattern = /^gpt-\d+(\.\d+)?[a-z]?$/;
-              const oPattern = /^o\d+$/;
-              if (id.includes('-') && !id.match(/^gpt-\d+(\.\d+)?[a-z]?$/)) {
-                return false;
+          const action = `Batch: ${template.name}`;
+          return {
+            label: `Apply "${template.name}"`,
+            task: async (note: Note, signal: AbortSignal) => {
+              // The whole note stands in for the selection
+              const prompt = renderPromptTemplate(template.prompt, {
+                selection: note.body,
+                noteTitle: note.title,
+                noteBody: note.body,
+                date: new Date().toLocaleDateString()
+              });
+              const response = await chatGPTAPI.sendMessage(prompt, { stateless: true, signal });
+              if (template.target === 'append') {
+                const latest = await joplin.data.get(['notes', note.id], { fields: ['body'] });
+                await updateNoteContent(note.id, `${latest.body}\n\n${response}`, action);
+              } else {
+                await joplin.data.post(['notes'], null, { title: `${template.name} - ${note.title}`, body: response, parent_id: note.parent_id });
               }
-              return gptPattern.test(id) || oPattern.test(id);
-            };
-            
-            const latestGeneralModel = modelsToCheck.find(model => isGeneralModel(model.id));
-            if (latestGeneralModel) {
-              await joplin.settings.setValue('openaiModel', latestGeneralModel.id);
-              await joplin.settings.setValue('openaiModelUserSet', false);
-              console.info('Set default model in settings to:', latestGeneralModel.id);
             }
-          } else {
-            // Fallback to hardcoded default
-            await joplin.settings.setValue('openaiModel', 'gpt-5.1');
-            await joplin.settings.setValue('openaiModelUserSet', false);
-          }
+          };
         }
-      } catch (error: any) {
-        console.warn('Error setting default model in settings:', error.message);
+        throw new Error(`Unknown batch operation: ${operation}`);
       }
 
-      // Create global ChatGPT API instance
-      const chatGPTAPI = new ChatGPTAPI();
+      // Run a task over several notes, reporting each note's progress in the panel
+      async function runBatch(label: string, notes: Note[], task: (note: Note, signal: AbortSignal) => Promise<void>): Promise<{ success: boolean; message?: string; error?: string }> {
+        if (activeBatch) {
+          return { success: false, error: 'A batch is already running. Cancel it or wait for it to finish first.' };
+        }
 
-      // ===== COMMANDS SETUP =====
-      console.info('Setting up ChatGPT Toolkit commands...');
+        const items: BatchItem[] = notes.map(note => ({ noteId: note.id, title: note.title || 'Untitled', status: 'pending', retries: 0 }));
+        const runner = new BatchRunner({
+          concurrency: await joplin.settings.value('batchConcurrency') || 3,
+          maxRetries: 5,
+          baseDelayMs: 2000,
+          onUpdate: (item: BatchItem) => {
+            Promise.resolve(joplin.views.panels.postMessage(panel, {
+              type: 'batchItemUpdated',
+              index: items.indexOf(item),
+              status: item.status,
+              error: item.error
+            })).catch((error: any) => {
+              console.error('Error sending batch progress to webview:', error);
+            });
+          }
+        });
+        const notesById = new Map(notes.map(note => [note.id, note]));
 
-      // Helper function to get current note
-      async function getCurrentNote(): Promise<Note> {
-        const noteIds = await joplin.workspace.selectedNoteIds();
-        if (noteIds.length === 0) {
-          throw new Error('No note selected. Please select a note first.');
+        activeBatch = runner;
+        try {
+          await joplin.views.panels.show(actualPanelId);
+          await joplin.views.panels.postMessage(panel, { type: 'batchStarted', title: label, items });
+          await runner.run(items, (item: BatchItem) => task(notesById.get(item.noteId) as Note, runner.signal));
+        } finally {
+          activeBatch = null;
         }
-        return await joplin.data.get(['notes', noteIds[0]], { fields: ['id', 'title', 'body'] });
+
+        const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+        const message = `${label}: ${count('done')} done, ${count('failed')} failed` + (count('cancelled') ? `, ${count('cancelled')} cancelled` : '') + '.';
+        await joplin.views.panels.postMessage(panel, { type: 'batchFinished', message });
+        return { success: true, message };
       }
 
-      // Helper function to get current folder ID
-      async function getCurrentFolderId(): Promise<string | null> {
+      // Run one of the batch dialog's operations over the selected notes or the selected notebook
+      async function runBatchOperation(operation: string, scope: string, language: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        const { label, task } = createBatchTask(operation, language);
+        const notes = await getBatchNotes(scope);
+        if (notes.length === 0) {
+          return { success: false, error: scope === 'notebook' ? 'The selected notebook has no notes.' : 'No notes selected. Please select one or more notes first.' };
+        }
+        return await runBatch(label, notes, task);
+      }
+
+      // Dialog to pick the batch operation and which notes it runs on (created on first use)
+      let batchDialog: string | null = null;
+      async function showBatchDialog(): Promise<void> {
         try {
-          const noteIds = await joplin.workspace.selectedNoteIds();
-          if (noteIds.length > 0) {
-            const note = await joplin.data.get(['notes', noteIds[0]], { fields: ['parent_id'] });
-            return note.parent_id;
+          if (activeBatch) {
+            await joplin.views.dialogs.showMessageBox('A batch is already running. Cancel it from the ChatGPT panel or wait for it to finish.');
+            return;
           }
-          // If no note selected, use the default folder
-          const folders = await joplin.data.get(['folders'], { fields: ['id', 'title'] });
-          const inboxFolder = folders.items.find((folder: any) => folder.title === 'Inbox');
-          return inboxFolder ? inboxFolder.id : folders.items[0].id;
-        } catch (error) {
-          console.error('Error getting current folder:', error);
-          return null; // Let Joplin use default folder
+          if (!batchDialog) {
+            batchDialog = await joplin.views.dialogs.create('chatgptBatchDialog');
+            await joplin.views.dialogs.setButtons(batchDialog, [
+              { id: 'ok', title: 'Run' },
+              { id: 'cancel', title: 'Cancel' }
+            ]);
+          }
+
+          promptTemplates.load();
+          const selectedCount = (await joplin.workspace.selectedNoteIds()).length;
+          const folder = await joplin.workspace.selectedFolder();
+          const templateOptions = promptTemplates.getTemplates()
+            .filter(template => BATCH_TEMPLATE_TARGETS.includes(template.target))
+            .map(template => `
+              <label style="display: block; margin-bottom: 6px;">
+                <input type="radio" name="operation" value="template:${escapeHtml(template.id)}"> Apply template "${escapeHtml(template.name)}"
+              </label>
+            `);
+          await joplin.views.dialogs.setHtml(batchDialog, `
+            <form name="batchForm" style="padding: 10px; font-family: sans-serif; font-size: 13px; max-height: 420px; overflow-y: auto;">
+              <p style="margin-top: 0;"><strong>Operation</strong></p>
+              <label style="display: block; margin-bottom: 6px;">
+                <input type="radio" name="operation" value="summarize" checked> Summarize each note (adds a Summary section)
+              </label>
+              <label style="display: block; margin-bottom: 6px;">
+                <input type="radio" name="operation" value="translate"> Translate each note into a new note, in
+                <input type="text" name="language" value="English" style="width: 120px;">
+              </label>
+              ${templateOptions.join('')}
+              <p><strong>Notes</strong></p>
+              <label style="display: block; margin-bottom: 6px;">
+                <input type="radio" name="scope" value="selected"${selectedCount > 0 ? ' checked' : ''}> Selected notes (${selectedCount})
+              </label>
+              <label style="display: block; margin-bottom: 6px;">
+                <input type="radio" name="scope" value="notebook"${selectedCount > 0 ? '' : ' checked'}${folder ? '' : ' disabled'}> Every note in "${escapeHtml(folder ? folder.title : 'no notebook selected')}"
+              </label>
+              <p style="color: #666666;">Edited notes can be restored with "Show ChatGPT Edit History for This Note".</p>
+            </form>
+          `);
+
+          const result = await joplin.views.dialogs.open(batchDialog);
+          const form = result.formData?.batchForm;
+          if (result.id !== 'ok' || !form) {
+            return;
+          }
+          const outcome = await runBatchOperation(form.operation || 'summarize', form.scope || 'selected', (form.language || '').trim() || 'English');
+          if (!outcome.success) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${outcome.error}`);
+          }
+        } catch (error: any) {
+          await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
         }
       }
 
-      // Helper function to update note content
-      async function updateNoteContent(noteId: string, newContent: string, autoSave: boolean = true): Promise<void> {
-        await joplin.data.put(['notes', noteId], null, { body: newContent });
-        if (autoSave) {
-          // Note: Joplin auto-saves changes, no manual save command needed
-          console.info('Note content updated successfully');
+      // Tag or notebook suggestions shown in the panel, waiting for approval
+      let pendingSuggestion: PendingSuggestion | null = null;
+
+      // Helper function to get every tag (the data API returns them in pages)
+      async function getAllTags(): Promise<Array<{ id: string; title: string }>> {
+        const tags: Array<{ id: string; title: string }> = [];
+        let page = 1;
+        let response: any;
+        do {
+          response = await joplin.data.get(['tags'], { fields: ['id', 'title'], page: page++ });
+          tags.push(...response.items);
+        } while (response.has_more);
+        return tags;
+      }
+
+      // Ask for tags for the selected note and show the ones it doesn't have yet for approval
+      async function suggestTagsForNote(): Promise<void> {
+        const note = await getCurrentNote();
+        await joplin.views.panels.show(actualPanelId);
+        await showPanelNotice('info', `Asking ChatGPT for tags for "${note.title}"...`);
+        const allTags = await getAllTags();
+        const noteTags = await joplin.data.get(['notes', note.id, 'tags'], { fields: ['title'] });
+        const attached = new Set(noteTags.items.map((tag: any) => tag.title.toLowerCase()));
+        const tags = (await chatGPTAPI.suggestTags(note, allTags.map(tag => tag.title)))
+          .filter(tag => !attached.has(tag.title.toLowerCase()));
+        if (tags.length === 0) {
+          await showPanelNotice('info', `ChatGPT has no tags to add to "${note.title}".`);
+          return;
         }
+        pendingSuggestion = { kind: 'tags', noteId: note.id, noteTitle: note.title, tags };
+        await joplin.views.panels.postMessage(panel, {
+          type: 'showSuggestions',
+          kind: 'tags',
+          title: `Suggested tags for "${note.title}"`,
+          items: tags.map(tag => ({ label: tag.title, detail: tag.isNew ? 'New tag' : '' }))
+        });
       }
 
-      // Helper function to get selected text from editor
-      async function getSelectedText(): Promise<string> {
-        try {
-          return await joplin.commands.execute('selectedText');
-        } catch (error) {
-          console.error('Error getting selected text:', error);
-          return '';
+      // Ask which notebook the selected note belongs in and show the answer for approval
+      async function suggestNotebookForNote(): Promise<void> {
+        const note = await getCurrentNote();
+        const folders = buildFolderPaths(await getAllFolders());
+        if (folders.length === 0) {
+          throw new Error('No notebooks found. Create a notebook first.');
         }
+        await joplin.views.panels.show(actualPanelId);
+        await showPanelNotice('info', `Asking ChatGPT where "${note.title}" belongs...`);
+        const { parent_id: currentFolderId } = await joplin.data.get(['notes', note.id], { fields: ['parent_id'] });
+        const notebooks = await chatGPTAPI.suggestNotebook(note, folders);
+        pendingSuggestion = { kind: 'notebook', noteId: note.id, noteTitle: note.title, notebooks };
+        await joplin.views.panels.postMessage(panel, {
+          type: 'showSuggestions',
+          kind: 'notebook',
+          title: `Suggested notebook for "${note.title}"`,
+          items: notebooks.map(notebook => ({
+            label: notebook.path,
+            detail: notebook.folderId === currentFolderId ? `Current notebook. ${notebook.reason}` : notebook.reason
+          }))
+        });
       }
 
-      // Helper function to replace selected text in editor
-      async function replaceSelectedText(newText: string): Promise<void> {
-        try {
-          await joplin.commands.execute('replaceSelection', newText);
-        } catch (error) {
-          console.error('Error replacing selected text:', error);
+      // Give the selected note a title based on its content
+      async function generateTitleForNote(): Promise<string> {
+        const note = await getCurrentNote();
+        if (!note.body.trim()) {
+          throw new Error('The note is empty, so there is nothing to base a title on.');
         }
+        const title = await chatGPTAPI.generateTitle(note.body);
+        await joplin.data.put(['notes', note.id], null, { title });
+        return `Renamed "${note.title || 'Untitled'}" to "${title}".`;
       }
 
-      // Helper function to copy text to clipboard
-      async function copyToClipboard(text: string): Promise<void> {
-        try {
-          await joplin.clipboard.writeText(text);
-        } catch (error) {
-          console.error('Error copying to clipboard:', error);
+      // Generate titles for the notes in a notebook that have an empty or default one, then show them for approval
+      async function generateTitlesForNotebook(folderId?: string): Promise<{ success: boolean; message?: string; error?: string }> {
+        const folder = folderId ? await joplin.data.get(['folders', folderId], { fields: ['id', 'title'] }) : await joplin.workspace.selectedFolder();
+        if (!folder) {
+          return { success: false, error: 'No notebook selected. Please select a notebook first.' };
+        }
+        const notes: Note[] = [];
+        let page = 1;
+        let response: any;
+        do {
+          response = await joplin.data.get(['folders', folder.id, 'notes'], { fields: ['id', 'title', 'body', 'parent_id'], page: page++ });
+          notes.push(...response.items.filter((note: Note) => isDefaultNoteTitle(note.title) && note.body.trim()));
+        } while (response.has_more);
+        if (notes.length === 0) {
+          return { success: true, message: `Every note in "${folder.title}" already has a title.` };
+        }
+
+        const titles = new Map<string, string>();
+        const result = await runBatch(`Generate titles in "${folder.title}"`, notes, async (note: Note, signal: AbortSignal) => {
+          titles.set(note.id, await chatGPTAPI.generateTitle(note.body, { signal }));
+        });
+        if (!result.success || titles.size === 0) {
+          return result;
+        }
+
+        const suggestions: TitleSuggestion[] = notes
+          .filter(note => titles.has(note.id))
+          .map(note => ({ noteId: note.id, oldTitle: note.title, title: titles.get(note.id) as string }));
+        pendingSuggestion = { kind: 'titles', titles: suggestions };
+        await joplin.views.panels.postMessage(panel, {
+          type: 'showSuggestions',
+          kind: 'titles',
+          title: `New titles for ${suggestions.length} notes in "${folder.title}"`,
+          items: suggestions.map(suggestion => ({ label: suggestion.title, detail: `Was: ${suggestion.oldTitle || 'Untitled'}` }))
+        });
+        return { success: true };
+      }
+
+      // Find the action items in the selected note and show them for review before any to-do is created
+      async function extractTasksFromNote(): Promise<void> {
+        const note = await getCurrentNote();
+        if (!note.body.trim()) {
+          throw new Error('The note is empty, so there are no tasks to extract.');
         }
+        const folderId = await chooseNotebook(`Create the to-dos from "${note.title}" in:`);
+        if (!folderId) {
+          return;
+        }
+        await joplin.views.panels.show(actualPanelId);
+        await showPanelNotice('info', `Looking for tasks in "${note.title}"...`);
+        const now = new Date();
+        const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+        const tasks = await chatGPTAPI.extractTasks(note, today);
+        if (tasks.length === 0) {
+          await showPanelNotice('info', `ChatGPT found no tasks in "${note.title}".`);
+          return;
+        }
+        pendingSuggestion = { kind: 'tasks', noteId: note.id, noteTitle: note.title, folderId, tasks };
+        await joplin.views.panels.postMessage(panel, {
+          type: 'showSuggestions',
+          kind: 'tasks',
+          title: `Tasks in "${note.title}"`,
+          items: tasks.map(task => ({
+            label: task.task,
+            detail: [task.owner ? `Owner: ${task.owner}` : '', task.due ? `Due: ${task.due}` : ''].filter(part => part).join(' · ')
+          }))
+        });
       }
 
-      // Helper function to get last ChatGPT response from chat
-      let lastChatGPTResponse: string = '';
+      // Audio attachments of a note, in the order they appear in it
+      async function findNoteRecordings(note: Note): Promise<any[]> {
+        const recordings: any[] = [];
+        for (const id of extractLinkedNoteIds(note.body || '')) {
+          try {
+            const resource = await joplin.data.get(['resources', id], { fields: ['id', 'title', 'mime', 'size', 'file_extension'] });
+            if (isTranscribableMimeType(resource.mime)) {
+              recordings.push(resource);
+            }
+          } catch (error: any) {
+            // Notes use the same link syntax
+          }
+        }
+        return recordings;
+      }
+
+      // Dialog for picking one of several recordings (created on first use)
+      let recordingDialog: string | null = null;
+      async function chooseRecording(noteTitle: string, recordings: any[]): Promise<any | null> {
+        if (!recordingDialog) {
+          recordingDialog = await joplin.views.dialogs.create('chatgptRecordingDialog');
+          await joplin.views.dialogs.setButtons(recordingDialog, [
+            { id: 'ok', title: 'Transcribe' },
+            { id: 'cancel', title: 'Cancel' }
+          ]);
+        }
+        const options = recordings.map(recording => `<option value="${recording.id}">${escapeHtml(recording.title || recording.id)} (${formatByteSize(recording.size)})</option>`);
+        await joplin.views.dialogs.setHtml(recordingDialog, `
+          <form name="recordingForm" style="padding: 10px; font-family: sans-serif; font-size: 13px;">
+            <p style="margin-top: 0;">"${escapeHtml(noteTitle)}" has ${recordings.length} recordings. Transcribe:</p>
+            <select name="resourceId" style="width: 100%; padding: 4px;">${options.join('')}</select>
+          </form>
+        `);
+
+        const result = await joplin.views.dialogs.open(recordingDialog);
+        if (result.id !== 'ok') {
+          return null;
+        }
+        return recordings.find(recording => recording.id === result.formData?.recordingForm?.resourceId) || null;
+      }
+
+      // Transcribe a recording attached to the selected note and write the transcript below its link
+      async function transcribeNoteAttachment(): Promise<void> {
+        const note = await getCurrentNote();
+        const recordings = await findNoteRecordings(note);
+        if (recordings.length === 0) {
+          throw new Error(`"${note.title}" has no audio attachments to transcribe.`);
+        }
+        const recording = recordings.length === 1 ? recordings[0] : await chooseRecording(note.title, recordings);
+        if (!recording) {
+          return;
+        }
+        const name = recording.title || recording.id;
+        // Servers go by the file extension to decode the audio, and resource titles don't always have one
+        const fileName = /\.\w+$/.test(name) || !recording.file_extension ? name : `${name}.${recording.file_extension}`;
+
+        await joplin.views.panels.show(actualPanelId);
+        await showPanelNotice('info', `Transcribing "${name}" (${formatByteSize(recording.size)})...`);
+        const file = await joplin.data.get(['resources', recording.id, 'file']);
+        const transcript = await chatGPTAPI.transcribeAudio({ name: fileName, data: new Blob([file.body], { type: recording.mime }) });
+        if (!transcript) {
+          throw new Error(`No speech was found in "${name}".`);
+        }
+        let summary = '';
+        if (await joplin.settings.value('summarizeTranscripts')) {
+          await showPanelNotice('info', `Summarizing the transcript of "${name}"...`);
+          summary = await chatGPTAPI.summarizeNote(transcript, { stateless: true });
+        }
+
+        // The note may have been edited while the recording was transcribed
+        const current = await joplin.data.get(['notes', note.id], { fields: ['body'] });
+        await updateNoteContent(note.id, insertTranscript(current.body || '', recording.id, formatTranscriptSection(name, transcript, summary)), 'Transcribe attachment');
+        await showPanelNotice('info', `Added the transcript${summary ? ' and a summary' : ''} of "${name}" to "${note.title}".`);
+      }
+
+      // Apply the suggestions the user kept (tags are created as needed); an empty list dismisses them
+      async function resolveSuggestions(accepted: number[]): Promise<{ success: boolean; message?: string; error?: string }> {
+        const suggestion = pendingSuggestion;
+        pendingSuggestion = null;
+        if (!suggestion) {
+          return { success: false, error: 'No suggestions to apply.' };
+        }
+
+        if (suggestion.kind === 'tasks') {
+          const tasks = accepted.map(index => suggestion.tasks[index]).filter(task => !!task);
+          if (tasks.length === 0) {
+            return { success: true, message: 'Tasks dismissed; no to-dos were created.' };
+          }
+          const source = { id: suggestion.noteId, title: suggestion.noteTitle };
+          for (const task of tasks) {
+            await joplin.data.post(['notes'], null, {
+              title: task.task,
+              body: formatTaskNoteBody(task, source),
+              parent_id: suggestion.folderId,
+              is_todo: 1,
+              todo_due: parseTaskDueDate(task.due)
+            });
+          }
+          const folder = await joplin.data.get(['folders', suggestion.folderId], { fields: ['title'] });
+          return { success: true, message: `Created ${tasks.length} to-dos from "${suggestion.noteTitle}" in "${folder.title}".` };
+        }
+
+        if (suggestion.kind === 'titles') {
+          let renamed = 0;
+          let skipped = 0;
+          for (const title of accepted.map(index => suggestion.titles[index]).filter(title => !!title)) {
+            // Leave alone notes that were given a title while the preview was open
+            const current = await joplin.data.get(['notes', title.noteId], { fields: ['title'] });
+            if (!isDefaultNoteTitle(current.title)) {
+              skipped++;
+              continue;
+            }
+            await joplin.data.put(['notes', title.noteId], null, { title: title.title });
+            renamed++;
+          }
+          return { success: true, message: `Renamed ${renamed} notes.` + (skipped ? ` ${skipped} had been given a title in the meantime and were left as they are.` : '') };
+        }
+
+        if (suggestion.kind === 'notebook') {
+          const notebook = suggestion.notebooks[accepted[0]];
+          if (!notebook) {
+            return { success: true, message: 'Suggestion dismissed; the note was not moved.' };
+          }
+          await joplin.data.put(['notes', suggestion.noteId], null, { parent_id: notebook.folderId });
+          return { success: true, message: `Moved "${suggestion.noteTitle}" to ${notebook.path}.` };
+        }
+
+        const tags = accepted.map(index => suggestion.tags[index]).filter(tag => !!tag);
+        if (tags.length === 0) {
+          return { success: true, message: 'Suggestions dismissed; no tags were added.' };
+        }
+        // Look tags up again: one may have been created since the suggestions were made
+        const allTags = await getAllTags();
+        for (const tag of tags) {
+          let existing = allTags.find(candidate => candidate.title.toLowerCase() === tag.title.toLowerCase());
+          if (!existing) {
+            existing = await joplin.data.post(['tags'], null, { title: tag.title });
+          }
+          await joplin.data.post(['tags', (existing as { id: string }).id, 'notes'], null, { id: suggestion.noteId });
+        }
+        return { success: true, message: `Tagged "${suggestion.noteTitle}" with ${tags.map(tag => tag.title).join(', ')}.` };
+      }
 
 
 
@@ -1212,8 +5617,17 @@ joplin.plugins.register({
             }
             
             const correctedText = await chatGPTAPI.checkGrammar(selectedText);
-            await replaceSelectedText(correctedText);
-            await joplin.views.dialogs.showMessageBox('Grammar check completed and text updated!');
+            const note = await getCurrentNote();
+            await openReview({
+              title: 'Grammar Check Results',
+              label: 'Corrected',
+              action: 'Grammar check',
+              noteId: note.id,
+              noteTitle: note.title,
+              target: 'selection',
+              original: selectedText,
+              revised: correctedText
+            });
           } catch (error: any) {
             await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
           }
@@ -1269,12 +5683,16 @@ joplin.plugins.register({
           // Key doesn't exist yet, that's fine
         }
         
-        if (!modelsFetched) {
+        if (startupProvider.id !== 'openai') {
+          // Other providers are listed on every start since their models depend on what the server has loaded
+          console.info('Fetching available models from', startupProvider.label);
+          availableModels = await fetchAvailableModels(startupProvider);
+        } else if (!modelsFetched) {
           // First time - fetch models from API
           console.info('Fetching available models from OpenAI API (first time only)...');
           const apiKey = await joplin.settings.value('openaiApiKey');
           if (apiKey && apiKey.trim() !== '') {
-            availableModels = await fetchAvailableModels(apiKey);
+            availableModels = await fetchAvailableModels(startupProvider);
             if (availableModels.length > 0) {
               // Store the models list (already sorted by creation date, newest first)
               await joplin.data.put(['plugins', 'com.cogitations.chatgpt-toolkit', 'data', modelsListKey], null, { value: JSON.stringify(availableModels) });
@@ -1358,7 +5776,12 @@ joplin.plugins.register({
       ];
       
       // Use fetched models if available, otherwise use default
-      const modelsToUse = availableModels.length > 0 ? availableModels : defaultModels;
+      let modelsToUse = availableModels.length > 0 ? availableModels : defaultModels;
+      if (startupProvider.id !== 'openai' && availableModels.length === 0) {
+        // Server unreachable: keep offering the configured model rather than OpenAI's defaults
+        const configuredModel = await joplin.settings.value('openaiModel');
+        modelsToUse = configuredModel ? [{ id: configuredModel, created: 0 }] : [];
+      }
       
       // Find the newest general model (not variants - anything after the number)
       const isGeneralModel = (id: string): boolean => {
@@ -1382,23 +5805,28 @@ joplin.plugins.register({
       };
       
       const latestGeneralModel = modelsToUse.find(model => isGeneralModel(model.id));
-      const latestModel = latestGeneralModel ? latestGeneralModel.id : modelsToUse[0].id;
+      const latestModel = latestGeneralModel ? latestGeneralModel.id : (modelsToUse.length > 0 ? modelsToUse[0].id : '');
       
       // Generate model options HTML
-      const savedModel = await joplin.settings.value('openaiModel');
-      const selectedModel = savedModel || latestModel;
+      let savedModel = await joplin.settings.value('openaiModel');
       
-      // Update setting if it's not set or is the old default
-      if (!savedModel || savedModel === 'gpt-5.1') {
+      // Update setting if it's not set, is the old default, or isn't served by a non-OpenAI provider
+      const savedModelUnavailable = startupProvider.id !== 'openai' && !modelsToUse.some(model => model.id === savedModel);
+      if (latestModel && (!savedModel || savedModel === 'gpt-5.1' || savedModelUnavailable)) {
         await joplin.settings.setValue('openaiModel', latestModel);
+        savedModel = latestModel;
       }
+      const selectedModel = savedModel || latestModel;
+      
+      // Panel dropdown label for a model id (newest model is marked as latest)
+      const formatModelName = (id: string, isLatest: boolean): string => {
+        const displayName = id.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+        return isLatest ? `${displayName} (Latest)` : displayName;
+      };
       
       const modelOptions = modelsToUse.map((model, index) => {
         const isSelected = model.id === selectedModel ? ' selected' : '';
-        const isLatest = index === 0;
-        const displayName = isLatest ? `${model.id.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase())} (Latest)` : 
-                           model.id.replace(/-/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
-        return `<option value="${model.id}"${isSelected}>${displayName}</option>`;
+        return `<option value="${model.id}"${isSelected}>${formatModelName(model.id, index === 0)}</option>`;
       }).join('\n              ');
 
       // ===== CHAT PANEL SETUP =====
@@ -1417,6 +5845,13 @@ joplin.plugins.register({
         <div class="chat-container">
           <div class="chat-header">
             <h3>ChatGPT Toolkit</h3>
+            <div class="session-switcher">
+              <select id="sessionSelector" class="session-selector" title="Switch chat session"></select>
+              <input id="sessionNameInput" class="session-name-input" type="text" placeholder="Chat name (Enter to save)" />
+              <button class="session-button" id="newSessionButton" title="New chat">＋</button>
+              <button class="session-button" id="renameSessionButton" title="Rename chat">✎</button>
+              <button class="session-button" id="deleteSessionButton" title="Delete chat">🗑</button>
+            </div>
             <button class="close-button" id="closePanelButton" title="Close Panel">✕</button>
           </div>
           
@@ -1425,6 +5860,26 @@ joplin.plugins.register({
             <select id="modelSelector" class="model-selector">
               ${modelOptions}
             </select>
+            <label for="personaSelector" class="model-label">Persona:</label>
+            <select id="personaSelector" class="model-selector" title="Persona for this chat"></select>
+          </div>
+
+          <!-- Notices about reloaded (or unreadable) prompt files -->
+          <div class="panel-notice" id="panelNotice" role="status">
+            <span id="panelNoticeText"></span>
+            <button class="panel-notice-close" id="panelNoticeClose" title="Dismiss">×</button>
+          </div>
+          
+          <!-- Progress of "Run ChatGPT on Multiple Notes", filled in by webview.js -->
+          <div class="batch-progress" id="batchProgress">
+            <div class="batch-header">
+              <strong id="batchTitle"></strong>
+              <span id="batchCount"></span>
+              <button class="batch-button" id="batchCancelButton" title="Stop the notes that haven't started yet">Cancel</button>
+              <button class="panel-notice-close" id="batchCloseButton" title="Dismiss">×</button>
+            </div>
+            <progress id="batchBar" value="0" max="1"></progress>
+            <ul class="batch-items" id="batchItems"></ul>
           </div>
           
           <div class="quick-actions">
@@ -1435,8 +5890,13 @@ joplin.plugins.register({
             <button class="action-button" data-action="copyNoteToPrompt" title="Copy Note to Prompt">📋 Note→Prompt</button>
             <button class="action-button" data-action="copySelectedToPrompt" title="Copy Selected to Prompt">✂️ Selected→Prompt</button>
             <button class="action-button" data-action="checkGrammar" title="Check Selected Grammar">✅ Grammar</button>
+            <button class="action-button" data-action="exportConversation" title="Save this chat as a note">💾 Export Chat</button>
+            <button class="action-button" data-action="resumeConversation" title="Resume a chat from an exported note">↩️ Resume Chat</button>
             <button class="action-button" data-action="showAbout" title="Help">ℹ️ Help</button>
           </div>
+
+          <!-- Prompt templates from prompt-templates.json, filled in by webview.js -->
+          <div class="template-actions" id="templateActions"></div>
           
           <div class="chat-messages" id="chatMessages">
             <div class="message assistant">
@@ -1451,31 +5911,87 @@ joplin.plugins.register({
             ChatGPT is thinking...
           </div>
           
+          <!-- Note-grounded mode: the selected note is sent with every message -->
+          <div class="note-context-bar">
+            <label class="note-context-toggle" title="Send the selected note with each message">
+              <input type="checkbox" id="noteContextToggle"> Use note as context
+            </label>
+            <label class="note-context-toggle" title="Also send the notes it links to">
+              <input type="checkbox" id="noteContextLinkedToggle"> Include linked notes
+            </label>
+            <label class="note-context-toggle" title="Add the best-matching excerpts from all notes, with links to their sources">
+              <input type="checkbox" id="notesSearchToggle"> Search all notes
+            </label>
+            <label class="note-context-toggle" title="Let ChatGPT search, read, create, append to and tag notes; you confirm every change">
+              <input type="checkbox" id="noteToolsToggle"> Use notes
+            </label>
+            <span class="note-context-chip" id="noteContextChip"></span>
+            <button class="attach-files-button" id="attachNoteFilesButton" title="Send the images and PDFs in the selected note with the next message (or paste an image into the input)">🖼️ Attach note files</button>
+          </div>
+
+          <!-- Images and PDFs that go out with the next message -->
+          <div class="attachment-list" id="attachmentList"></div>
+
           <div class="chat-input-container">
             <textarea 
               class="chat-input" 
               id="chatInput" 
-              placeholder="Enter your prompt here... (Enter to send, Shift+Enter for new line)"
+              placeholder="Enter your prompt here, or /image and a description to generate an image... (Enter to send, Shift+Enter for new line)"
               rows="5"
             ></textarea>
           </div>
           <div class="send-button-container">
             <button class="clear-history-button" id="clearHistoryButton">Clear History</button>
-            <button class="send-button" id="sendButton">Send</button>
+            <div class="send-actions">
+              <button class="stop-button" id="stopButton" title="Stop generating">Stop</button>
+              <button class="send-button" id="sendButton">Send</button>
+            </div>
           </div>
         </div>
 
-        <!-- Grammar Check Modal -->
-        <div id="grammar-modal" style="display: none; position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.5); z-index: 1000;">
-          <div style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); background: white; padding: 20px; border-radius: 8px; max-width: 80%; max-height: 80%; overflow-y: auto;">
-            <h3 style="margin-top: 0; color: #2c2c2c;">Grammar Check Results</h3>
-            <div style="margin: 15px 0; padding: 15px; background: #f8f9fa; border-radius: 4px; border-left: 4px solid #28a745;">
-              <strong>Corrected Text:</strong>
-              <div id="corrected-text" style="margin-top: 10px; white-space: pre-wrap; color: #2c2c2c;"></div>
+        <!-- Review Modal: word-level diff with per-hunk accept/reject -->
+        <div id="review-modal" style="display: none; position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.5); z-index: 1000;">
+          <div style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); background: white; padding: 20px; border-radius: 8px; width: 85%; max-height: 85%; display: flex; flex-direction: column;">
+            <h3 id="review-title" style="margin-top: 0; color: #2c2c2c;">Review Changes</h3>
+            <div class="diff-legend">
+              <span><span class="diff-delete">removed</span> <span class="diff-insert">added</span> · click a change to keep or drop it</span>
+              <span>
+                <span id="review-count"></span>
+                <button class="diff-toggle-all" id="review-accept-all">Accept all</button>
+                <button class="diff-toggle-all" id="review-reject-all">Reject all</button>
+              </span>
             </div>
+            <div id="review-diff" class="diff-view"></div>
             <div style="margin-top: 20px; text-align: right;">
-              <button id="reject-grammar" style="margin-right: 10px; padding: 8px 16px; background: #6c757d; color: white; border: none; border-radius: 4px; cursor: pointer;">Reject</button>
-              <button id="accept-grammar" style="padding: 8px 16px; background: #28a745; color: white; border: none; border-radius: 4px; cursor: pointer;">Accept & Apply</button>
+              <button id="reject-review" style="margin-right: 10px; padding: 8px 16px; background: #6c757d; color: white; border: none; border-radius: 4px; cursor: pointer;">Reject</button>
+              <button id="new-note-review" style="margin-right: 10px; padding: 8px 16px; background: #4a4a4a; color: white; border: none; border-radius: 4px; cursor: pointer;">Insert as New Note</button>
+              <button id="accept-review" style="padding: 8px 16px; background: #28a745; color: white; border: none; border-radius: 4px; cursor: pointer;">Apply Selected</button>
+            </div>
+          </div>
+        </div>
+
+        <!-- A note change ChatGPT wants to make from the chat, run only when the user allows it -->
+        <div id="tool-modal" style="display: none; position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.5); z-index: 1000;">
+          <div style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); background: white; padding: 20px; border-radius: 8px; width: 85%; max-height: 85%; display: flex; flex-direction: column;">
+            <h3 id="tool-title" style="margin-top: 0; color: #2c2c2c;">Allow this change?</h3>
+            <p style="margin-top: 0; color: #666666; font-size: 12px;">ChatGPT wants to change your notes. Nothing is written unless you allow it.</p>
+            <pre id="tool-content" class="tool-content"></pre>
+            <div style="margin-top: 20px; text-align: right;">
+              <button id="decline-tool" style="margin-right: 10px; padding: 8px 16px; background: #6c757d; color: white; border: none; border-radius: 4px; cursor: pointer;">Decline</button>
+              <button id="allow-tool" style="padding: 8px 16px; background: #28a745; color: white; border: none; border-radius: 4px; cursor: pointer;">Allow</button>
+            </div>
+          </div>
+        </div>
+
+        <!-- Suggested tags or notebook, applied only when the user approves -->
+        <div id="suggestion-modal" style="display: none; position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.5); z-index: 1000;">
+          <div style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); background: white; padding: 20px; border-radius: 8px; width: 85%; max-height: 85%; display: flex; flex-direction: column;">
+            <h3 id="suggestion-title" style="margin-top: 0; color: #2c2c2c;">Suggestions</h3>
+            <p id="suggestion-hint" style="margin-top: 0; color: #666666; font-size: 12px;"></p>
+            <div id="suggestion-list" class="suggestion-list"></div>
+            <div style="margin-top: 20px; text-align: right;">
+              <button id="dismiss-suggestions" style="margin-right: 10px; padding: 8px 16px; background: #6c757d; color: white; border: none; border-radius: 4px; cursor: pointer;">Dismiss</button>
+              <button id="apply-suggestions" style="padding: 8px 16px; background: #28a745; color: white; border: none; border-radius: 4px; cursor: pointer;">Apply</button>
             </div>
           </div>
         </div>
@@ -1508,6 +6024,118 @@ joplin.plugins.register({
             letter-spacing: -0.01em;
           }
 
+          .session-switcher {
+            flex: 1;
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            margin: 0 12px;
+            min-width: 0;
+          }
+
+          .session-selector,
+          .session-name-input {
+            flex: 1;
+            min-width: 0;
+            padding: 4px 8px;
+            border: 1px solid #4a4a4a;
+            border-radius: 4px;
+            background: #ffffff;
+            color: #2c2c2c;
+            font-size: 12px;
+          }
+
+          .session-name-input {
+            display: none;
+          }
+
+          .session-button {
+            background: transparent;
+            color: #666666;
+            border: 1px solid transparent;
+            font-size: 13px;
+            cursor: pointer;
+            padding: 2px 6px;
+            border-radius: 4px;
+          }
+
+          .session-button:hover:not(:disabled) {
+            background: rgba(0, 0, 0, 0.1);
+            color: #333333;
+          }
+
+          .session-button:disabled,
+          .session-selector:disabled {
+            opacity: 0.5;
+            cursor: default;
+          }
+
+          .diff-view {
+            flex: 1;
+            overflow-y: auto;
+            padding: 12px;
+            background: #f8f9fa;
+            border-radius: 4px;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            font-size: 13px;
+            line-height: 1.5;
+            color: #2c2c2c;
+          }
+
+          .diff-legend {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 8px;
+            font-size: 12px;
+            color: #666666;
+          }
+
+          .diff-toggle-all {
+            margin-left: 6px;
+            padding: 2px 8px;
+            border: 1px solid #4a4a4a;
+            border-radius: 4px;
+            background: #ffffff;
+            font-size: 11px;
+            cursor: pointer;
+          }
+
+          .diff-hunk {
+            cursor: pointer;
+            border-radius: 3px;
+            outline: 1px dashed transparent;
+          }
+
+          .diff-hunk:hover {
+            outline-color: #4a4a4a;
+          }
+
+          /* A rejected hunk keeps the original text: show it plainly and fade the dropped revision */
+          .diff-hunk.rejected .diff-delete {
+            background: transparent;
+            color: inherit;
+            text-decoration: none;
+          }
+
+          .diff-hunk.rejected .diff-insert {
+            opacity: 0.4;
+            text-decoration: line-through;
+          }
+
+          .diff-insert {
+            background: #d4edda;
+            color: #155724;
+          }
+
+          .diff-delete {
+            background: #f8d7da;
+            color: #721c24;
+            text-decoration: line-through;
+          }
+
           .close-button {
             background: transparent;
             color: #666666;
@@ -1577,6 +6205,236 @@ joplin.plugins.register({
             border-bottom: 1px solid #e8e8e8;
           }
 
+          .panel-notice {
+            display: none;
+            align-items: center;
+            justify-content: space-between;
+            gap: 8px;
+            padding: 6px 12px;
+            font-size: 12px;
+            background: #e8f4ea;
+            color: #1e5128;
+            border-bottom: 1px solid #c3e0c8;
+          }
+
+          .panel-notice.error {
+            background: #fdecea;
+            color: #8a1c13;
+            border-bottom-color: #f5c2bd;
+          }
+
+          .panel-notice-close {
+            border: none;
+            background: transparent;
+            color: inherit;
+            font-size: 14px;
+            cursor: pointer;
+          }
+
+          .suggestion-list {
+            overflow-y: auto;
+            font-size: 13px;
+          }
+
+          .suggestion-list label {
+            display: block;
+            padding: 6px 0;
+            cursor: pointer;
+          }
+
+          .suggestion-detail {
+            display: block;
+            margin-left: 22px;
+            color: #666666;
+            font-size: 12px;
+          }
+
+          .attach-files-button {
+            margin-left: auto;
+            padding: 2px 8px;
+            font-size: 12px;
+            background: #ffffff;
+            border: 1px solid #d0d0d0;
+            border-radius: 4px;
+            cursor: pointer;
+          }
+
+          .attachment-list {
+            display: none;
+            flex-wrap: wrap;
+            gap: 6px;
+            padding: 6px 12px;
+            border-top: 1px solid #e0e0e0;
+          }
+
+          .attachment-chip {
+            display: inline-flex;
+            align-items: center;
+            gap: 6px;
+            padding: 2px 6px;
+            font-size: 12px;
+            background: #f0f4fa;
+            border: 1px solid #d6e0ee;
+            border-radius: 4px;
+          }
+
+          .attachment-chip img {
+            width: 40px;
+            height: 40px;
+            object-fit: cover;
+            border-radius: 2px;
+          }
+
+          .attachment-chip button {
+            border: none;
+            background: none;
+            cursor: pointer;
+            color: #666666;
+          }
+
+          .tool-content {
+            flex: 1;
+            overflow-y: auto;
+            margin: 0;
+            padding: 12px;
+            background: #f8f9fa;
+            border-radius: 4px;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            font-size: 13px;
+            line-height: 1.5;
+            color: #2c2c2c;
+          }
+
+          .tool-content:empty {
+            display: none;
+          }
+
+          .batch-progress {
+            display: none;
+            padding: 6px 12px;
+            font-size: 12px;
+            background: #f0f4fa;
+            border-bottom: 1px solid #d6e0ee;
+          }
+
+          .batch-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+          }
+
+          .batch-header strong {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+          }
+
+          .batch-button {
+            padding: 2px 8px;
+            border: 1px solid #c0c8d4;
+            border-radius: 4px;
+            background: #ffffff;
+            font-size: 12px;
+            cursor: pointer;
+          }
+
+          .batch-progress progress {
+            width: 100%;
+            margin: 4px 0;
+          }
+
+          .batch-items {
+            max-height: 120px;
+            overflow-y: auto;
+            margin: 0;
+            padding: 0;
+            list-style: none;
+          }
+
+          .batch-items li {
+            padding: 1px 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+          }
+
+          .batch-items li.failed {
+            color: #8a1c13;
+            white-space: normal;
+          }
+
+          .note-context-bar {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 8px 12px;
+            padding: 8px 20px 0 20px;
+            background: #f5f5f5;
+            border-top: 1px solid #e8e8e8;
+            font-size: 12px;
+            color: #555555;
+          }
+
+          .note-context-toggle {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            cursor: pointer;
+          }
+
+          .note-context-chip {
+            display: none;
+            max-width: 100%;
+            padding: 2px 10px;
+            border-radius: 12px;
+            background: #e3ecf7;
+            color: #1f3b5c;
+            border: 1px solid #bfd1e8;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+          }
+
+          .generated-image {
+            display: block;
+            max-width: 100%;
+            margin-top: 8px;
+            border-radius: 4px;
+          }
+
+          .message-sources {
+            margin-top: 8px;
+            padding-top: 6px;
+            border-top: 1px solid #e0e0e0;
+            font-size: 12px;
+            color: #666666;
+          }
+
+          .note-context-chip.empty {
+            background: #f0f0f0;
+            color: #777777;
+            border-color: #dddddd;
+          }
+
+          .template-actions {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            padding: 0 8px 8px;
+            background: #f5f5f5;
+            border-bottom: 1px solid #e8e8e8;
+          }
+
+          .template-actions:empty {
+            display: none;
+          }
+
+          .template-button {
+            border-style: dashed;
+          }
+
           .action-button {
             padding: 6px 8px;
             border: 1px solid #4a4a4a;
@@ -1719,6 +6577,7 @@ joplin.plugins.register({
           .message-header {
             display: flex;
             justify-content: flex-end;
+            gap: 6px;
             padding: 8px 12px 4px 12px;
             border-bottom: 1px solid #e0e0e0;
           }
@@ -1831,6 +6690,35 @@ joplin.plugins.register({
             box-shadow: 0 1px 2px rgba(0,0,0,0.1);
           }
 
+          .send-actions {
+            display: flex;
+            gap: 8px;
+          }
+
+          .stop-button {
+            display: none;
+            padding: 12px 20px;
+            background: #ffffff;
+            color: #b02a37;
+            border: 1px solid #b02a37;
+            border-radius: 6px;
+            font-size: 14px;
+            font-weight: 600;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            box-shadow: 0 1px 2px rgba(0,0,0,0.1);
+          }
+
+          .stop-button:hover {
+            background: #b02a37;
+            color: #ffffff;
+          }
+
+          .stop-button:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+          }
+
           .send-button {
             padding: 12px 28px;
             background: #4a4a4a;
@@ -1902,6 +6790,41 @@ joplin.plugins.register({
         model: currentModel
       });
       
+      // Refresh the panel's model list when the provider or its credentials change
+      joplin.settings.onChange(async (event: any) => {
+        const providerKeys = [
+          'aiProvider', 'openaiApiKey', 'customBaseUrl', 'customApiKey',
+          'azureEndpoint', 'azureApiKey', 'azureApiVersion', 'azureDeployments', 'anthropicApiKey'
+        ];
+        if (!event.keys.some((key: string) => providerKeys.includes(key))) {
+          return;
+        }
+        try {
+          const provider = await loadProviderFromSettings();
+          const fetchedModels = await fetchAvailableModels(provider);
+          const models = fetchedModels.length > 0 ? fetchedModels : (provider.id === 'openai' ? defaultModels : []);
+          if (models.length === 0) {
+            console.warn('No models available from', provider.label);
+            return;
+          }
+          
+          let model = await joplin.settings.value('openaiModel');
+          if (!models.some(m => m.id === model)) {
+            const generalModel = models.find(m => isGeneralModel(m.id));
+            model = generalModel ? generalModel.id : models[0].id;
+            await joplin.settings.setValue('openaiModel', model);
+          }
+          
+          await joplin.views.panels.postMessage(panel, {
+            type: 'setModelOptions',
+            models: models.map((m, index) => ({ id: m.id, label: formatModelName(m.id, index === 0) })),
+            model: model
+          });
+        } catch (error: any) {
+          console.error('Error refreshing models after provider change:', error);
+        }
+      });
+      
       // Handle action function
       async function handleAction(action: string): Promise<{ success: boolean; message?: string; error?: string }> {
         try {
@@ -1911,7 +6834,7 @@ joplin.plugins.register({
                 return { success: false, error: 'No ChatGPT response to append. Send a message first.' };
               }
               const note = await getCurrentNote();
-              await updateNoteContent(note.id, note.body + '\n\n---\n\n**ChatGPT Response:**\n' + lastChatGPTResponse);
+              await updateNoteContent(note.id, note.body + '\n\n---\n\n**ChatGPT Response:**\n' + lastChatGPTResponse, 'Append response');
               return { success: true, message: 'ChatGPT response appended to note successfully!' };
               
             case 'replaceNote':
@@ -1919,8 +6842,17 @@ joplin.plugins.register({
                 return { success: false, error: 'No ChatGPT response to replace with. Send a message first.' };
               }
               const noteToReplace = await getCurrentNote();
-              await updateNoteContent(noteToReplace.id, lastChatGPTResponse);
-              return { success: true, message: 'Note replaced with ChatGPT response successfully!' };
+              await openReview({
+                title: 'Review Replacement',
+                label: 'ChatGPT',
+                action: 'Replace note',
+                noteId: noteToReplace.id,
+                noteTitle: noteToReplace.title,
+                target: 'note',
+                original: noteToReplace.body,
+                revised: lastChatGPTResponse
+              });
+              return { success: true, message: 'Review the changes, then apply the ones you want.' };
               
             case 'insertAtCursor':
               if (!lastChatGPTResponse) {
@@ -1933,7 +6865,7 @@ joplin.plugins.register({
                   return { success: false, error: 'No note selected. Please select a note first.' };
                 }
                 // Insert the response at the cursor position (replaceSelection works at cursor if no selection)
-                await replaceSelectedText(lastChatGPTResponse);
+                await replaceSelectedText(lastChatGPTResponse, 'Insert response');
                 return { success: true, message: 'ChatGPT response inserted at cursor position successfully!' };
               } catch (error: any) {
                 return { success: false, error: `Error inserting at cursor: ${error.message}` };
@@ -1943,9 +6875,18 @@ joplin.plugins.register({
               if (!lastChatGPTResponse) {
                 return { success: false, error: 'No ChatGPT response to create note with. Send a message first.' };
               }
+              let newNoteTitle = 'ChatGPT Response - ' + new Date().toLocaleString();
+              if (await joplin.settings.value('autoTitleNewNotes')) {
+                try {
+                  newNoteTitle = await chatGPTAPI.generateTitle(lastChatGPTResponse);
+                } catch (error: any) {
+                  // Keep the default title rather than lose the note
+                  console.error('Could not generate a title for the new note:', error);
+                }
+              }
               // Create a new note with the ChatGPT response
               const newNote = await joplin.data.post(['notes'], null, {
-                title: 'ChatGPT Response - ' + new Date().toLocaleString(),
+                title: newNoteTitle,
                 body: lastChatGPTResponse,
                 parent_id: await getCurrentFolderId()
               });
@@ -1955,6 +6896,38 @@ joplin.plugins.register({
               
               return { success: true, message: 'New note created and opened successfully!' };
               
+            case 'exportConversation':
+              const sessionToExport = chatSessions.getActiveSession();
+              if (sessionToExport.messages.length === 0) {
+                return { success: false, error: 'This chat has no messages to export yet.' };
+              }
+              const exportFolderId = await chooseNotebook(`Save the chat "${sessionToExport.name}" (${sessionToExport.messages.length} messages) as a note in:`);
+              if (!exportFolderId) {
+                return { success: true, message: 'Export cancelled.' };
+              }
+              const transcriptNote = await joplin.data.post(['notes'], null, {
+                title: `ChatGPT Chat - ${sessionToExport.name}`,
+                body: formatTranscriptMarkdown(sessionToExport),
+                parent_id: exportFolderId
+              });
+              await joplin.commands.execute('openNote', transcriptNote.id);
+              return { success: true, message: `Chat exported to the note "${transcriptNote.title}".` };
+
+            case 'resumeConversation':
+              const transcriptSource = await getCurrentNote();
+              const importedMessages = parseTranscriptMarkdown(transcriptSource.body);
+              if (importedMessages.length === 0) {
+                return { success: false, error: 'The selected note is not an exported chat. Export a chat first, then open that note to resume it.' };
+              }
+              chatSessions.createSession(transcriptSource.title.replace(/^ChatGPT Chat - /, ''));
+              chatSessions.appendMessages(importedMessages);
+              activateChatSession();
+              await joplin.views.panels.postMessage(panel, {
+                type: 'chatSessionsChanged',
+                ...await getChatSessionState()
+              });
+              return { success: true, message: `Resumed "${transcriptSource.title}" with ${importedMessages.length} messages.` };
+
             case 'copyNoteToPrompt':
               const currentNote = await getCurrentNote();
               // Send the content directly to the webview
@@ -2006,58 +6979,72 @@ joplin.plugins.register({
               // Use ChatGPT to check grammar
               const grammarResponse = await chatGPTAPI.checkGrammar(textToCheck);
               
-              // Show modal with corrected text for user approval
-              await joplin.views.panels.postMessage(panel, {
-                type: 'showGrammarModal',
-                originalText: textToCheck,
-                correctedText: grammarResponse
+              // Show the corrections as a diff for user approval
+              const grammarNote = await getCurrentNote();
+              await openReview({
+                title: 'Grammar Check Results',
+                label: 'Corrected',
+                action: 'Grammar check',
+                noteId: grammarNote.id,
+                noteTitle: grammarNote.title,
+                target: 'selection',
+                original: textToCheck,
+                revised: grammarResponse
               });
               
               return { success: true, message: 'Grammar check completed! Please review the changes.' };
               
             case 'showAbout':
-              // Send comprehensive help information to the chat
+              // Send comprehensive help information to the chat, as markdown like any reply
               await joplin.views.panels.postMessage(panel, {
                 type: 'addMessage',
                 sender: 'assistant',
-                content: `<strong>🤖 ChatGPT Toolkit v1.1.1 - Help & Features</strong><br><br>
-<strong>📋 Action Buttons:</strong><br>
-• <strong>📝 Append</strong> - Appends the AI response to the end of the current note<br>
-• <strong>🔄 Replace</strong> - Replaces the entire current note with the AI response<br>
-• <strong>📍 Insert</strong> - Inserts the AI response at your cursor position in the note<br>
-• <strong>📄 New Note</strong> - Creates a new note with the AI response<br>
-• <strong>📋 Note→Prompt</strong> - Copies the entire current note content to the chat prompt<br>
-• <strong>✂️ Selected→Prompt</strong> - Copies your selected text to the chat prompt<br>
-• <strong>✅ Grammar</strong> - Checks grammar and spelling of selected text with preview<br>
-• <strong>ℹ️ Help</strong> - Shows this help information<br><br>
-<strong>✨ Features:</strong><br>
-• 💬 Interactive chat with conversation history<br>
-• 📝 Copy response to clipboard or Joplin note<br>
-• ✅ Grammar and spelling correction with preview<br>
-• ✂️ Copy selected text to chat prompt<br>
-• 🔒 Secure API key handling<br>
-• 🎨 Professional UI<br>
-• 📚 Conversation history maintains context across exchanges<br><br>
-<strong>🚀 Getting Started:</strong><br>
-1. Set your OpenAI API key in <em>Settings → ChatGPT Toolkit</em><br>
-2. Use the action buttons above or type your questions in the prompt field<br>
-3. Select text in notes to use context-aware features like grammar checking<br>
-4. Press Enter to send messages, or Shift+Enter for a new line<br><br>
-<strong>🛠️ Technical Details:</strong><br>
-• <strong>Models Supported:</strong> GPT-5, GPT-4.1, GPT-4o, o1, o3, o4-mini series<br>
-• <strong>API:</strong> Latest OpenAI API with reasoning support<br>
-• <strong>Security:</strong> Input validation, content sanitization, secure token handling<br>
-• <strong>Performance:</strong> Token-aware history trimming, efficient API calls<br><br>
-<strong>📚 Resources:</strong><br>
-• <a href="https://github.com/ishapiro/joplin-chatgpt-plugin" target="_blank">GitHub Repository</a> - Documentation, issues, updates<br>
-• <a href="https://platform.openai.com/api-keys" target="_blank">Get OpenAI API Key</a><br>
-• <a href="https://github.com/ishapiro/joplin-chatgpt-plugin/issues" target="_blank">Report Issues</a> - Bug reports and feature requests<br>
-• <a href="https://joplinapp.org/plugins/" target="_blank">Joplin Plugin Forum</a> - Community support<br><br>
-<strong>👨‍💻 Developer:</strong> Irv Shapiro / Cogitations, LLC<br>
-<strong>📄 License:</strong> MIT License<br>
-<strong>🏷️ Version:</strong> 1.1.1<br>
-<strong>🏢 Learn about Cogitations, LLC:</strong> <a href="https://cogitations.com" target="_blank">https://cogitations.com</a><br><br>
-<em>Thank you for using ChatGPT Toolkit! ⭐ Star the repo if you find it helpful!</em>`
+                content: `**🤖 ChatGPT Toolkit v1.1.1 - Help & Features**
+
+**📋 Action Buttons:**
+• **📝 Append** - Appends the AI response to the end of the current note
+• **🔄 Replace** - Replaces the entire current note with the AI response
+• **📍 Insert** - Inserts the AI response at your cursor position in the note
+• **📄 New Note** - Creates a new note with the AI response
+• **📋 Note→Prompt** - Copies the entire current note content to the chat prompt
+• **✂️ Selected→Prompt** - Copies your selected text to the chat prompt
+• **✅ Grammar** - Checks grammar and spelling of selected text with preview
+• **ℹ️ Help** - Shows this help information
+• **Use note as context** - Sends the selected note (and optionally its linked notes) with every message
+
+**✨ Features:**
+• 💬 Interactive chat with conversation history
+• 📝 Copy response to clipboard or Joplin note
+• ✅ Grammar and spelling correction with preview
+• ✂️ Copy selected text to chat prompt
+• 🔒 Secure API key handling
+• 🎨 Professional UI
+• 📚 Conversation history maintains context across exchanges
+
+**🚀 Getting Started:**
+1. Set your OpenAI API key in *Settings → ChatGPT Toolkit*
+2. Use the action buttons above or type your questions in the prompt field
+3. Select text in notes to use context-aware features like grammar checking
+4. Press Enter to send messages, or Shift+Enter for a new line
+
+**🛠️ Technical Details:**
+• **Models Supported:** GPT-5, GPT-4.1, GPT-4o, o1, o3, o4-mini series
+• **API:** Latest OpenAI API with reasoning support
+• **Security:** Input validation, content sanitization, secure token handling
+• **Performance:** Token-aware history trimming, efficient API calls
+
+**📚 Resources:**
+• [GitHub Repository](https://github.com/ishapiro/joplin-chatgpt-plugin) - Documentation, issues, updates
+• [Get OpenAI API Key](https://platform.openai.com/api-keys)
+• [Report Issues](https://github.com/ishapiro/joplin-chatgpt-plugin/issues) - Bug reports and feature requests
+• [Joplin Plugin Forum](https://joplinapp.org/plugins/) - Community support
+
+**👨‍💻 Developer:** Irv Shapiro / Cogitations, LLC
+**📄 License:** MIT License
+**🏷️ Version:** 1.1.1
+**🏢 Learn about Cogitations, LLC:** [https://cogitations.com](https://cogitations.com)
+
+*Thank you for using ChatGPT Toolkit! ⭐ Star the repo if you find it helpful!*`
               });
               
               return { success: true, message: 'Help information displayed' };
@@ -2075,12 +7062,83 @@ joplin.plugins.register({
       await joplin.views.panels.onMessage(panel, async (message: WebviewMessage) => {
         try {
           if (message.type === 'sendChatMessage') {
-            const response = await chatGPTAPI.sendMessage(message.message || '');
-            lastChatGPTResponse = response; // Store for later use
-            return { success: true, content: response };
+            const userMessage = message.message || '';
+            const imagePrompt = parseImageCommand(userMessage);
+            if (imagePrompt !== null) {
+              if (!imagePrompt) {
+                return { success: false, error: 'Describe the image after /image, e.g. "/image a watercolor lighthouse at dusk".' };
+              }
+              try {
+                const image = await generateChatImage(imagePrompt);
+                return {
+                  success: true,
+                  content: '',
+                  image: { id: image.id, dataUrl: `data:${image.mimeType};base64,${image.data}`, caption: image.revisedPrompt || image.prompt }
+                };
+              } catch (error: any) {
+                if (error.name !== 'CancelledError') {
+                  throw error;
+                }
+                return { success: true, cancelled: true, content: '' };
+              }
+            }
+            const sentAt = Date.now();
+            const model = await getChatModel();
+            // Pick up edits made to the note since it was attached
+            await refreshNoteContext();
+            const { context, sources } = await buildChatContext(userMessage);
+            const useNoteTools = !!await joplin.settings.value('noteToolsEnabled');
+            const attachments = chatAttachments;
+            try {
+              const response = await chatGPTAPI.sendMessage(userMessage, {
+                context,
+                attachments,
+                ...(useNoteTools ? { tools: NOTE_TOOLS, onToolCall: runNoteTool } : {}),
+                // Push each streamed delta to the panel so the reply renders progressively
+                onDelta: (delta: string) => {
+                  Promise.resolve(joplin.views.panels.postMessage(panel, { type: 'streamDelta', content: delta })).catch((error: any) => {
+                    console.error('Error sending stream delta to webview:', error);
+                  });
+                }
+              });
+              lastChatGPTResponse = response; // Store for later use
+              // Attachments go with one message only
+              if (attachments.length > 0) {
+                chatAttachments = chatAttachments.filter(attachment => !attachments.includes(attachment));
+                await postAttachmentState();
+              }
+              chatSessions.appendMessages([
+                { role: 'user', content: userMessage, timestamp: sentAt },
+                { role: 'assistant', content: response, timestamp: Date.now(), model }
+              ]);
+              return { success: true, content: response, sources };
+            } catch (error: any) {
+              if (error.name !== 'CancelledError') {
+                throw error;
+              }
+              // Keep whatever arrived before the user pressed Stop
+              if (error.partialContent) {
+                lastChatGPTResponse = error.partialContent;
+                chatSessions.appendMessages([
+                  { role: 'user', content: userMessage, timestamp: sentAt },
+                  { role: 'assistant', content: error.partialContent, timestamp: Date.now(), model }
+                ]);
+              }
+              return { success: true, cancelled: true, content: error.partialContent || '' };
+            }
+          } else if (message.type === 'insertGeneratedImage') {
+            return await insertGeneratedImage(message.imageId || '');
+          } else if (message.type === 'cancelChatRequest') {
+            const cancelled = chatGPTAPI.cancelActiveRequest();
+            // A change still waiting for confirmation is declined with the request, and its dialog closed
+            if (pendingToolWrite) {
+              resolveToolWrite(false);
+              await joplin.views.panels.postMessage(panel, { type: 'hideToolConfirmation' });
+            }
+            return { success: true, cancelled };
           } else if (message.type === 'getCurrentModel') {
-            // Return the current model setting
-            const currentModel = await joplin.settings.value('openaiModel') || 'gpt-5.1';
+            // Return the active chat's model
+            const currentModel = await getChatModel() || 'gpt-5.1';
             return { success: true, model: currentModel };
           } else if (message.type === 'updateModel') {
             // Update the model setting
@@ -2089,12 +7147,109 @@ joplin.plugins.register({
             await joplin.settings.setValue('openaiModel', modelToSet || '');
             // Mark as user-set when changed from UI (even if blank, user explicitly chose it)
             await joplin.settings.setValue('openaiModelUserSet', true);
+            // The chosen model replaces the one the chat's persona picked
+            chatSessions.setSessionModel(chatSessions.getActiveSession().id);
+            chatGPTAPI.setModelOverride(null);
             // Reload settings in the API instance
             await chatGPTAPI.loadSettings();
             return { success: true, message: modelToSet ? `Model updated to ${modelToSet}` : 'Model set to auto-select latest' };
           } else if (message.type === 'clearHistory') {
             chatGPTAPI.clearConversationHistory();
+            chatSessions.clearActiveSession();
             return { success: true, message: 'Conversation history cleared' };
+          } else if (message.type === 'getChatSessions') {
+            return await getChatSessionState();
+          } else if (message.type === 'switchChatSession') {
+            chatSessions.switchSession(message.sessionId || '');
+            activateChatSession();
+            return await getChatSessionState();
+          } else if (message.type === 'newChatSession') {
+            // A new chat keeps the current persona and its model
+            const previousSession = chatSessions.getActiveSession();
+            const newSession = chatSessions.createSession(message.name, previousSession.personaId);
+            chatSessions.setSessionModel(newSession.id, previousSession.model);
+            activateChatSession();
+            return await getChatSessionState();
+          } else if (message.type === 'getPersonas') {
+            personas.load();
+            return {
+              success: true,
+              personas: personas.getPersonas().map(persona => ({ id: persona.id, name: persona.name })),
+              activePersonaId: personas.getPersona(chatSessions.getActiveSession().personaId).id
+            };
+          } else if (message.type === 'switchPersona') {
+            const persona = personas.getPersona(message.personaId);
+            const sessionId = chatSessions.getActiveSession().id;
+            chatSessions.setSessionPersona(sessionId, persona.id);
+            // The persona's default model is this chat's model only; the user can still change it
+            chatSessions.setSessionModel(sessionId, persona.model);
+            chatGPTAPI.setPersona(persona);
+            chatGPTAPI.setModelOverride(persona.model || null);
+            return {
+              success: true,
+              personaId: persona.id,
+              model: await getChatModel(),
+              message: `Persona set to ${persona.name}${persona.model ? ` (model ${persona.model})` : ''}.`
+            };
+          } else if (message.type === 'getNoteContext') {
+            return await refreshNoteContext();
+          } else if (message.type === 'setNoteContext') {
+            await joplin.settings.setValue('noteContextEnabled', !!message.enabled);
+            await joplin.settings.setValue('noteContextIncludeLinked', !!message.includeLinked);
+            const startSearch = !!message.searchNotes && !await joplin.settings.value('notesSearchEnabled');
+            await joplin.settings.setValue('notesSearchEnabled', !!message.searchNotes);
+            await joplin.settings.setValue('noteToolsEnabled', !!message.noteTools);
+            if (startSearch) {
+              // The first sync embeds every note, so let it run without holding up the panel
+              updateNotesIndexInBackground();
+            }
+            return await refreshNoteContext();
+          } else if (message.type === 'getAttachments') {
+            return getAttachmentState();
+          } else if (message.type === 'attachNoteResources') {
+            return await attachNoteResources();
+          } else if (message.type === 'addAttachment') {
+            // A pasted image, as a data URL
+            const file = parseDataUrl(message.content || '');
+            if (!file) {
+              return { success: false, error: 'The pasted file could not be read.' };
+            }
+            addChatAttachment(message.name || 'Pasted image', file.mimeType, file.data, file.size);
+            await postAttachmentState();
+            return { success: true };
+          } else if (message.type === 'removeAttachment') {
+            chatAttachments = chatAttachments.filter(attachment => attachment.id !== message.attachmentId);
+            await postAttachmentState();
+            return { success: true };
+          } else if (message.type === 'resolveToolCall') {
+            resolveToolWrite(message.decision === 'allow');
+            return { success: true };
+          } else if (message.type === 'resolveSuggestions') {
+            return await resolveSuggestions(message.acceptedSuggestions || []);
+          } else if (message.type === 'cancelBatch') {
+            if (activeBatch) {
+              activeBatch.cancel();
+            }
+            return { success: true, cancelled: !!activeBatch };
+          } else if (message.type === 'openNote') {
+            await joplin.commands.execute('openNote', message.noteId);
+            return { success: true };
+          } else if (message.type === 'renameChatSession') {
+            chatSessions.renameSession(message.sessionId || '', message.name || '');
+            return await getChatSessionState();
+          } else if (message.type === 'deleteChatSession') {
+            const session = chatSessions.listSessions().find(s => s.id === message.sessionId);
+            if (!session) {
+              return { success: false, error: 'Chat session not found' };
+            }
+            // showMessageBox returns 0 when the user confirms
+            const choice = await joplin.views.dialogs.showMessageBox(`Delete the chat "${session.name}" and its ${session.messageCount} messages? This cannot be undone.`);
+            if (choice !== 0) {
+              return { ...await getChatSessionState(), cancelled: true };
+            }
+            chatSessions.deleteSession(session.id);
+            activateChatSession();
+            return await getChatSessionState();
           } else if (message.type === 'closePanel') {
             // Send a nicely formatted close message to the panel before closing
             await joplin.views.panels.postMessage(actualPanelId, {
@@ -2105,33 +7260,192 @@ joplin.plugins.register({
             // Actually close the panel after user confirms
             await joplin.views.panels.hide(actualPanelId);
             return { success: true, message: 'Panel closed' };
-          } else if (message.type === 'acceptGrammarChanges') {
-            // Replace the selected text with the corrected version
-            if (message.correctedText) {
-              await replaceSelectedText(message.correctedText);
-              
-              // Send confirmation message to the panel
-              await joplin.views.panels.postMessage(panel, {
-                type: 'addMessage',
-                sender: 'system',
-                content: 'Grammar corrections applied successfully!'
-              });
-              
-              return { success: true, message: 'Grammar changes applied' };
+          } else if (message.type === 'resolveReview') {
+            return await resolveReview(message.decision || 'reject', message.acceptedHunks || []);
+          } else if (message.type === 'getPromptTemplates') {
+            promptTemplates.load();
+            return { success: true, templates: promptTemplates.getTemplates() };
+          } else if (message.type === 'runPromptTemplate') {
+            return await runPromptTemplate(message.templateId || '');
+          } else if (message.type === 'executeAction') {
+            return await handleAction(message.action || '');
+          }
+          return { success: false, error: 'Unknown message type' };
+        } catch (error: any) {
+          console.error('Error handling webview message:', error);
+          return { success: false, error: error.message };
+        }
+      });
+      
+      console.info('ChatGPT chat panel created successfully!');
+
+      // ===== PROMPTS NOTEBOOK =====
+      // Load prompts from the notebook before template commands are registered, then follow edits and syncs
+      try {
+        await reloadNotebookPrompts();
+      } catch (error: any) {
+        console.error('Error loading prompts notebook:', error);
+      }
+
+      const reloadNotebookPromptsSafely = async () => {
+        try {
+          await reloadNotebookPrompts();
+        } catch (error: any) {
+          console.error('Error reloading prompts notebook:', error);
+        }
+      };
+
+      await joplin.workspace.onNoteChange(async (event: any) => {
+        if (!promptFolderId) {
+          return;
+        }
+        if (promptNoteIds.has(event.id)) {
+          await reloadNotebookPromptsSafely();
+          return;
+        }
+        // A note created in or moved into the notebook
+        try {
+          const note = await joplin.data.get(['notes', event.id], { fields: ['parent_id'] });
+          if (note.parent_id === promptFolderId) {
+            await reloadNotebookPromptsSafely();
+          }
+        } catch (error: any) {
+          // The note is gone and was not a prompt note
+        }
+      });
+
+      await joplin.workspace.onSyncComplete(async () => {
+        if (await joplin.settings.value('promptSource') === 'notebook') {
+          await reloadNotebookPromptsSafely();
+        }
+      });
+
+      joplin.settings.onChange(async (event: any) => {
+        if (event.keys.includes('promptSource') || event.keys.includes('promptNotebook')) {
+          await reloadNotebookPromptsSafely();
+        }
+      });
+
+      // ===== NOTE CONTEXT =====
+      // Keep the attached note in step with the note selected in Joplin
+      await joplin.workspace.onNoteSelectionChange(async () => {
+        try {
+          await refreshNoteContext();
+        } catch (error: any) {
+          console.error('Error refreshing note context:', error);
+        }
+      });
+
+      // ===== NOTES SEARCH =====
+      // Keep the notes index current while "Search all notes" is on: edited notes are re-embedded once
+      // editing pauses, and anything changed by a sync is picked up after it completes
+      const notesIndexTimers = new Map<string, any>();
+      await joplin.workspace.onNoteChange(async (event: any) => {
+        if (!await joplin.settings.value('notesSearchEnabled')) {
+          return;
+        }
+        clearTimeout(notesIndexTimers.get(event.id));
+        notesIndexTimers.set(event.id, setTimeout(async () => {
+          notesIndexTimers.delete(event.id);
+          let note: IndexableNote;
+          try {
+            note = await joplin.data.get(['notes', event.id], { fields: ['id', 'title', 'body', 'updated_time'] });
+          } catch (error: any) {
+            // Deleted notes can no longer be fetched
+            notesIndex.removeNotes([event.id]);
+            return;
+          }
+          try {
+            await applyNotesSearchBackend();
+            await notesIndex.indexNotes([note]);
+          } catch (error: any) {
+            console.error('Error indexing note for search:', error);
+          }
+        }, 10000));
+      });
+
+      if (await joplin.settings.value('notesSearchEnabled')) {
+        updateNotesIndexInBackground();
+      }
+
+      // A different backend or embedding model starts a new index
+      joplin.settings.onChange(async (event: any) => {
+        if ((event.keys.includes('notesSearchBackend') || event.keys.includes('embeddingModel')) && await joplin.settings.value('notesSearchEnabled')) {
+          updateNotesIndexInBackground();
+        }
+      });
+
+      await joplin.workspace.onSyncComplete(async () => {
+        if (await joplin.settings.value('notesSearchEnabled')) {
+          updateNotesIndexInBackground();
+        }
+      });
+
+      // ===== HOT RELOAD =====
+      // Pick up edits to the prompt files while Joplin is running, and tell the panel what happened
+      async function showPanelNotice(level: 'info' | 'error', content: string): Promise<void> {
+        await joplin.views.panels.postMessage(panel, { type: 'showNotice', level, content });
+      }
+
+      async function reloadDataFile(fileName: string): Promise<void> {
+        const fs = require('fs');
+        const filePath = path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), fileName);
+        try {
+          if (fileName === 'system-prompt.txt') {
+            // Read it here too, so a file that can't be read is reported instead of silently replaced by the default
+            const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+            await chatGPTAPI.reloadSystemPrompt();
+            if (!content.trim()) {
+              await showPanelNotice('error', 'system-prompt.txt is empty or missing, so the built-in system prompt is used.');
+            } else if (promptFolderId) {
+              await showPanelNotice('info', 'system-prompt.txt changed, but the system prompt currently comes from the prompts notebook.');
             } else {
-              return { success: false, error: 'No corrected text provided' };
+              await showPanelNotice('info', 'System prompt reloaded from system-prompt.txt.');
             }
-          } else if (message.type === 'executeAction') {
-            return await handleAction(message.action || '');
+          } else if (fileName === 'personas.json') {
+            personas.load();
+            const loadError = personas.getLoadError();
+            if (loadError) {
+              await showPanelNotice('error', `Could not read personas.json (${loadError}). The previous personas are still in use.`);
+              return;
+            }
+            chatGPTAPI.setPersona(personas.getPersona(chatSessions.getActiveSession().personaId));
+            await joplin.views.panels.postMessage(panel, {
+              type: 'personasChanged',
+              personas: personas.getPersonas().map(persona => ({ id: persona.id, name: persona.name })),
+              activePersonaId: personas.getPersona(chatSessions.getActiveSession().personaId).id
+            });
+            await showPanelNotice('info', 'Personas reloaded from personas.json.');
+          } else if (fileName === 'prompt-templates.json') {
+            promptTemplates.load();
+            const loadError = promptTemplates.getLoadError();
+            if (loadError) {
+              await showPanelNotice('error', `Could not read prompt-templates.json (${loadError}). The previous templates are still in use.`);
+              return;
+            }
+            await joplin.views.panels.postMessage(panel, { type: 'promptTemplatesChanged', templates: promptTemplates.getTemplates() });
+            await showPanelNotice('info', promptFolderId
+              ? 'prompt-templates.json changed, but templates currently come from the prompts notebook.'
+              : 'Prompt templates reloaded from prompt-templates.json.');
           }
-          return { success: false, error: 'Unknown message type' };
         } catch (error: any) {
-          console.error('Error handling webview message:', error);
-          return { success: false, error: error.message };
+          console.error(`Error reloading ${fileName}:`, error);
+          await showPanelNotice('error', `Could not reload ${fileName}: ${error.message}`);
         }
-      });
-      
-      console.info('ChatGPT chat panel created successfully!');
+      }
+
+      try {
+        const promptFileWatcher = new DataFileWatcher(
+          await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'),
+          ['system-prompt.txt', 'personas.json', 'prompt-templates.json'],
+          (fileName) => {
+            reloadDataFile(fileName).catch((error: any) => console.error(`Error reloading ${fileName}:`, error));
+          }
+        );
+        promptFileWatcher.start();
+      } catch (error: any) {
+        console.warn('Could not watch the prompt files for changes; edits will apply after a restart:', error.message);
+      }
 
       // ===== ADDITIONAL COMMANDS SETUP =====
       console.info('Setting up additional ChatGPT commands...');
@@ -2176,6 +7490,21 @@ joplin.plugins.register({
         },
       });
 
+      // Shell command that opens a file in the OS default editor
+      function defaultEditorCommand(filePath: string): string {
+        const os = require('os');
+        const platform = os.platform();
+        if (platform === 'darwin') {
+          // macOS
+          return `open "${filePath}"`;
+        } else if (platform === 'win32') {
+          // Windows
+          return `start "" "${filePath}"`;
+        }
+        // Linux and others
+        return `xdg-open "${filePath}"`;
+      }
+
       // 8. Open System Prompt File
       await joplin.commands.register({
         name: 'openSystemPromptFile',
@@ -2186,7 +7515,6 @@ joplin.plugins.register({
             const fs = require('fs');
             const path = require('path');
             const { exec } = require('child_process');
-            const os = require('os');
             
             // Get plugin data directory
             const dataDir = await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit');
@@ -2194,92 +7522,13 @@ joplin.plugins.register({
             
             // Ensure file exists (create with default if not)
             if (!fs.existsSync(promptFile)) {
-              const defaultPrompt = `*System Prompt (for Joplin + ChatGPT)*
-
-You are an AI Executive Assistant working inside the Joplin note-taking system. You support a busy executive by improving their notes, helping with writing, research, and organization. Always respond in *clear, concise, professional* language and use *Markdown* formatting suitable for Joplin.
-
-Your primary responsibilities:
-
-1.⁠ ⁠*Writing & Editing*
-   - Correct grammar, spelling, punctuation, and awkward phrasing.
-   - Improve clarity, tone, and structure while preserving the original meaning and intent.
-   - Adapt tone to be professional, concise, and executive-ready (e.g., for emails, memos, reports, summaries).
-   - When asked to "polish," "rewrite," or "make this more professional," return an improved version, not commentary, unless explicitly requested.
-   - When appropriate, offer alternative phrasings or bullet-point versions for quick reading.
-
-2.⁠ ⁠*Summarization*
-   - Summarize notes, documents, or conversations into:
-     - *Brief summaries* (2–4 sentences) for quick scanning.
-     - *Executive summaries* with:
-       - Purpose / context  
-       - Key points  
-       - Risks / issues  
-       - Recommended next steps or decisions
-   - Use headings and bullet points where helpful.
-   - If the input is long or unclear, briefly state your assumptions.
-
-3.⁠ ⁠*Research & Analysis*
-   - Research topics on behalf of the executive (within your knowledge cutoff) and provide:
-     - Concise overviews
-     - Key facts, pros/cons, and implications
-     - Actionable recommendations or decision points
-   - Clearly label any uncertain or approximate information.
-   - Suggest how findings might be integrated into existing notes, plans, or documents.
-
-4.⁠ ⁠*Task & Note Structuring*
-   - Help turn unstructured notes into:
-     - Action item lists (with owners, deadlines if given, and status)
-     - Meeting notes (Agenda, Discussion, Decisions, Action Items)
-     - Project outlines (Goals, Scope, Timeline, Risks, Stakeholders)
-   - Propose headings and logical structures that make notes more usable and scannable.
-
-5.⁠ ⁠*Joplin-Friendly Formatting*
-   - Always use *Markdown*:
-     - ⁠ # ⁠ / ⁠ ## ⁠ / ⁠ ### ⁠ for headings
-     - ⁠ - ⁠ or ⁠ 1. ⁠ for lists
-     - Code fences \`\`\` for code or templates where needed
-   - Avoid decorative formatting that doesn't translate well to Markdown.
-   - When providing templates (e.g., for meetings, emails, reports), format them clearly for copy-paste into a Joplin note.
-
-6.⁠ ⁠*Interaction Style*
-   - Be concise and direct; avoid unnecessary fluff.
-   - Ask *brief clarification questions* only when needed to avoid misunderstanding.
-   - Assume time is limited: prioritize clarity, key points, and actionable recommendations.
-   - When the user pastes raw text and does not specify what they want, infer a likely intent (e.g., "summarize," "polish," or "extract action items") and briefly state what you're doing before responding.
-
-7.⁠ ⁠*Confidentiality & Caution*
-   - Treat all content as sensitive executive material.
-   - Avoid making unsupported claims; highlight assumptions and unknowns.
-   - When suggesting decisions, clearly separate *facts, **risks, and **recommendations*.
-
-Default behaviors when the user's request is ambiguous:
-•⁠  ⁠If the text is long → provide an *executive summary* plus a *bullet list of key points*.
-•⁠  ⁠If the text is rough/fragmented → *clean up and structure it*, preserving meaning.
-•⁠  ⁠If the text looks like meeting notes → *extract decisions and action items*.
-
-Always optimize your responses so they are immediately useful to a busy executive reading within Joplin.`;
               if (!fs.existsSync(dataDir)) {
                 fs.mkdirSync(dataDir, { recursive: true });
               }
-              fs.writeFileSync(promptFile, defaultPrompt, 'utf8');
-            }
-            
-            // Open file in default editor based on OS
-            const platform = os.platform();
-            let command: string;
-            
-            if (platform === 'darwin') {
-              // macOS
-              command = `open "${promptFile}"`;
-            } else if (platform === 'win32') {
-              // Windows
-              command = `start "" "${promptFile}"`;
-            } else {
-              // Linux and others
-              command = `xdg-open "${promptFile}"`;
+              fs.writeFileSync(promptFile, DEFAULT_SYSTEM_PROMPT, 'utf8');
             }
             
-            exec(command, (error: any) => {
+            exec(defaultEditorCommand(promptFile), (error: any) => {
               if (error) {
                 console.error('Error opening system prompt file:', error);
                 joplin.views.dialogs.showMessageBox(
@@ -2291,7 +7540,7 @@ Always optimize your responses so they are immediately useful to a busy executiv
                 joplin.views.dialogs.showMessageBox(
                   `System prompt file opened in your default editor.\n\n` +
                   `File location: ${promptFile}\n\n` +
-                  `After editing, reload the plugin to use the new prompt.`
+                  `Saved changes are picked up automatically.`
                 );
               }
             });
@@ -2304,7 +7553,371 @@ Always optimize your responses so they are immediately useful to a busy executiv
         }
       });
 
+      // Run Improve/Summarize on the selection (or the whole note) and open the review modal
+      async function reviewNoteRevision(kind: 'improve' | 'summarize'): Promise<void> {
+        try {
+          const note = await getCurrentNote();
+          const selectedText = await getSelectedText();
+          const target = selectedText && selectedText.trim() !== '' ? 'selection' : 'note';
+          const original = target === 'selection' ? selectedText : note.body;
+          if (!original || original.trim() === '') {
+            await joplin.views.dialogs.showMessageBox('The note is empty. Add some content first.');
+            return;
+          }
+
+          await joplin.views.panels.show(actualPanelId);
+          await joplin.views.panels.postMessage(panel, {
+            type: 'addMessage',
+            sender: 'system',
+            content: `${kind === 'improve' ? 'Improving' : 'Summarizing'} the ${target === 'selection' ? 'selected text' : 'note'}...`
+          });
+
+          const result = kind === 'improve'
+            ? await chatGPTAPI.improveNote(original)
+            : await chatGPTAPI.summarizeNote(original);
+
+          await openReview({
+            title: kind === 'improve' ? 'Review Improvements' : 'Review Summary',
+            label: kind === 'improve' ? 'Improved' : 'Summary',
+            action: kind === 'improve' ? 'Improve note' : 'Summarize note',
+            noteId: note.id,
+            noteTitle: note.title,
+            target,
+            original,
+            revised: result
+          });
+        } catch (error: any) {
+          await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+        }
+      }
+
+      // 9. Improve Note with ChatGPT
+      await joplin.commands.register({
+        name: 'improveNoteWithChatGPT',
+        label: 'Improve Note with ChatGPT',
+        iconName: 'fas fa-magic',
+        execute: async () => {
+          await reviewNoteRevision('improve');
+        },
+      });
+
+      // 10. Summarize Note with ChatGPT
+      await joplin.commands.register({
+        name: 'summarizeNoteWithChatGPT',
+        label: 'Summarize Note with ChatGPT',
+        iconName: 'fas fa-compress-alt',
+        execute: async () => {
+          await reviewNoteRevision('summarize');
+        },
+      });
+
+      // Put back the body saved before the note's most recent ChatGPT edit. The body being replaced is
+      // recorded as a revision of its own, so running the undo again puts it back.
+      async function undoLastChatGPTEdit(): Promise<void> {
+        try {
+          const note = await getCurrentNote();
+          const revision = noteRevisions.listRevisions(note.id)[0];
+          if (!revision) {
+            await joplin.views.dialogs.showMessageBox('There are no ChatGPT edits to undo for this note.');
+            return;
+          }
+          // Selection edits don't record what they left, so those can't be checked either
+          if (revision.result !== (note.body || '')) {
+            const changed = revision.result === undefined
+              ? `Undoing "${revision.action}" will replace the whole note with the version from before that edit, including any changes made since.`
+              : `The note has changed since "${revision.action}". Undoing it will replace the whole note, including those changes, with the version from before the edit.`;
+            const choice = await joplin.views.dialogs.showMessageBox(`${changed}\n\nThe current version is kept in the ChatGPT edit history. Continue?`);
+            if (choice !== 0) {
+              return;
+            }
+          }
+          noteRevisions.takeLatestRevision(note.id);
+          await updateNoteContent(note.id, revision.body, `Undo "${revision.action}"`);
+          console.info(`Undid ChatGPT edit "${revision.action}" on note ${note.id}`);
+        } catch (error: any) {
+          await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+        }
+      }
+
+      // Dialog listing a note's saved revisions (created on first use)
+      let historyDialog: string | null = null;
+      async function showChatGPTEditHistory(): Promise<void> {
+        try {
+          const note = await getCurrentNote();
+          const revisions = noteRevisions.listRevisions(note.id);
+          if (revisions.length === 0) {
+            await joplin.views.dialogs.showMessageBox('There are no ChatGPT edits recorded for this note.');
+            return;
+          }
+
+          if (!historyDialog) {
+            historyDialog = await joplin.views.dialogs.create('chatgptHistoryDialog');
+            await joplin.views.dialogs.setButtons(historyDialog, [
+              { id: 'ok', title: 'Restore' },
+              { id: 'cancel', title: 'Cancel' }
+            ]);
+          }
+
+          const options = revisions.map((revision, index) => `
+            <label style="display: block; margin-bottom: 10px;">
+              <input type="radio" name="revisionId" value="${revision.id}"${index === 0 ? ' checked' : ''}>
+              <strong>${escapeHtml(new Date(revision.timestamp).toLocaleString())}</strong> · before "${escapeHtml(revision.action)}" · ${revision.body.length} characters
+              <pre style="margin: 4px 0 0 22px; padding: 6px; max-height: 80px; overflow: hidden; white-space: pre-wrap; background: #f5f5f5; font-size: 11px;">${escapeHtml(revision.body.slice(0, 300))}</pre>
+            </label>
+          `);
+          await joplin.views.dialogs.setHtml(historyDialog, `
+            <form name="historyForm" style="padding: 10px; font-family: sans-serif; font-size: 13px; max-height: 420px; overflow-y: auto;">
+              <p style="margin-top: 0;">Versions of "${escapeHtml(note.title)}" saved before each ChatGPT edit, newest first. Restoring keeps the current version in this history.</p>
+              ${options.join('')}
+            </form>
+          `);
+
+          const result = await joplin.views.dialogs.open(historyDialog);
+          const revisionId = result.formData?.historyForm?.revisionId;
+          if (result.id !== 'ok' || !revisionId) {
+            return;
+          }
+          const revision = noteRevisions.getRevision(note.id, revisionId);
+          await updateNoteContent(note.id, revision.body, 'Restore revision');
+        } catch (error: any) {
+          await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+        }
+      }
+
+      // 11. Undo Last ChatGPT Edit
+      await joplin.commands.register({
+        name: 'undoChatGPTEdit',
+        label: 'Undo Last ChatGPT Edit',
+        iconName: 'fas fa-undo',
+        execute: async () => {
+          await undoLastChatGPTEdit();
+        },
+      });
+
+      // 12. ChatGPT Edit History
+      await joplin.commands.register({
+        name: 'showChatGPTEditHistory',
+        label: 'Show ChatGPT Edit History for This Note',
+        iconName: 'fas fa-history',
+        execute: async () => {
+          await showChatGPTEditHistory();
+        },
+      });
+
+      // 13. Open Prompt Templates File
+      await joplin.commands.register({
+        name: 'openPromptTemplatesFile',
+        label: 'Open Prompt Templates File',
+        iconName: 'fas fa-list',
+        execute: async () => {
+          const { exec } = require('child_process');
+          const templatesFile = path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'prompt-templates.json');
+          // Recreates the example file if it was deleted
+          promptTemplates.load();
+          exec(defaultEditorCommand(templatesFile), (error: any) => {
+            if (error) {
+              console.error('Error opening prompt templates file:', error);
+            }
+            joplin.views.dialogs.showMessageBox(
+              (error ? `Could not open the prompt templates file. Please open it manually in your text editor.\n\n` : '') +
+              `File location: ${templatesFile}\n\n` +
+              `Each template has a "name", a "prompt" using {{selection}}, {{note.body}}, {{note.title}} or {{date}}, ` +
+              `and a "target": replaceSelection, append, newNote or chat. ` +
+              `Panel buttons update as soon as the file is saved; commands for new templates appear after restarting Joplin.`
+            );
+          });
+        },
+      });
+
+      // 14. Open Personas File
+      await joplin.commands.register({
+        name: 'openPersonasFile',
+        label: 'Open Personas File',
+        iconName: 'fas fa-user-tie',
+        execute: async () => {
+          const { exec } = require('child_process');
+          const personasFile = path.join(await joplin.plugins.dataDir('com.cogitations.chatgpt-toolkit'), 'personas.json');
+          // Recreates the example file if it was deleted
+          personas.load();
+          exec(defaultEditorCommand(personasFile), (error: any) => {
+            if (error) {
+              console.error('Error opening personas file:', error);
+            }
+            joplin.views.dialogs.showMessageBox(
+              (error ? `Could not open the personas file. Please open it manually in your text editor.\n\n` : '') +
+              `File location: ${personasFile}\n\n` +
+              `Each persona has a "name" and a "systemPrompt" (leave it empty to use the regular system prompt), ` +
+              `and optionally a default "model", "reasoningEffort" and "verbosity". ` +
+              `The persona list updates as soon as the file is saved.`
+            );
+          });
+        },
+      });
+
+      // 15. Update Notes Search Index
+      await joplin.commands.register({
+        name: 'updateNotesSearchIndex',
+        label: 'Update Notes Search Index',
+        iconName: 'fas fa-search',
+        execute: async () => {
+          try {
+            const indexed = await syncNotesIndex();
+            await joplin.views.dialogs.showMessageBox(
+              `Notes search index is up to date: ${indexed} notes indexed now, ${notesIndex.noteCount()} in total.\n\n` +
+              `Tick "Search all notes" in the chat panel to use it.`
+            );
+            await refreshNoteContext();
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Could not index notes for search: ${error.message}`);
+          }
+        },
+      });
+
+      // 16. Run ChatGPT on Multiple Notes
+      await joplin.commands.register({
+        name: 'runChatGPTBatch',
+        label: 'Run ChatGPT on Multiple Notes...',
+        iconName: 'fas fa-layer-group',
+        execute: async () => {
+          await showBatchDialog();
+        },
+      });
+
+      // 17. Suggest Tags with ChatGPT
+      await joplin.commands.register({
+        name: 'suggestTagsWithChatGPT',
+        label: 'Suggest Tags with ChatGPT',
+        iconName: 'fas fa-tags',
+        execute: async () => {
+          try {
+            await suggestTagsForNote();
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+          }
+        },
+      });
+
+      // 18. Suggest Notebook with ChatGPT
+      await joplin.commands.register({
+        name: 'suggestNotebookWithChatGPT',
+        label: 'Suggest Notebook with ChatGPT',
+        iconName: 'fas fa-folder-open',
+        execute: async () => {
+          try {
+            await suggestNotebookForNote();
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+          }
+        },
+      });
+
+      // 19. Generate Note Title with ChatGPT
+      await joplin.commands.register({
+        name: 'generateNoteTitleWithChatGPT',
+        label: 'Generate Note Title with ChatGPT',
+        iconName: 'fas fa-heading',
+        execute: async () => {
+          try {
+            await showPanelNotice('info', await generateTitleForNote());
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+          }
+        },
+      });
+
+      // 20. Generate Titles for Untitled Notes (from the notebook context menu the notebook's id is passed in)
+      await joplin.commands.register({
+        name: 'generateTitlesForUntitledNotes',
+        label: 'Generate Titles for Untitled Notes in Notebook',
+        iconName: 'fas fa-heading',
+        execute: async (folderId?: string) => {
+          try {
+            const result = await generateTitlesForNotebook(typeof folderId === 'string' ? folderId : undefined);
+            if (!result.success) {
+              await joplin.views.dialogs.showMessageBox(`Error: ${result.error}`);
+            } else if (result.message) {
+              await joplin.views.dialogs.showMessageBox(result.message);
+            }
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+          }
+        },
+      });
+
+      // 21. Extract Tasks with ChatGPT
+      await joplin.commands.register({
+        name: 'extractTasksWithChatGPT',
+        label: 'Extract Tasks with ChatGPT',
+        iconName: 'fas fa-tasks',
+        execute: async () => {
+          try {
+            await extractTasksFromNote();
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+          }
+        },
+      });
+
+      // 22. Transcribe Attachment with ChatGPT
+      await joplin.commands.register({
+        name: 'transcribeAttachmentWithChatGPT',
+        label: 'Transcribe Attachment with ChatGPT',
+        iconName: 'fas fa-microphone',
+        execute: async () => {
+          try {
+            await transcribeNoteAttachment();
+          } catch (error: any) {
+            await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+          }
+        },
+      });
+
+      // 23. One command per prompt template, so templates can be run from the command palette or given shortcuts.
+      // Commands can't be unregistered, so a template renamed or removed later just reports that it is gone.
+      for (const template of promptTemplates.getTemplates()) {
+        await joplin.commands.register({
+          name: `chatgptTemplate.${template.id}`,
+          label: `ChatGPT Template: ${template.name}`,
+          execute: async () => {
+            try {
+              const result = await runPromptTemplate(template.id);
+              if (!result.success) {
+                await joplin.views.dialogs.showMessageBox(`Error: ${result.error}`);
+              } else if (result.message) {
+                await joplin.views.panels.postMessage(panel, { type: 'addMessage', sender: 'system', content: result.message });
+              }
+            } catch (error: any) {
+              await joplin.views.dialogs.showMessageBox(`Error: ${error.message}`);
+            }
+          },
+        });
+      }
+
       // ===== UI ACCESS SETUP =====
+      // Note menu and editor toolbar entries for the note commands
+      try {
+        await joplin.views.menuItems.create('improveNoteWithChatGPTMenuItem', 'improveNoteWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('summarizeNoteWithChatGPTMenuItem', 'summarizeNoteWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('undoChatGPTEditMenuItem', 'undoChatGPTEdit', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('showChatGPTEditHistoryMenuItem', 'showChatGPTEditHistory', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('suggestTagsWithChatGPTMenuItem', 'suggestTagsWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('suggestNotebookWithChatGPTMenuItem', 'suggestNotebookWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('generateNoteTitleWithChatGPTMenuItem', 'generateNoteTitleWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('extractTasksWithChatGPTMenuItem', 'extractTasksWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('transcribeAttachmentWithChatGPTMenuItem', 'transcribeAttachmentWithChatGPT', MenuItemLocation.Note);
+        await joplin.views.menuItems.create('generateTitlesForUntitledNotesMenuItem', 'generateTitlesForUntitledNotes', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('generateTitlesForUntitledNotesFolderMenuItem', 'generateTitlesForUntitledNotes', MenuItemLocation.FolderContextMenu);
+        await joplin.views.menuItems.create('openPromptTemplatesFileMenuItem', 'openPromptTemplatesFile', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('openPersonasFileMenuItem', 'openPersonasFile', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('updateNotesSearchIndexMenuItem', 'updateNotesSearchIndex', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('runChatGPTBatchMenuItem', 'runChatGPTBatch', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('runChatGPTBatchNoteListMenuItem', 'runChatGPTBatch', MenuItemLocation.NoteListContextMenu);
+        await joplin.views.toolbarButtons.create('improveNoteWithChatGPTButton', 'improveNoteWithChatGPT', ToolbarButtonLocation.EditorToolbar);
+        await joplin.views.toolbarButtons.create('summarizeNoteWithChatGPTButton', 'summarizeNoteWithChatGPT', ToolbarButtonLocation.EditorToolbar);
+      } catch (error: any) {
+        console.warn('Could not add note menu items or toolbar buttons:', error.message);
+      }
+
       // Try to add menu items to Tools menu
       try {
         // Main ChatGPT Toolkit menu item
@@ -5,9 +5,18 @@
   const sendButton = document.getElementById('sendButton');
   const loading = document.getElementById('loading');
 
+  // Model replies and captions are untrusted, so they are escaped before any markup is added
+  function escapeHtml(text) {
+    return String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
   // Simple markdown parser for basic formatting
   function parseMarkdown(text) {
-    return text
+    return escapeHtml(text)
       // Headers
       .replace(/^### (.*$)/gim, '<h3>$1</h3>')
       .replace(/^## (.*$)/gim, '<h2>$1</h2>')
@@ -22,8 +31,10 @@
       .replace(/```([\s\S]*?)```/g, '<pre><code>$1</code></pre>')
       // Inline code
       .replace(/`(.*?)`/g, '<code>$1</code>')
-      // Links
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank">$1</a>')
+      // Links: web, mail and Joplin note links only; anything else stays plain text
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (match, label, url) => (
+        /^(https?:|mailto:|:\/)/i.test(url) ? `<a href="${url}" target="_blank">${label}</a>` : label
+      ))
       // Line breaks
       .replace(/\n/g, '<br>');
   }
@@ -76,6 +87,333 @@
     });
   }
 
+  // Persona selector: the persona belongs to the active chat session
+  const personaSelector = document.getElementById('personaSelector');
+
+  function renderPersonas(state) {
+    if (!personaSelector) return;
+    personaSelector.innerHTML = '';
+    (state.personas || []).forEach((persona) => {
+      const option = document.createElement('option');
+      option.value = persona.id;
+      option.textContent = persona.name;
+      personaSelector.appendChild(option);
+    });
+    personaSelector.value = state.activePersonaId;
+  }
+
+  if (personaSelector) {
+    webviewApi.postMessage({ type: 'getPersonas' }).then((response) => {
+      if (response && response.success) {
+        renderPersonas(response);
+      }
+    }).catch((error) => {
+      console.error('Error loading personas:', error);
+    });
+
+    personaSelector.addEventListener('change', async (event) => {
+      try {
+        const response = await webviewApi.postMessage({
+          type: 'switchPersona',
+          personaId: event.target.value
+        });
+        if (response && response.success) {
+          if (modelSelector && response.model) {
+            modelSelector.value = response.model;
+          }
+          addMessage('system', response.message);
+        } else {
+          addError('Error: ' + (response?.error || 'Could not switch persona'));
+        }
+      } catch (error) {
+        addError('Error: ' + (error && error.message ? error.message : String(error)));
+      }
+    });
+  }
+
+  // Panel notice: info notices fade after a few seconds, errors stay until dismissed
+  const panelNotice = document.getElementById('panelNotice');
+  const panelNoticeText = document.getElementById('panelNoticeText');
+  let panelNoticeTimer = null;
+
+  function showNotice(level, content) {
+    if (!panelNotice || !panelNoticeText) return;
+    clearTimeout(panelNoticeTimer);
+    panelNoticeText.textContent = content;
+    panelNotice.classList.toggle('error', level === 'error');
+    panelNotice.style.display = 'flex';
+    if (level !== 'error') {
+      panelNoticeTimer = setTimeout(() => {
+        panelNotice.style.display = 'none';
+      }, 6000);
+    }
+  }
+
+  const panelNoticeClose = document.getElementById('panelNoticeClose');
+  if (panelNoticeClose) {
+    panelNoticeClose.addEventListener('click', () => {
+      clearTimeout(panelNoticeTimer);
+      panelNotice.style.display = 'none';
+    });
+  }
+
+  // Note-grounded mode: toggles plus a chip naming the attached note and its token cost
+  const noteContextToggle = document.getElementById('noteContextToggle');
+  const noteContextLinkedToggle = document.getElementById('noteContextLinkedToggle');
+  const noteContextChip = document.getElementById('noteContextChip');
+  const notesSearchToggle = document.getElementById('notesSearchToggle');
+  const noteToolsToggle = document.getElementById('noteToolsToggle');
+
+  function renderNoteContext(state) {
+    if (!noteContextToggle || !noteContextLinkedToggle || !noteContextChip) return;
+    noteContextToggle.checked = !!state.enabled;
+    noteContextLinkedToggle.checked = !!state.includeLinked;
+    noteContextLinkedToggle.disabled = !state.enabled;
+    if (notesSearchToggle) {
+      notesSearchToggle.checked = !!state.searchNotes;
+      notesSearchToggle.parentElement.title = state.searchNotes
+        ? `Searching ${state.indexedNotes} indexed notes`
+        : 'Add the best-matching excerpts from all notes, with links to their sources';
+    }
+    if (noteToolsToggle) {
+      noteToolsToggle.checked = !!state.noteTools;
+    }
+    if (!state.enabled) {
+      noteContextChip.style.display = 'none';
+      return;
+    }
+    noteContextChip.style.display = 'inline-block';
+    noteContextChip.classList.toggle('empty', !state.noteTitle);
+    if (!state.noteTitle) {
+      noteContextChip.textContent = 'No note selected';
+      noteContextChip.title = '';
+      return;
+    }
+    const linked = state.linkedCount ? ` + ${state.linkedCount} linked` : '';
+    noteContextChip.textContent = `📎 ${state.noteTitle}${linked} · ~${Number(state.tokens).toLocaleString()} tokens`;
+    noteContextChip.title = `Sent with each message: "${state.noteTitle}"${linked}`;
+  }
+
+  async function updateNoteContext(request) {
+    try {
+      const response = await webviewApi.postMessage(request);
+      if (response && response.success) {
+        renderNoteContext(response);
+      } else {
+        addError('Error: ' + (response?.error || 'Could not attach the note'));
+      }
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  if (noteContextToggle && noteContextLinkedToggle) {
+    updateNoteContext({ type: 'getNoteContext' });
+    const onNoteContextToggle = () => updateNoteContext({
+      type: 'setNoteContext',
+      enabled: noteContextToggle.checked,
+      includeLinked: noteContextLinkedToggle.checked,
+      searchNotes: notesSearchToggle ? notesSearchToggle.checked : false,
+      noteTools: noteToolsToggle ? noteToolsToggle.checked : false
+    });
+    noteContextToggle.addEventListener('change', onNoteContextToggle);
+    noteContextLinkedToggle.addEventListener('change', onNoteContextToggle);
+    if (notesSearchToggle) {
+      notesSearchToggle.addEventListener('change', onNoteContextToggle);
+    }
+    if (noteToolsToggle) {
+      noteToolsToggle.addEventListener('change', onNoteContextToggle);
+    }
+  }
+
+  // Attachments: a chip per queued file (with a thumbnail for images) and a button to drop it
+  const attachmentList = document.getElementById('attachmentList');
+  const attachNoteFilesButton = document.getElementById('attachNoteFilesButton');
+
+  function renderAttachments(attachments) {
+    if (!attachmentList) return;
+    attachmentList.innerHTML = '';
+    attachmentList.style.display = attachments.length > 0 ? 'flex' : 'none';
+    attachments.forEach(attachment => {
+      const chip = document.createElement('span');
+      chip.className = 'attachment-chip';
+      chip.title = `${attachment.name} (${attachment.size})`;
+      if (attachment.preview) {
+        const thumbnail = document.createElement('img');
+        thumbnail.src = attachment.preview;
+        thumbnail.alt = attachment.name;
+        chip.appendChild(thumbnail);
+      } else {
+        chip.appendChild(document.createTextNode('📄'));
+      }
+      chip.appendChild(document.createTextNode(`${attachment.name} · ${attachment.size}`));
+      const remove = document.createElement('button');
+      remove.textContent = '✕';
+      remove.title = 'Remove';
+      remove.addEventListener('click', () => postAttachmentRequest({ type: 'removeAttachment', attachmentId: attachment.id }));
+      chip.appendChild(remove);
+      attachmentList.appendChild(chip);
+    });
+  }
+
+  // The plugin answers with a notice or error and posts the new list itself
+  async function postAttachmentRequest(request) {
+    try {
+      const response = await webviewApi.postMessage(request);
+      if (response && response.success) {
+        if (response.message) {
+          addMessage('system', response.message);
+        }
+      } else {
+        addError('Error: ' + (response?.error || 'Could not attach the file'));
+      }
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  if (attachmentList) {
+    webviewApi.postMessage({ type: 'getAttachments' }).then((response) => {
+      if (response && response.success) {
+        renderAttachments(response.attachments || []);
+      }
+    }).catch((error) => {
+      console.error('Error loading attachments:', error);
+    });
+  }
+  if (attachNoteFilesButton) {
+    attachNoteFilesButton.addEventListener('click', () => postAttachmentRequest({ type: 'attachNoteResources' }));
+  }
+
+  // Links to notes (:/noteId), e.g. cited sources or batch items, open the note in Joplin
+  document.addEventListener('click', (event) => {
+    const link = event.target.closest('a');
+    const href = link ? link.getAttribute('href') || '' : '';
+    if (!href.startsWith(':/')) return;
+    event.preventDefault();
+    webviewApi.postMessage({ type: 'openNote', noteId: href.slice(2).split('#')[0] }).catch((error) => {
+      console.error('Error opening note:', error);
+    });
+  });
+
+  // Batch progress: one line per note, updated as each note finishes
+  const batchProgress = document.getElementById('batchProgress');
+  const batchTitle = document.getElementById('batchTitle');
+  const batchCount = document.getElementById('batchCount');
+  const batchBar = document.getElementById('batchBar');
+  const batchItems = document.getElementById('batchItems');
+  const batchCancelButton = document.getElementById('batchCancelButton');
+  const batchCloseButton = document.getElementById('batchCloseButton');
+  const batchStatusIcons = { pending: '⏳', running: '🔄', done: '✅', failed: '❌', cancelled: '⏹' };
+  let batchStatuses = [];
+
+  function renderBatchItem(index, status, error) {
+    const item = batchItems ? batchItems.children[index] : null;
+    if (!item) return;
+    batchStatuses[index] = status;
+    item.className = status;
+    item.firstChild.textContent = batchStatusIcons[status] + ' ';
+    item.lastChild.textContent = error ? ' ' + error : '';
+    const finished = batchStatuses.filter(itemStatus => itemStatus !== 'pending' && itemStatus !== 'running').length;
+    batchCount.textContent = `${finished} / ${batchStatuses.length}`;
+    batchBar.value = finished;
+  }
+
+  function startBatch(title, items) {
+    if (!batchProgress || !batchItems) return;
+    batchTitle.textContent = title;
+    batchItems.innerHTML = '';
+    batchStatuses = items.map(() => 'pending');
+    items.forEach((batchItem) => {
+      const item = document.createElement('li');
+      const link = document.createElement('a');
+      link.href = ':/' + batchItem.noteId;
+      link.textContent = batchItem.title;
+      item.appendChild(document.createTextNode(''));
+      item.appendChild(link);
+      item.appendChild(document.createTextNode(''));
+      batchItems.appendChild(item);
+    });
+    items.forEach((batchItem, index) => renderBatchItem(index, batchItem.status, batchItem.error));
+    batchBar.max = items.length;
+    batchCancelButton.disabled = false;
+    batchCancelButton.style.display = '';
+    batchCloseButton.style.display = 'none';
+    batchProgress.style.display = 'block';
+  }
+
+  function finishBatch() {
+    if (!batchProgress) return;
+    batchCancelButton.style.display = 'none';
+    batchCloseButton.style.display = '';
+  }
+
+  if (batchCancelButton) {
+    batchCancelButton.addEventListener('click', () => {
+      batchCancelButton.disabled = true;
+      webviewApi.postMessage({ type: 'cancelBatch' }).catch((error) => {
+        console.error('Error cancelling batch:', error);
+      });
+    });
+  }
+
+  if (batchCloseButton) {
+    batchCloseButton.addEventListener('click', () => {
+      batchProgress.style.display = 'none';
+    });
+  }
+
+  // List the notes a reply drew on under the reply
+  function addSources(messageDiv, sources) {
+    if (!messageDiv || !sources || sources.length === 0) return;
+    const sourcesDiv = document.createElement('div');
+    sourcesDiv.className = 'message-sources';
+    sourcesDiv.textContent = 'Sources: ';
+    sources.forEach((source, index) => {
+      const link = document.createElement('a');
+      link.href = ':/' + source.noteId;
+      link.textContent = source.title;
+      sourcesDiv.appendChild(link);
+      if (index < sources.length - 1) {
+        sourcesDiv.appendChild(document.createTextNode(', '));
+      }
+    });
+    messageDiv.appendChild(sourcesDiv);
+    chatMessages.scrollTop = chatMessages.scrollHeight;
+  }
+
+  // Show an image generated with /image, with a button that embeds it in the note
+  function addGeneratedImage(image) {
+    // The caption is the model's revised prompt, shown as plain text rather than markdown
+    const messageDiv = addMessage('assistant', '');
+    messageDiv.dataset.content = image.caption;
+    messageDiv.querySelector('.message-content').textContent = image.caption;
+    const img = document.createElement('img');
+    img.className = 'generated-image';
+    img.src = image.dataUrl;
+    img.alt = image.caption;
+    messageDiv.querySelector('.message-content').appendChild(img);
+
+    const insertButton = document.createElement('button');
+    insertButton.className = 'copy-button';
+    insertButton.textContent = '📍 Insert';
+    insertButton.title = 'Insert the image at the cursor in the current note';
+    insertButton.addEventListener('click', async () => {
+      try {
+        const response = await webviewApi.postMessage({ type: 'insertGeneratedImage', imageId: image.id });
+        if (response && response.success) {
+          addMessage('system', response.message);
+        } else {
+          addError('Error: ' + (response?.error || 'Failed to insert the image'));
+        }
+      } catch (error) {
+        addError('Error: ' + (error && error.message ? error.message : String(error)));
+      }
+    });
+    messageDiv.querySelector('.message-header').appendChild(insertButton);
+    chatMessages.scrollTop = chatMessages.scrollHeight;
+  }
+
   // Auto-resize textarea
   chatInput.addEventListener('input', function() {
     this.style.height = 'auto';
@@ -99,9 +437,51 @@
     }
   });
 
+  // Pasted images are attached to the next message instead of being inserted as text
+  chatInput.addEventListener('paste', (event) => {
+    const files = Array.from(event.clipboardData ? event.clipboardData.items : [])
+      .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+      .map(item => item.getAsFile())
+      .filter(file => !!file);
+    if (files.length === 0) return;
+    event.preventDefault();
+    files.forEach(file => {
+      const reader = new FileReader();
+      reader.onload = () => postAttachmentRequest({ type: 'addAttachment', name: file.name || 'Pasted image', content: reader.result });
+      reader.readAsDataURL(file);
+    });
+  });
+
   // Click to send
   sendButton.addEventListener('click', () => sendMessage());
 
+  // Stop the in-flight request, keeping any partial reply
+  const stopButton = document.getElementById('stopButton');
+  if (stopButton) {
+    stopButton.addEventListener('click', async () => {
+      stopButton.disabled = true;
+      try {
+        await webviewApi.postMessage({
+          type: 'cancelChatRequest'
+        });
+      } catch (error) {
+        console.error('Error cancelling request:', error);
+      }
+    });
+  }
+
+  function setRequestControls(inFlight) {
+    sendButton.disabled = inFlight;
+    // Don't let the conversation change underneath a running request
+    [sessionSelector, newSessionButton, renameSessionButton, deleteSessionButton, personaSelector].forEach((control) => {
+      if (control) control.disabled = inFlight;
+    });
+    if (stopButton) {
+      stopButton.style.display = inFlight ? 'inline-block' : 'none';
+      stopButton.disabled = false;
+    }
+  }
+
   // Clear history button
   const clearHistoryButton = document.getElementById('clearHistoryButton');
   if (clearHistoryButton) {
@@ -140,6 +520,129 @@
     });
   }
 
+  // Chat session switcher
+  const sessionSelector = document.getElementById('sessionSelector');
+  const sessionNameInput = document.getElementById('sessionNameInput');
+  const newSessionButton = document.getElementById('newSessionButton');
+  const renameSessionButton = document.getElementById('renameSessionButton');
+  const deleteSessionButton = document.getElementById('deleteSessionButton');
+  let activeSessionId = '';
+
+  function renderSessionList(state) {
+    activeSessionId = state.activeSessionId;
+    if (!sessionSelector) return;
+    sessionSelector.innerHTML = '';
+    (state.sessions || []).forEach((session) => {
+      const option = document.createElement('option');
+      option.value = session.id;
+      option.textContent = session.name;
+      sessionSelector.appendChild(option);
+    });
+    sessionSelector.value = activeSessionId;
+    if (personaSelector && state.personaId) {
+      personaSelector.value = state.personaId;
+    }
+    // Each chat can have its own model, picked by its persona
+    if (modelSelector && state.model) {
+      modelSelector.value = state.model;
+    }
+  }
+
+  function renderSessionMessages(messages) {
+    chatMessages.innerHTML = '';
+    if (messages.length === 0) {
+      addMessage('system', 'No messages in this chat yet. Start a new conversation!');
+      return;
+    }
+    messages.forEach((message) => addMessage(message.role, message.content));
+  }
+
+  // Send a session request and redraw the switcher (and the transcript, when the active session changed)
+  async function updateSessions(request) {
+    try {
+      const response = await webviewApi.postMessage(request);
+      if (!response || !response.success) {
+        addError('Error: ' + (response?.error || 'Chat session request failed'));
+        if (sessionSelector) sessionSelector.value = activeSessionId;
+        return;
+      }
+      const sessionChanged = response.activeSessionId !== activeSessionId;
+      renderSessionList(response);
+      if (sessionChanged) {
+        renderSessionMessages(response.messages || []);
+      }
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  function showSessionNameInput(show) {
+    if (!sessionSelector || !sessionNameInput) return;
+    sessionSelector.style.display = show ? 'none' : '';
+    sessionNameInput.style.display = show ? 'block' : 'none';
+    if (show) {
+      const option = sessionSelector.options[sessionSelector.selectedIndex];
+      sessionNameInput.value = option ? option.textContent : '';
+      sessionNameInput.focus();
+      sessionNameInput.select();
+    }
+  }
+
+  if (sessionSelector) {
+    sessionSelector.addEventListener('change', () => {
+      updateSessions({ type: 'switchChatSession', sessionId: sessionSelector.value });
+    });
+  }
+
+  if (newSessionButton) {
+    newSessionButton.addEventListener('click', () => updateSessions({ type: 'newChatSession' }));
+  }
+
+  if (renameSessionButton) {
+    renameSessionButton.addEventListener('click', () => showSessionNameInput(true));
+  }
+
+  if (sessionNameInput) {
+    sessionNameInput.addEventListener('keydown', async (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        const name = sessionNameInput.value.trim();
+        showSessionNameInput(false);
+        if (name) {
+          await updateSessions({ type: 'renameChatSession', sessionId: activeSessionId, name: name });
+        }
+      } else if (e.key === 'Escape') {
+        showSessionNameInput(false);
+      }
+    });
+    sessionNameInput.addEventListener('blur', () => showSessionNameInput(false));
+  }
+
+  if (deleteSessionButton) {
+    deleteSessionButton.addEventListener('click', () => {
+      updateSessions({ type: 'deleteChatSession', sessionId: activeSessionId });
+    });
+  }
+
+  // Restore the active session when the panel (re)opens
+  webviewApi.postMessage({
+    type: 'getChatSessions'
+  }).then(response => {
+    if (response && response.success) {
+      renderSessionList(response);
+      // Keep the welcome message for an empty session
+      if (response.messages && response.messages.length > 0) {
+        renderSessionMessages(response.messages);
+      }
+    }
+  }).catch(error => {
+    console.error('Error loading chat sessions:', error);
+  });
+
+  // Assistant message currently being filled in by stream deltas
+  let streamingMessage = null;
+  let requestInFlight = false;
+
   function addMessage(sender, content) {
     const messageDiv = document.createElement('div');
     messageDiv.className = 'message ' + sender;
@@ -156,7 +659,7 @@
       
       copyButton.addEventListener('click', async () => {
         try {
-          await navigator.clipboard.writeText(content);
+          await navigator.clipboard.writeText(messageDiv.dataset.content || '');
           copyButton.innerHTML = '✅ Copied!';
           copyButton.style.background = '#4CAF50';
           setTimeout(() => {
@@ -180,19 +683,39 @@
     
     const contentDiv = document.createElement('div');
     contentDiv.className = 'message-content';
+    messageDiv.appendChild(contentDiv);
+    chatMessages.appendChild(messageDiv);
+    
+    setMessageContent(messageDiv, content);
+    return messageDiv;
+  }
+
+  function setMessageContent(messageDiv, content) {
+    const contentDiv = messageDiv.querySelector('.message-content');
+    messageDiv.dataset.content = content;
     
     // Render markdown for assistant messages, plain text for user messages
-    if (sender === 'assistant') {
+    if (messageDiv.classList.contains('assistant')) {
       contentDiv.innerHTML = parseMarkdown(content);
     } else {
       contentDiv.textContent = content;
     }
     
-    messageDiv.appendChild(contentDiv);
-    chatMessages.appendChild(messageDiv);
     chatMessages.scrollTop = chatMessages.scrollHeight;
   }
 
+  // Append a streamed delta to the in-progress assistant message, creating it on the first delta
+  function appendStreamDelta(delta) {
+    // Ignore deltas that arrive after the final response has been rendered
+    if (!requestInFlight) return;
+    if (!streamingMessage) {
+      showLoading(false);
+      streamingMessage = { element: addMessage('assistant', ''), content: '' };
+    }
+    streamingMessage.content += delta;
+    setMessageContent(streamingMessage.element, streamingMessage.content);
+  }
+
   function addError(message) {
     const errorDiv = document.createElement('div');
     errorDiv.className = 'error';
@@ -223,7 +746,9 @@
     chatInput.style.height = 'auto';
 
     showLoading(true);
-    sendButton.disabled = true;
+    setRequestControls(true);
+    streamingMessage = null;
+    requestInFlight = true;
 
     try {
       // Send message to ChatGPT via plugin using webviewApi
@@ -233,19 +758,77 @@
       });
 
       if (response && response.success) {
-        addMessage('assistant', response.content);
+        // Replace the streamed text with the final content, or add it if nothing was streamed
+        let replyElement = null;
+        if (streamingMessage) {
+          replyElement = streamingMessage.element;
+          setMessageContent(replyElement, response.content);
+        } else if (response.image) {
+          addGeneratedImage(response.image);
+        } else if (response.content) {
+          replyElement = addMessage('assistant', response.content);
+        }
+        addSources(replyElement, response.sources);
+        if (response.cancelled) {
+          addMessage('system', response.content ? 'Response stopped. The partial reply was kept.' : 'Response stopped.');
+        }
       } else {
         addError('Error: ' + (response?.error || 'Failed to get response from ChatGPT'));
       }
     } catch (error) {
       addError('Error: ' + (error && error.message ? error.message : String(error)));
     } finally {
+      requestInFlight = false;
+      streamingMessage = null;
       showLoading(false);
-      sendButton.disabled = false;
+      setRequestControls(false);
       chatInput.focus();
     }
   }
 
+  // Prompt templates: one button each, defined in prompt-templates.json
+  const templateActions = document.getElementById('templateActions');
+
+  function renderPromptTemplates(templates) {
+    templateActions.innerHTML = '';
+    templates.forEach((template) => {
+      const button = document.createElement('button');
+      button.className = 'action-button template-button';
+      button.textContent = template.name;
+      button.title = template.prompt;
+      button.addEventListener('click', () => runPromptTemplate(template.id));
+      templateActions.appendChild(button);
+    });
+  }
+
+  async function runPromptTemplate(templateId) {
+    try {
+      const response = await webviewApi.postMessage({
+        type: 'runPromptTemplate',
+        templateId: templateId
+      });
+      if (response && response.success) {
+        if (response.message) {
+          addMessage('system', response.message);
+        }
+      } else {
+        addError('Error: ' + (response?.error || 'Template failed'));
+      }
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  if (templateActions) {
+    webviewApi.postMessage({ type: 'getPromptTemplates' }).then((response) => {
+      if (response && response.success) {
+        renderPromptTemplates(response.templates || []);
+      }
+    }).catch((error) => {
+      console.error('Error loading prompt templates:', error);
+    });
+  }
+
   async function executeAction(action) {
     try {
       const response = await webviewApi.postMessage({
@@ -298,6 +881,65 @@
         case 'addMessage':
           addMessage(actualMessage.sender, actualMessage.content);
           break;
+        case 'showNotice':
+          showNotice(actualMessage.level, actualMessage.content);
+          break;
+        case 'personasChanged':
+          renderPersonas(actualMessage);
+          break;
+        case 'batchStarted':
+          startBatch(actualMessage.title, actualMessage.items || []);
+          break;
+        case 'batchItemUpdated':
+          renderBatchItem(actualMessage.index, actualMessage.status, actualMessage.error);
+          break;
+        case 'batchFinished':
+          finishBatch();
+          addMessage('system', actualMessage.message);
+          break;
+        case 'attachmentsChanged':
+          renderAttachments(actualMessage.attachments || []);
+          break;
+        case 'noteContextChanged':
+          // Another note was selected, or the attached note was re-read before sending
+          renderNoteContext(actualMessage);
+          break;
+        case 'promptTemplatesChanged':
+          // Templates reloaded, e.g. after an edit in the prompts notebook
+          renderPromptTemplates(actualMessage.templates || []);
+          break;
+        case 'sendPrompt':
+          // A chat-only prompt template, sent as if typed into the input
+          if (requestInFlight) {
+            addError('Wait for the current reply to finish, then run the template again.');
+            break;
+          }
+          chatInput.value = actualMessage.content;
+          sendMessage();
+          break;
+        case 'chatSessionsChanged':
+          // A session was created outside the switcher (e.g. resumed from an exported note)
+          renderSessionList(actualMessage);
+          renderSessionMessages(actualMessage.messages || []);
+          break;
+        case 'streamDelta':
+          appendStreamDelta(actualMessage.content || '');
+          break;
+        case 'setModelOptions':
+          // Rebuild the model list after the provider changed
+          if (modelSelector && Array.isArray(actualMessage.models)) {
+            modelSelector.innerHTML = '';
+            actualMessage.models.forEach((model) => {
+              const option = document.createElement('option');
+              option.value = model.id;
+              option.textContent = model.label || model.id;
+              modelSelector.appendChild(option);
+            });
+            if (actualMessage.model) {
+              modelSelector.value = actualMessage.model;
+            }
+          }
+          break;
         case 'setCurrentModel':
           // Set the model selector to the current model
           if (modelSelector && actualMessage.model) {
@@ -307,8 +949,17 @@
         case 'showCloseMessage':
           showCloseMessage();
           break;
-        case 'showGrammarModal':
-          showGrammarModal(actualMessage.originalText, actualMessage.correctedText);
+        case 'showReviewModal':
+          showReviewModal(actualMessage.title, actualMessage.hunks || []);
+          break;
+        case 'showSuggestions':
+          showSuggestions(actualMessage.kind, actualMessage.title, actualMessage.items || []);
+          break;
+        case 'showToolConfirmation':
+          showToolConfirmation(actualMessage.title, actualMessage.content || '');
+          break;
+        case 'hideToolConfirmation':
+          hideToolConfirmation();
           break;
         default:
           console.info('Unknown message type:', actualMessage.type);
@@ -390,45 +1041,172 @@
     });
   }
 
-  // Grammar modal functions
-  function showGrammarModal(originalText, correctedText) {
-    const modal = document.getElementById('grammar-modal');
-    const correctedTextElement = document.getElementById('corrected-text');
-    
-    // Store the texts for later use (we still need original for replacement)
-    modal.dataset.originalText = originalText;
-    modal.dataset.correctedText = correctedText;
-    
-    // Display only the corrected text (user can see original in Joplin)
-    correctedTextElement.textContent = correctedText;
-    modal.style.display = 'block';
+  // Review modal: word-level diff where each changed hunk can be kept or dropped
+  const rejectedHunks = new Set();
+  let reviewHunks = [];
+
+  function showReviewModal(title, hunks) {
+    const diffView = document.getElementById('review-diff');
+    document.getElementById('review-title').textContent = title || 'Review Changes';
+    reviewHunks = hunks;
+    rejectedHunks.clear();
+    diffView.innerHTML = '';
+    hunks.forEach((hunk, index) => {
+      if (!hunk.changed) {
+        diffView.appendChild(document.createTextNode(hunk.original));
+        return;
+      }
+      const hunkSpan = document.createElement('span');
+      hunkSpan.className = 'diff-hunk';
+      hunkSpan.title = 'Click to keep or drop this change';
+      [['diff-delete', hunk.original], ['diff-insert', hunk.revised]].forEach(([className, text]) => {
+        if (!text) return;
+        const span = document.createElement('span');
+        span.className = className;
+        span.textContent = text;
+        hunkSpan.appendChild(span);
+      });
+      hunkSpan.addEventListener('click', () => {
+        if (rejectedHunks.has(index)) {
+          rejectedHunks.delete(index);
+        } else {
+          rejectedHunks.add(index);
+        }
+        hunkSpan.classList.toggle('rejected', rejectedHunks.has(index));
+        updateReviewCount();
+      });
+      diffView.appendChild(hunkSpan);
+    });
+    updateReviewCount();
+    document.getElementById('review-modal').style.display = 'block';
   }
 
-  function hideGrammarModal() {
-    const modal = document.getElementById('grammar-modal');
-    modal.style.display = 'none';
+  function changedHunkIndexes() {
+    return reviewHunks.map((hunk, index) => (hunk.changed ? index : -1)).filter(index => index !== -1);
   }
 
-  // Grammar modal event listeners
-  document.getElementById('accept-grammar').addEventListener('click', function() {
-    const modal = document.getElementById('grammar-modal');
-    const correctedText = modal.dataset.correctedText;
-    
-    // Send the corrected text back to the plugin
-    webviewApi.postMessage({
-      type: 'acceptGrammarChanges',
-      correctedText: correctedText
+  function updateReviewCount() {
+    const changed = changedHunkIndexes();
+    const accepted = changed.filter(index => !rejectedHunks.has(index)).length;
+    document.getElementById('review-count').textContent = changed.length === 0
+      ? 'No changes'
+      : accepted + ' of ' + changed.length + ' changes selected';
+  }
+
+  function setAllHunks(rejected) {
+    rejectedHunks.clear();
+    if (rejected) {
+      changedHunkIndexes().forEach(index => rejectedHunks.add(index));
+    }
+    document.querySelectorAll('#review-diff .diff-hunk').forEach((hunkSpan) => {
+      hunkSpan.classList.toggle('rejected', rejected);
     });
-    
-    hideGrammarModal();
-  });
+    updateReviewCount();
+  }
 
-  document.getElementById('reject-grammar').addEventListener('click', function() {
-    hideGrammarModal();
-  });
+  async function resolveReview(decision) {
+    document.getElementById('review-modal').style.display = 'none';
+    try {
+      const response = await webviewApi.postMessage({
+        type: 'resolveReview',
+        decision: decision,
+        acceptedHunks: changedHunkIndexes().filter(index => !rejectedHunks.has(index))
+      });
+      if (response && response.success) {
+        if (response.message) {
+          addMessage('system', response.message);
+        }
+      } else {
+        addError('Error: ' + (response?.error || 'Could not apply the changes'));
+      }
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  // Suggestion modal: tags, titles and tasks are ticked off individually, a notebook is picked from the ranked list
+  const suggestionHints = {
+    tags: 'Untick any tag you don\'t want. New tags are created when applied.',
+    notebook: 'Pick the notebook to move the note to.',
+    titles: 'Untick any note you don\'t want renamed.',
+    tasks: 'Untick any task you don\'t want. Each one becomes a to-do that links back to the note.'
+  };
+
+  function showSuggestions(kind, title, items) {
+    const list = document.getElementById('suggestion-list');
+    document.getElementById('suggestion-title').textContent = title || 'Suggestions';
+    document.getElementById('suggestion-hint').textContent = suggestionHints[kind] || '';
+    list.innerHTML = '';
+    items.forEach((item, index) => {
+      const label = document.createElement('label');
+      const input = document.createElement('input');
+      input.type = kind === 'notebook' ? 'radio' : 'checkbox';
+      input.name = 'suggestion';
+      input.value = String(index);
+      input.checked = kind === 'notebook' ? index === 0 : true;
+      label.appendChild(input);
+      label.appendChild(document.createTextNode(' ' + item.label));
+      if (item.detail) {
+        const detail = document.createElement('span');
+        detail.className = 'suggestion-detail';
+        detail.textContent = item.detail;
+        label.appendChild(detail);
+      }
+      list.appendChild(label);
+    });
+    document.getElementById('suggestion-modal').style.display = 'block';
+  }
+
+  async function resolveSuggestions(apply) {
+    document.getElementById('suggestion-modal').style.display = 'none';
+    const accepted = apply
+      ? Array.from(document.querySelectorAll('#suggestion-list input:checked')).map(input => Number(input.value))
+      : [];
+    try {
+      const response = await webviewApi.postMessage({ type: 'resolveSuggestions', acceptedSuggestions: accepted });
+      if (response && response.success) {
+        if (response.message) {
+          addMessage('system', response.message);
+        }
+      } else {
+        addError('Error: ' + (response?.error || 'Could not apply the suggestions'));
+      }
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  // Tool confirmation: a note change ChatGPT wants to make while answering, written only if allowed
+  function showToolConfirmation(title, content) {
+    document.getElementById('tool-title').textContent = title || 'Allow this change?';
+    document.getElementById('tool-content').textContent = content;
+    document.getElementById('tool-modal').style.display = 'block';
+  }
+
+  // Also used when the request is stopped while a change is waiting
+  function hideToolConfirmation() {
+    document.getElementById('tool-modal').style.display = 'none';
+  }
+
+  async function resolveToolCall(allow) {
+    hideToolConfirmation();
+    try {
+      await webviewApi.postMessage({ type: 'resolveToolCall', decision: allow ? 'allow' : 'decline' });
+    } catch (error) {
+      addError('Error: ' + (error && error.message ? error.message : String(error)));
+    }
+  }
+
+  document.getElementById('allow-tool').addEventListener('click', () => resolveToolCall(true));
+  document.getElementById('decline-tool').addEventListener('click', () => resolveToolCall(false));
+
+  document.getElementById('apply-suggestions').addEventListener('click', () => resolveSuggestions(true));
+  document.getElementById('dismiss-suggestions').addEventListener('click', () => resolveSuggestions(false));
 
-  // Make functions available globally for message handling
-  window.showGrammarModal = showGrammarModal;
-  window.hideGrammarModal = hideGrammarModal;
+  document.getElementById('accept-review').addEventListener('click', () => resolveReview('accept'));
+  document.getElementById('reject-review').addEventListener('click', () => resolveReview('reject'));
+  document.getElementById('new-note-review').addEventListener('click', () => resolveReview('newNote'));
+  document.getElementById('review-accept-all').addEventListener('click', () => setAllHunks(false));
+  document.getElementById('review-reject-all').addEventListener('click', () => setAllHunks(true));
 
 })();
\ No newline at end of file
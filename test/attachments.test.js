@@ -0,0 +1,129 @@
+// Tests for sending images and PDFs with chat messages
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { checkAttachment, parseDataUrl, formatByteSize, formatRequestBodyForLog, OpenAIProvider, OpenAICompatibleProvider, AnthropicProvider } = ChatGPTAPI;
+
+const chart = { id: 'r1', name: 'chart.png', mimeType: 'image/png', data: 'iVBORw0KGgo=', size: 8 };
+const report = { id: 'r2', name: 'report.pdf', mimeType: 'application/pdf', data: 'JVBERi0=', size: 5 };
+
+const question = (attachments) => [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'What does this show?', attachments }
+];
+
+describe('Attachment limits', () => {
+  test('should accept images and PDFs within the limits', () => {
+    expect(checkAttachment('chart.png', 'image/png', 1024, 0)).toBeNull();
+    expect(checkAttachment('report.pdf', 'application/pdf', 5 * 1024 * 1024, 4)).toBeNull();
+  });
+
+  test('should explain why a file cannot be attached', () => {
+    expect(checkAttachment('notes.zip', 'application/zip', 10, 0)).toContain('only PNG, JPEG, GIF and WebP images and PDFs');
+    expect(checkAttachment('scan.jpg', 'image/jpeg', 7 * 1024 * 1024, 0)).toBe('"scan.jpg" is too large to attach (7.0 MB; the limit is 5.0 MB).');
+    expect(checkAttachment('sixth.png', 'image/png', 10, 5)).toContain('at most 5 files');
+  });
+
+  test('should read pasted images from data URLs', () => {
+    expect(parseDataUrl('data:image/PNG;base64,iVBORw0KGgo=')).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=', size: 8 });
+    expect(parseDataUrl('data:text/plain,hello')).toBeNull();
+    expect(formatByteSize(300)).toBe('1 KB');
+  });
+});
+
+describe('Attachments per provider', () => {
+  test('should send image_url and file parts on chat completions', () => {
+    const provider = new OpenAIProvider('sk-test1234567890abcdef');
+    const body = provider.buildChatRequestBody({ model: 'gpt-4.1', messages: question([chart, report]), maxTokens: 100, stream: false });
+
+    expect(body.messages[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What does this show?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+        { type: 'file', file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' } }
+      ]
+    });
+  });
+
+  test('should send input_image and input_file items on the Responses API', () => {
+    const provider = new OpenAIProvider('sk-test1234567890abcdef');
+    const body = provider.buildChatRequestBody({ model: 'o3', messages: question([chart, report]), maxTokens: 100, stream: false });
+
+    expect(body.input[1].content).toEqual([
+      { type: 'input_text', text: 'What does this show?' },
+      { type: 'input_image', image_url: 'data:image/png;base64,iVBORw0KGgo=' },
+      { type: 'input_file', filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' }
+    ]);
+  });
+
+  test('should put Anthropic images and documents before the question', () => {
+    const provider = new AnthropicProvider('sk-ant-test-key');
+    const body = provider.buildChatRequestBody({ model: 'claude-sonnet-4-5', messages: question([chart, report]), maxTokens: 100, stream: false });
+
+    expect(body.messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+        { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' } },
+        { type: 'text', text: 'What does this show?' }
+      ]
+    }]);
+  });
+
+  test('should log attachments by type and size only', () => {
+    const messages = question([chart, report]);
+    const logged = [
+      new OpenAIProvider('sk-test1234567890abcdef').buildChatRequestBody({ model: 'gpt-4.1', messages, maxTokens: 100, stream: false }),
+      new OpenAIProvider('sk-test1234567890abcdef').buildChatRequestBody({ model: 'o3', messages, maxTokens: 100, stream: false }),
+      new AnthropicProvider('sk-ant-test-key').buildChatRequestBody({ model: 'claude-sonnet-4-5', messages, maxTokens: 100, stream: false })
+    ].map(formatRequestBodyForLog);
+
+    logged.forEach(text => {
+      expect(text).not.toContain(chart.data);
+      expect(text).not.toContain(report.data);
+      expect(text).toContain('[image/png, 1 KB]');
+      expect(text).toContain('[application/pdf, 1 KB]');
+      expect(text).toContain('What does this show?');
+    });
+  });
+
+  test('should refuse PDFs for OpenAI-compatible servers', () => {
+    const provider = new OpenAICompatibleProvider('', 'http://localhost:11434/v1');
+
+    expect(provider.buildChatRequestBody({ model: 'llava', messages: question([chart]), maxTokens: 100, stream: false }).messages[1].content)
+      .toHaveLength(2);
+    expect(() => provider.buildChatRequestBody({ model: 'llava', messages: question([report]), maxTokens: 100, stream: false }))
+      .toThrow('"report.pdf" can\'t be sent to an OpenAI-compatible server');
+  });
+});
+
+describe('ChatGPTAPI attachments', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+  });
+
+  test('should send attachments with the message but keep only the text in the history', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('A rising line chart.'));
+    const api = new ChatGPTAPI();
+
+    await api.sendMessage('What does this show?', { attachments: [chart] });
+    await api.sendMessage('And now?');
+
+    const first = JSON.parse(global.fetch.mock.calls[0][1].body);
+    expect(first.messages.pop().content[1].type).toBe('image_url');
+    const second = JSON.parse(global.fetch.mock.calls[1][1].body);
+    expect(second.messages.map(message => message.content)).toContain('What does this show?');
+  });
+});
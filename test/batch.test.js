@@ -0,0 +1,206 @@
+// Tests for running ChatGPT over many notes at once
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { BatchRunner, parseRetryAfter } = ChatGPTAPI;
+
+// test/setup.js replaces AbortController with a stub that never aborts
+class TestAbortController {
+  constructor() {
+    this.signal = new EventTarget();
+    this.signal.aborted = false;
+  }
+
+  abort() {
+    if (!this.signal.aborted) {
+      this.signal.aborted = true;
+      this.signal.dispatchEvent(new Event('abort'));
+    }
+  }
+}
+
+const batchItems = (count) => Array.from({ length: count }, (_, index) => ({
+  noteId: `note${index}`,
+  title: `Note ${index}`,
+  status: 'pending',
+  retries: 0
+}));
+
+const rateLimitError = (retryAfterMs) => Object.assign(new Error('OpenAI API error: 429 Too Many Requests.'), { status: 429, retryAfterMs });
+
+describe('BatchRunner', () => {
+  let sleeps;
+  let originalAbortController;
+
+  const createRunner = (options = {}) => new BatchRunner({
+    concurrency: 2,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    sleep: async (ms) => { sleeps.push(ms); },
+    ...options
+  });
+
+  beforeEach(() => {
+    sleeps = [];
+    originalAbortController = global.AbortController;
+    global.AbortController = TestAbortController;
+  });
+
+  afterEach(() => {
+    global.AbortController = originalAbortController;
+  });
+
+  test('should never run more notes at once than the concurrency allows', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const runner = createRunner({ concurrency: 2 });
+
+    const items = await runner.run(batchItems(5), async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await Promise.resolve();
+      await Promise.resolve();
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(items.map(item => item.status)).toEqual(['done', 'done', 'done', 'done', 'done']);
+  });
+
+  test('should wait out Retry-After, retry the note and lower the concurrency on a rate limit', async () => {
+    const attempts = {};
+    const runner = createRunner({ concurrency: 4 });
+
+    const items = await runner.run(batchItems(6), async (item) => {
+      attempts[item.noteId] = (attempts[item.noteId] || 0) + 1;
+      if (item.noteId === 'note0' && attempts.note0 === 1) {
+        throw rateLimitError(3000);
+      }
+    });
+
+    expect(items.every(item => item.status === 'done')).toBe(true);
+    expect(items[0].retries).toBe(1);
+    expect(attempts.note0).toBe(2);
+    expect(sleeps).toContain(3000);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('concurrency 2'));
+  });
+
+  test('should back off exponentially without Retry-After and fail after the last retry', async () => {
+    const runner = createRunner({ concurrency: 1, maxRetries: 2 });
+
+    const [item] = await runner.run(batchItems(1), async () => {
+      throw rateLimitError(undefined);
+    });
+
+    expect(sleeps).toEqual([1000, 2000]);
+    expect(item.status).toBe('failed');
+    expect(item.retries).toBe(2);
+  });
+
+  test('should record a failed note and carry on with the rest', async () => {
+    const updates = [];
+    const runner = createRunner({ onUpdate: (item) => updates.push(`${item.noteId}:${item.status}`) });
+
+    const items = await runner.run(batchItems(3), async (item) => {
+      if (item.noteId === 'note1') {
+        throw new Error('Note is too long');
+      }
+    });
+
+    expect(items.map(item => item.status)).toEqual(['done', 'failed', 'done']);
+    expect(items[1].error).toBe('Note is too long');
+    expect(updates).toContain('note1:failed');
+  });
+
+  test('should wait at most a minute whatever Retry-After asks for', async () => {
+    const runner = createRunner({ concurrency: 1 });
+    let attempts = 0;
+
+    const [item] = await runner.run(batchItems(1), async () => {
+      if (++attempts === 1) {
+        throw rateLimitError(15 * 60 * 1000);
+      }
+    });
+
+    expect(sleeps).toEqual([60000]);
+    expect(item.status).toBe('done');
+  });
+
+  test('should stop waiting out a rate limit as soon as it is cancelled', async () => {
+    const runner = new BatchRunner({ concurrency: 1, maxRetries: 3, baseDelayMs: 1000 });
+
+    const finished = runner.run(batchItems(2), async () => {
+      throw rateLimitError(30000);
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    runner.cancel();
+    const items = await finished;
+
+    expect(items.map(item => item.status)).toEqual(['cancelled', 'cancelled']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test('should mark notes that had not started as cancelled and abort the signal', async () => {
+    const runner = createRunner({ concurrency: 1 });
+
+    const items = await runner.run(batchItems(3), async () => {
+      runner.cancel();
+    });
+
+    expect(runner.signal.aborted).toBe(true);
+    expect(items.map(item => item.status)).toEqual(['done', 'cancelled', 'cancelled']);
+  });
+});
+
+describe('ChatGPTAPI requests for batch jobs', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+  });
+
+  test('should leave the conversation out of stateless requests and not record them', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('Summary'));
+    const api = new ChatGPTAPI();
+    api.setConversationHistory([{ role: 'user', content: 'Earlier question', timestamp: 1 }]);
+
+    const result = await api.summarizeNote('Long note', { stateless: true });
+
+    expect(result).toBe('Summary');
+    const body = JSON.parse(global.fetch.mock.calls[0][1].body);
+    expect(body.messages.map(message => message.content)).not.toContain('Earlier question');
+    expect(api.getConversationHistory()).toEqual([{ role: 'user', content: 'Earlier question' }]);
+  });
+
+  test('should expose the status and Retry-After of a rate-limited request', async () => {
+    const response = createErrorApiResponse(429, 'Too Many Requests');
+    response.headers.get = jest.fn((name) => (name === 'retry-after' ? '7' : 'application/json'));
+    global.fetch.mockResolvedValue(response);
+    const api = new ChatGPTAPI();
+
+    const error = await api.sendMessage('Hello', { stateless: true }).catch(caught => caught);
+
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  test('should read seconds and HTTP dates, ignoring anything else', () => {
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
@@ -27,7 +27,14 @@ global.console = {
 // Mock the Joplin API
 const mockJoplin = {
   settings: {
-    value: jest.fn()
+    value: jest.fn(),
+    setValue: jest.fn()
+  },
+  // Unknown models are reported in a dialog and reset to auto-select
+  views: {
+    dialogs: {
+      showMessageBox: jest.fn()
+    }
   }
 };
 global.joplin = mockJoplin;
@@ -61,7 +68,7 @@ describe('ChatGPTAPI Class', () => {
     test('should initialize with default settings', () => {
       expect(api).toBeDefined();
       expect(api.settings).toBeDefined();
-      expect(api.settings.openaiModel).toBe('gpt-4.1');
+      expect(api.settings.openaiModel).toBe('gpt-5.1');
       expect(api.settings.maxTokens).toBe(1000);
       expect(api.conversationHistory).toEqual([]);
     });
@@ -74,7 +81,6 @@ describe('ChatGPTAPI Class', () => {
       expect(mockJoplin.settings.value).toHaveBeenCalledWith('openaiApiKey');
       expect(mockJoplin.settings.value).toHaveBeenCalledWith('openaiModel');
       expect(mockJoplin.settings.value).toHaveBeenCalledWith('maxTokens');
-      expect(mockJoplin.settings.value).toHaveBeenCalledWith('systemPrompt');
       expect(mockJoplin.settings.value).toHaveBeenCalledWith('autoSave');
       expect(mockJoplin.settings.value).toHaveBeenCalledWith('reasoningEffort');
       expect(mockJoplin.settings.value).toHaveBeenCalledWith('verbosity');
@@ -82,6 +88,8 @@ describe('ChatGPTAPI Class', () => {
       expect(api.settings.openaiApiKey).toBe('sk-test-key-1234567890abcdef');
       expect(api.settings.openaiModel).toBe('gpt-4.1');
       expect(api.settings.maxTokens).toBe(1000);
+      // The system prompt comes from system-prompt.txt, falling back to the built-in one
+      expect(api.settings.systemPrompt).toContain('executive');
     });
   });
 
@@ -282,20 +290,27 @@ describe('ChatGPTAPI Class', () => {
           get: jest.fn(() => 'application/json')
         },
         text: jest.fn().mockResolvedValue(JSON.stringify({
-          choices: [
-            { message: { content: 'Response from o3' } }
+          output: [
+            { type: 'reasoning', summary: [] },
+            { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Response from o3', annotations: [] }] }
           ]
         }))
       };
 
       global.fetch.mockResolvedValue(mockResponse);
 
-      await api.sendMessage('Hello');
+      const result = await api.sendMessage('Hello');
 
+      expect(result).toBe('Response from o3');
       expect(global.fetch).toHaveBeenCalledWith(
         'https://api.openai.com/v1/responses',
         expect.any(Object)
       );
+      const body = JSON.parse(global.fetch.mock.calls[0][1].body);
+      expect(body.max_output_tokens).toBe(1000);
+      expect(body.max_completion_tokens).toBeUndefined();
+      expect(body.reasoning).toEqual({ effort: 'low' });
+      expect(body.reasoning_effort).toBeUndefined();
     });
 
     test('should handle API error responses', async () => {
@@ -405,6 +420,214 @@ describe('ChatGPTAPI Class', () => {
     });
   });
 
+  describe('streaming', () => {
+    // Build a fetch response whose body yields the given SSE chunks
+    const createStreamingResponse = (chunks) => {
+      const encoder = new TextEncoder();
+      let index = 0;
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: {
+          get: jest.fn(() => 'text/event-stream')
+        },
+        body: {
+          getReader: () => ({
+            read: jest.fn(() => Promise.resolve(index < chunks.length
+              ? { done: false, value: encoder.encode(chunks[index++]) }
+              : { done: true, value: undefined }))
+          })
+        }
+      };
+    };
+
+    test('should request a stream and forward deltas when onDelta is given', async () => {
+      global.fetch.mockResolvedValue(createStreamingResponse([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"!"}}]}\n\ndata: [DONE]\n\n'
+      ]));
+      const deltas = [];
+
+      const result = await api.sendMessage('Hi', { onDelta: (delta) => deltas.push(delta) });
+
+      expect(JSON.parse(global.fetch.mock.calls[0][1].body).stream).toBe(true);
+      expect(deltas).toEqual(['Hel', 'lo', '!']);
+      expect(result).toBe('Hello!');
+      expect(api.conversationHistory[1]).toEqual({ role: 'assistant', content: 'Hello!' });
+    });
+
+    test('should handle events split across chunks', async () => {
+      global.fetch.mockResolvedValue(createStreamingResponse([
+        'data: {"choices":[{"delta":{"con',
+        'tent":"Split"}}]}\r\n\r\n',
+        'data: {"type":"response.output_text.delta","delta":" event"}'
+      ]));
+
+      const result = await api.sendMessage('Hi', { onDelta: jest.fn() });
+
+      expect(result).toBe('Split event');
+    });
+
+    test('should surface errors sent inside the stream', async () => {
+      global.fetch.mockResolvedValue(createStreamingResponse([
+        'data: {"error":{"message":"Rate limit reached"}}\n\n'
+      ]));
+
+      await expect(api.sendMessage('Hi', { onDelta: jest.fn() })).rejects.toThrow('Rate limit reached');
+      expect(api.conversationHistory).toEqual([]);
+    });
+
+    test('should not stream when streaming is disabled in settings', async () => {
+      const defaults = mockJoplin.settings.value.getMockImplementation();
+      mockJoplin.settings.value.mockImplementation((key) =>
+        key === 'streamResponses' ? Promise.resolve(false) : defaults(key));
+      global.fetch.mockResolvedValue(createSuccessfulApiResponse('Full reply'));
+      const onDelta = jest.fn();
+
+      const result = await api.sendMessage('Hi', { onDelta });
+
+      expect(JSON.parse(global.fetch.mock.calls[0][1].body).stream).toBe(false);
+      expect(onDelta).not.toHaveBeenCalled();
+      expect(result).toBe('Full reply');
+    });
+  });
+
+  describe('cancelActiveRequest', () => {
+    const abortError = () => {
+      const error = new Error('The operation was aborted');
+      error.name = 'AbortError';
+      return error;
+    };
+
+    test('should return false when nothing is running', () => {
+      expect(api.cancelActiveRequest()).toBe(false);
+    });
+
+    test('should reject with CancelledError and leave no dangling user turn', async () => {
+      global.fetch.mockImplementation(() => {
+        api.cancelActiveRequest();
+        return Promise.reject(abortError());
+      });
+
+      await expect(api.sendMessage('Hello')).rejects.toMatchObject({
+        name: 'CancelledError',
+        partialContent: ''
+      });
+      expect(api.conversationHistory).toEqual([]);
+    });
+
+    test('should keep the partial streamed reply in history', async () => {
+      const encoder = new TextEncoder();
+      const reads = [
+        () => Promise.resolve({ done: false, value: encoder.encode('data: {"choices":[{"delta":{"content":"Partial"}}]}\n\n') }),
+        () => {
+          api.cancelActiveRequest();
+          return Promise.reject(abortError());
+        }
+      ];
+      global.fetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: jest.fn(() => 'text/event-stream') },
+        body: { getReader: () => ({ read: () => reads.shift()() }) }
+      });
+
+      await expect(api.sendMessage('Hello', { onDelta: jest.fn() })).rejects.toMatchObject({
+        name: 'CancelledError',
+        partialContent: 'Partial'
+      });
+      expect(api.conversationHistory).toEqual([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Partial' }
+      ]);
+      expect(api.cancelActiveRequest()).toBe(false);
+    });
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    const compatibleSettings = (overrides = {}) => (key) => {
+      const settings = {
+        'aiProvider': 'openaiCompatible',
+        'customBaseUrl': 'http://localhost:11434/v1/',
+        'customApiKey': '',
+        'openaiModel': 'llama3.1',
+        'maxTokens': 1000,
+        'reasoningEffort': 'low',
+        'verbosity': 'low',
+        ...overrides
+      };
+      return Promise.resolve(settings[key]);
+    };
+
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: jest.fn() },
+      text: jest.fn().mockResolvedValue(JSON.stringify({
+        choices: [{ message: { content: 'Local reply' } }]
+      }))
+    });
+
+    test('should send chat completions to the custom base URL without OpenAI-only parameters', async () => {
+      mockJoplin.settings.value.mockImplementation(compatibleSettings());
+      global.fetch.mockResolvedValue(okResponse());
+
+      const result = await api.sendMessage('Hello');
+
+      expect(result).toBe('Local reply');
+      const [url, request] = global.fetch.mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(request.headers).toEqual({ 'Content-Type': 'application/json' });
+      const body = JSON.parse(request.body);
+      expect(body.model).toBe('llama3.1');
+      expect(body.max_tokens).toBe(1000);
+      expect(body.reasoning_effort).toBeUndefined();
+    });
+
+    test('should send the custom API key as a bearer token when set', async () => {
+      mockJoplin.settings.value.mockImplementation(compatibleSettings({ 'customApiKey': 'local-token' }));
+      global.fetch.mockResolvedValue(okResponse());
+
+      await api.sendMessage('Hello');
+
+      expect(global.fetch.mock.calls[0][1].headers['Authorization']).toBe('Bearer local-token');
+    });
+
+    test('should require a base URL instead of an OpenAI key', async () => {
+      mockJoplin.settings.value.mockImplementation(compatibleSettings({ 'customBaseUrl': '' }));
+
+      await expect(api.sendMessage('Hello')).rejects.toThrow('Custom base URL is not set');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should list every model the server offers except embeddings', async () => {
+      const provider = ChatGPTAPI.createProvider({
+        provider: 'openaiCompatible',
+        customBaseUrl: 'http://localhost:11434/v1',
+        customApiKey: ''
+      });
+      global.fetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          data: [
+            { id: 'llama3.1', created: 2 },
+            { id: 'nomic-embed-text', created: 3 },
+            { id: 'mistral', created: 1 }
+          ]
+        })
+      });
+
+      const models = await provider.listModels();
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:11434/v1/models', expect.any(Object));
+      expect(models.map(model => model.id)).toEqual(['llama3.1', 'mistral']);
+    });
+  });
+
   describe('improveNote', () => {
     test('should call sendMessage with improve prompt', async () => {
       const mockResponse = 'Improved note content';
@@ -413,10 +636,12 @@ describe('ChatGPTAPI Class', () => {
       const result = await api.improveNote('Original note content');
 
       expect(api.sendMessage).toHaveBeenCalledWith(
-        expect.stringContaining('Please improve the following note content')
+        expect.stringContaining('Please improve the following note content'),
+        { stateless: true }
       );
       expect(api.sendMessage).toHaveBeenCalledWith(
-        expect.stringContaining('Original note content')
+        expect.stringContaining('Original note content'),
+        { stateless: true }
       );
       expect(result).toBe(mockResponse);
     });
@@ -430,10 +655,12 @@ describe('ChatGPTAPI Class', () => {
       const result = await api.summarizeNote('Long note content to summarize');
 
       expect(api.sendMessage).toHaveBeenCalledWith(
-        expect.stringContaining('Please provide a concise summary')
+        expect.stringContaining('Please provide a concise summary'),
+        { stateless: true }
       );
       expect(api.sendMessage).toHaveBeenCalledWith(
-        expect.stringContaining('Long note content to summarize')
+        expect.stringContaining('Long note content to summarize'),
+        { stateless: true }
       );
       expect(result).toBe(mockResponse);
     });
@@ -447,10 +674,12 @@ describe('ChatGPTAPI Class', () => {
       const result = await api.checkGrammar('Text with errors');
 
       expect(api.sendMessage).toHaveBeenCalledWith(
-        expect.stringContaining('Please fix any grammar, spelling, and punctuation errors')
+        expect.stringContaining('Please fix any grammar, spelling, and punctuation errors'),
+        { stateless: true }
       );
       expect(api.sendMessage).toHaveBeenCalledWith(
-        expect.stringContaining('Text with errors')
+        expect.stringContaining('Text with errors'),
+        { stateless: true }
       );
       expect(result).toBe(mockResponse);
     });
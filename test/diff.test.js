@@ -0,0 +1,113 @@
+// Tests for the review modal's text diff
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const { diffText, buildDiffHunks, applyDiffHunks, getStaleReviewError } = require('./ChatGPTAPI-standalone.js');
+
+// Rebuild one side of the diff from its segments
+const original = (segments) => segments.filter(s => s.type !== 'insert').map(s => s.text).join('');
+const revised = (segments) => segments.filter(s => s.type !== 'delete').map(s => s.text).join('');
+
+describe('diffText', () => {
+  test('should report identical text as a single equal segment', () => {
+    expect(diffText('one\ntwo\n', 'one\ntwo\n')).toEqual([{ type: 'equal', text: 'one\ntwo\n' }]);
+  });
+
+  test('should mark changed words and keep the rest', () => {
+    const segments = diffText('# Title\nteh draft\nend', '# Title\nthe draft\nend');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: '# Title\n' },
+      { type: 'delete', text: 'teh' },
+      { type: 'insert', text: 'the' },
+      { type: 'equal', text: ' draft\nend' }
+    ]);
+  });
+
+  test('should handle additions and removals at either end', () => {
+    const segments = diffText('b c\n', 'a b\n');
+
+    expect(original(segments)).toBe('b c\n');
+    expect(revised(segments)).toBe('a b\n');
+    expect(segments[segments.length - 1]).toEqual({ type: 'equal', text: '\n' });
+  });
+
+  test('should rebuild both versions exactly from the segments', () => {
+    const before = 'Intro\n\n- one\n- two\n- three\n\nOutro';
+    const after = '## Intro\n\n- one\n- 2\n- three\n- four\n';
+    const segments = diffText(before, after);
+
+    expect(original(segments)).toBe(before);
+    expect(revised(segments)).toBe(after);
+  });
+
+  test('should handle empty input on either side', () => {
+    expect(diffText('', 'new text')).toEqual([{ type: 'insert', text: 'new text' }]);
+    expect(diffText('old text', '')).toEqual([{ type: 'delete', text: 'old text' }]);
+    expect(diffText('', '')).toEqual([]);
+  });
+});
+
+describe('diff hunks', () => {
+  const before = 'The quick brown fox jumps over teh dog.';
+  const after = 'The fast brown fox leaps over the dog.';
+
+  test('should group each edit into its own hunk between unchanged text', () => {
+    const hunks = buildDiffHunks(diffText(before, after));
+
+    expect(hunks.filter(hunk => hunk.changed)).toEqual([
+      { original: 'quick', revised: 'fast', changed: true },
+      { original: 'jumps', revised: 'leaps', changed: true },
+      { original: 'teh', revised: 'the', changed: true }
+    ]);
+  });
+
+  test('should keep a reworded phrase together as one hunk', () => {
+    const hunks = buildDiffHunks(diffText('a very old idea', 'a brand new idea'));
+
+    expect(hunks).toEqual([
+      { original: 'a ', revised: 'a ', changed: false },
+      { original: 'very old', revised: 'brand new', changed: true },
+      { original: ' idea', revised: ' idea', changed: false }
+    ]);
+  });
+
+  test('should apply only the accepted hunks', () => {
+    const hunks = buildDiffHunks(diffText(before, after));
+    const changed = hunks.map((hunk, index) => (hunk.changed ? index : -1)).filter(index => index !== -1);
+
+    expect(applyDiffHunks(hunks, changed)).toBe(after);
+    expect(applyDiffHunks(hunks, [])).toBe(before);
+    expect(applyDiffHunks(hunks, [changed[2]])).toBe('The quick brown fox jumps over the dog.');
+  });
+});
+
+describe('getStaleReviewError', () => {
+  const review = (target) => ({
+    title: 'Grammar Check Results',
+    label: 'Corrected',
+    action: 'Grammar check',
+    noteId: 'note1',
+    noteTitle: 'Draft',
+    target,
+    original: 'teh draft',
+    hunks: buildDiffHunks(diffText('teh draft', 'the draft'))
+  });
+
+  test('should allow applying while the reviewed text is unchanged', () => {
+    expect(getStaleReviewError(review('selection'), 'note1', 'teh draft')).toBeNull();
+    expect(getStaleReviewError(review('note'), 'note1', 'teh draft')).toBeNull();
+  });
+
+  test('should refuse a selection review once the selection or the open note has changed', () => {
+    expect(getStaleReviewError(review('selection'), 'note1', 'teh draft, edited')).toContain('The selection changed');
+    expect(getStaleReviewError(review('selection'), 'note2', 'teh draft')).toContain('The selection changed');
+  });
+
+  test('should refuse a note review once the note has been edited', () => {
+    expect(getStaleReviewError(review('note'), 'note1', 'teh draft\nNew line')).toContain('The note changed');
+  });
+});
@@ -21,7 +21,8 @@ global.console = {
 // Enhanced mock for error testing
 const mockJoplin = {
   settings: {
-    value: jest.fn()
+    value: jest.fn(),
+    setValue: jest.fn()
   },
   workspace: {
     selectedNoteIds: jest.fn()
@@ -0,0 +1,112 @@
+// Tests for generating images with /image in the chat
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { parseImageCommand, OpenAIProvider, AzureOpenAIProvider, AnthropicProvider } = ChatGPTAPI;
+
+const imageResponse = (image) => ({
+  ...createSuccessfulApiResponse(),
+  text: jest.fn().mockResolvedValue(JSON.stringify({ created: 1, data: [image] }))
+});
+
+describe('parseImageCommand', () => {
+  test('should read the prompt after /image', () => {
+    expect(parseImageCommand('/image a watercolor lighthouse at dusk')).toBe('a watercolor lighthouse at dusk');
+    expect(parseImageCommand('  /IMAGE\na lighthouse,\nin watercolor ')).toBe('a lighthouse,\nin watercolor');
+    expect(parseImageCommand('/image')).toBe('');
+  });
+
+  test('should leave other messages alone', () => {
+    expect(parseImageCommand('Describe /image syntax')).toBeNull();
+    expect(parseImageCommand('/images of cats')).toBeNull();
+  });
+});
+
+describe('Image requests per provider', () => {
+  test('should ask DALL·E for base64 and leave gpt-image-1 at its default', () => {
+    const provider = new OpenAIProvider('sk-test1234567890abcdef');
+
+    expect(provider.getImagesEndpoint('gpt-image-1')).toBe('https://api.openai.com/v1/images/generations');
+    expect(provider.buildImageRequestBody('gpt-image-1', 'a lighthouse')).toEqual({ model: 'gpt-image-1', prompt: 'a lighthouse', n: 1, size: '1024x1024' });
+    expect(provider.buildImageRequestBody('dall-e-3', 'a lighthouse').response_format).toBe('b64_json');
+  });
+
+  test('should send Azure requests to the image deployment', () => {
+    const provider = new AzureOpenAIProvider('key', 'https://example.openai.azure.com', '', 'gpt-4o-prod');
+
+    expect(provider.getImagesEndpoint('dalle3-prod')).toBe('https://example.openai.azure.com/openai/deployments/dalle3-prod/images/generations?api-version=2024-10-21');
+    expect(provider.buildImageRequestBody('dalle3-prod', 'a lighthouse')).toEqual({ prompt: 'a lighthouse', n: 1, size: '1024x1024' });
+  });
+
+  test('should offer no image endpoint for Anthropic', () => {
+    expect(new AnthropicProvider('sk-ant-test-key').getImagesEndpoint('gpt-image-1')).toBeNull();
+  });
+});
+
+describe('ChatGPTAPI.generateImage', () => {
+  const useSettings = (settings) => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      ...settings
+    }[key]));
+  };
+
+  beforeEach(() => {
+    useSettings({});
+  });
+
+  test('should return the base64 image without touching the chat history', async () => {
+    useSettings({ imageModel: 'dall-e-3' });
+    global.fetch.mockResolvedValue(imageResponse({ b64_json: 'iVBORw0KGgo=', revised_prompt: 'A watercolor lighthouse at dusk.' }));
+    const api = new ChatGPTAPI();
+
+    const image = await api.generateImage('a lighthouse');
+
+    expect(image).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=', revisedPrompt: 'A watercolor lighthouse at dusk.' });
+    const [url, options] = global.fetch.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/images/generations');
+    expect(JSON.parse(options.body).model).toBe('dall-e-3');
+    expect(api.getConversationHistory()).toEqual([]);
+  });
+
+  test('should download the image when the server only returns a link', async () => {
+    global.fetch
+      .mockResolvedValueOnce(imageResponse({ url: 'https://images.example.com/lighthouse.webp' }))
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => 'image/webp' },
+        arrayBuffer: jest.fn().mockResolvedValue(Uint8Array.from([1, 2, 3]).buffer)
+      });
+    const api = new ChatGPTAPI();
+
+    const image = await api.generateImage('a lighthouse');
+
+    expect(global.fetch.mock.calls[1][0]).toBe('https://images.example.com/lighthouse.webp');
+    expect(image).toEqual({ mimeType: 'image/webp', data: 'AQID', revisedPrompt: '' });
+  });
+
+  test('should stop when the chat request is cancelled', async () => {
+    const api = new ChatGPTAPI();
+    global.fetch.mockImplementation(() => {
+      api.cancelActiveRequest();
+      return Promise.reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+    });
+
+    await expect(api.generateImage('a lighthouse')).rejects.toMatchObject({ name: 'CancelledError' });
+  });
+
+  test('should explain that Anthropic cannot generate images', async () => {
+    useSettings({ aiProvider: 'anthropic', anthropicApiKey: 'sk-ant-test-key' });
+    const api = new ChatGPTAPI();
+
+    await expect(api.generateImage('a lighthouse')).rejects.toThrow("Anthropic can't generate images");
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
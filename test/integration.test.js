@@ -442,19 +442,6 @@ describe('Plugin Integration Tests', () => {
       expect(mockJoplin.commands.execute).toHaveBeenCalledWith('openNote', 'new-note-456');
     });
 
-    test('should handle acceptGrammarChanges', async () => {
-      const response = await panelMessageHandler({
-        type: 'acceptGrammarChanges',
-        correctedText: 'Corrected text here'
-      });
-
-      expect(response.success).toBe(true);
-      expect(mockJoplin.commands.execute).toHaveBeenCalledWith(
-        'replaceSelection',
-        'Corrected text here'
-      );
-    });
-
     test('should handle unknown message type', async () => {
       const response = await panelMessageHandler({
         type: 'unknownType'
@@ -0,0 +1,103 @@
+// Tests for the local keyword (BM25) notes search backend, using the fixture notes
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+const fixtureNotes = require('./fixtures/notes.json');
+
+const { NotesIndexStore, KeywordSearchBackend, EmbeddingsSearchBackend, createNotesSearchBackend, tokenizeForSearch } = ChatGPTAPI;
+
+const idOf = (title) => fixtureNotes.find(note => note.title === title).id;
+
+describe('tokenizeForSearch', () => {
+  test('should lower-case words in any script and drop stop words', () => {
+    expect(tokenizeForSearch('What is the Hébergement budget for Q3?')).toEqual(['hébergement', 'budget', 'q3']);
+  });
+});
+
+describe('Keyword notes search', () => {
+  let dataDir;
+  let indexFile;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-keyword-index-'));
+    indexFile = path.join(dataDir, 'notes-index.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const indexFixtures = async () => {
+    const store = new NotesIndexStore(indexFile);
+    store.load();
+    store.setBackend(new KeywordSearchBackend());
+    await store.indexNotes(fixtureNotes);
+    return store;
+  };
+
+  test('should rank the note that answers the question first', async () => {
+    const store = await indexFixtures();
+
+    const [budget] = await store.search('How much was the marketing budget cut?', 3);
+    const [hiring] = await store.search('who runs the interviews for engineers', 3);
+    const [importer] = await store.search('ENEX importer milestone', 3);
+
+    expect(budget.noteId).toBe(idOf('Q3 Budget Review'));
+    expect(hiring.noteId).toBe(idOf('Hiring Plan 2025'));
+    expect(importer.noteId).toBe(idOf('Importer Roadmap'));
+  });
+
+  test('should return nothing when no note shares a word with the query', async () => {
+    const store = await indexFixtures();
+
+    expect(await store.search('quarterly sailing regatta', 5)).toEqual([]);
+  });
+
+  test('should work without any network access', async () => {
+    const store = await indexFixtures();
+
+    await store.search('hébergement remise', 5);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('should reload from disk and follow edits to a note', async () => {
+    await indexFixtures();
+    const store = new NotesIndexStore(indexFile);
+    store.load();
+    store.setBackend(new KeywordSearchBackend());
+    const garden = fixtureNotes.find(note => note.title === 'Garden');
+
+    expect(store.noteCount()).toBe(fixtureNotes.length);
+    await store.indexNotes([{ ...garden, body: 'Compost the tomatoes; the greenhouse budget is spent.', updated_time: garden.updated_time + 1 }]);
+
+    const results = await store.search('greenhouse', 5);
+    expect(results.map(result => result.noteId)).toEqual([garden.id]);
+  });
+
+  test('should rebuild when switching between keyword and embeddings backends', async () => {
+    const store = await indexFixtures();
+
+    store.setBackend(new EmbeddingsSearchBackend('text-embedding-3-small', jest.fn()));
+
+    expect(store.noteCount()).toBe(0);
+  });
+});
+
+describe('createNotesSearchBackend', () => {
+  test('should build the backend named in settings, defaulting to embeddings', () => {
+    const embed = jest.fn();
+
+    expect(createNotesSearchBackend('keyword', '', embed).key).toBe('keyword');
+    expect(createNotesSearchBackend('embeddings', 'nomic-embed-text', embed).key).toBe('embeddings:nomic-embed-text');
+    expect(createNotesSearchBackend(undefined, '', embed).key).toBe('embeddings:text-embedding-3-small');
+  });
+});
@@ -0,0 +1,91 @@
+// Local HTTP server standing in for provider APIs (Azure OpenAI, Anthropic, ...)
+const http = require('http');
+
+// Start a server on a free port. `routes` maps "METHOD /path" to a handler
+// (req, body, res) => void; every request is recorded in `server.requests`.
+function startProviderServer(routes) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://localhost');
+      const body = raw ? JSON.parse(raw) : null;
+      requests.push({ method: req.method, path: url.pathname, query: url.searchParams, headers: req.headers, body });
+      const handler = routes[`${req.method} ${url.pathname}`];
+      if (!handler) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${url.pathname}` } }));
+        return;
+      }
+      handler(req, body, res);
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address();
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(done => server.close(done))
+      });
+    });
+  });
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+// Write server-sent events in separate chunks, the way a real stream arrives
+function sendEvents(res, events) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) {
+    res.write(event + '\n\n');
+  }
+  res.end();
+}
+
+// Minimal fetch over node's http module, since test/setup.js replaces global.fetch with a mock
+function httpFetch(url, options = {}) {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: options.method || 'GET', headers: options.headers }, res => {
+      const iterator = res[Symbol.asyncIterator]();
+      let text = null;
+      const readText = async () => {
+        if (text === null) {
+          text = '';
+          for await (const chunk of { [Symbol.asyncIterator]: () => iterator }) {
+            text += chunk;
+          }
+        }
+        return text;
+      };
+      resolve({
+        ok: res.statusCode >= 200 && res.statusCode < 300,
+        status: res.statusCode,
+        statusText: res.statusMessage,
+        headers: { get: name => res.headers[name.toLowerCase()] || null },
+        text: readText,
+        json: async () => JSON.parse(await readText()),
+        body: {
+          getReader: () => ({
+            read: async () => {
+              const { done, value } = await iterator.next();
+              return done ? { done: true } : { done: false, value: new Uint8Array(value) };
+            }
+          })
+        }
+      });
+    });
+    req.on('error', reject);
+    if (options.body) {
+      req.write(options.body);
+    }
+    req.end();
+  });
+}
+
+module.exports = { startProviderServer, sendJson, sendEvents, httpFetch };
@@ -0,0 +1,70 @@
+// Tests for note-grounded chat
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { extractLinkedNoteIds, formatNoteContext, estimateTokenCount } = ChatGPTAPI;
+
+const NOTE_A = '0123456789abcdef0123456789abcdef';
+const NOTE_B = 'fedcba9876543210fedcba9876543210';
+
+describe('extractLinkedNoteIds', () => {
+  test('should find each linked id once, in order', () => {
+    const body = `See [plan](:/${NOTE_B}), ![chart](:/${NOTE_A}) and [plan again](:/${NOTE_B}#goals).`;
+
+    expect(extractLinkedNoteIds(body)).toEqual([NOTE_B, NOTE_A]);
+  });
+
+  test('should ignore ordinary links and malformed ids', () => {
+    expect(extractLinkedNoteIds('[site](https://example.com) [short](:/0123abc)')).toEqual([]);
+  });
+});
+
+describe('formatNoteContext', () => {
+  test('should include the note and its linked notes under headings', () => {
+    const context = formatNoteContext({
+      note: { id: NOTE_A, title: 'Q3 plan', body: 'Ship the importer.' },
+      linkedNotes: [{ id: NOTE_B, title: '', body: 'Importer spec.' }]
+    });
+
+    expect(context).toContain('## Current note: Q3 plan\n\nShip the importer.');
+    expect(context).toContain('## Linked note: Untitled\n\nImporter spec.');
+    expect(estimateTokenCount(context)).toBe(Math.ceil(context.length / 4));
+  });
+});
+
+describe('ChatGPTAPI with note context', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+    global.fetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: jest.fn(() => 'application/json') },
+      text: jest.fn().mockResolvedValue(JSON.stringify({ choices: [{ message: { content: 'Done' } }] }))
+    });
+  });
+
+  test('should send the context with the request but keep it out of the history', async () => {
+    const api = new ChatGPTAPI();
+
+    await api.sendMessage('What is left to do?', { context: 'NOTE CONTEXT' });
+    await api.sendMessage('And after that?');
+
+    const first = JSON.parse(global.fetch.mock.calls[0][1].body);
+    const second = JSON.parse(global.fetch.mock.calls[1][1].body);
+    expect(first.messages[1]).toEqual({ role: 'system', content: 'NOTE CONTEXT' });
+    expect(second.messages.map(message => message.content)).not.toContain('NOTE CONTEXT');
+    expect(api.getConversationHistory()[0]).toEqual({ role: 'user', content: 'What is left to do?' });
+  });
+});
@@ -0,0 +1,169 @@
+// Tests for searching all notes with embeddings
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { chunkNoteText, NotesIndexStore, EmbeddingsSearchBackend, formatRetrievedContext, uniqueSources } = ChatGPTAPI;
+
+// Stand-in for an embeddings API: one dimension per vocabulary word
+const VOCABULARY = ['budget', 'hiring', 'roadmap', 'garden'];
+const fakeEmbed = jest.fn(async (inputs) => inputs.map(text => VOCABULARY.map(word => (text.toLowerCase().includes(word) ? 1 : 0))));
+
+const note = (id, title, body, updatedTime = 1) => ({ id, title, body, updated_time: updatedTime });
+
+describe('chunkNoteText', () => {
+  test('should keep paragraphs whole and prefix every chunk with the title', () => {
+    const body = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].join('\n\n');
+
+    const chunks = chunkNoteText('Plan', body, 100);
+
+    expect(chunks).toEqual([
+      `# Plan\n\n${'a'.repeat(40)}\n\n${'b'.repeat(40)}`,
+      `# Plan\n\n${'c'.repeat(40)}`
+    ]);
+  });
+
+  test('should cut a paragraph that is longer than a chunk', () => {
+    const chunks = chunkNoteText('Log', 'x'.repeat(250), 100);
+
+    expect(chunks).toHaveLength(3);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(100));
+  });
+});
+
+describe('NotesIndexStore', () => {
+  let dataDir;
+  let indexFile;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-notes-index-'));
+    indexFile = path.join(dataDir, 'notes-index.json');
+    fakeEmbed.mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const loadStore = () => {
+    const store = new NotesIndexStore(indexFile);
+    store.load();
+    store.setBackend(new EmbeddingsSearchBackend('text-embedding-3-small', fakeEmbed));
+    return store;
+  };
+
+  test('should return the best-matching chunks across notes', async () => {
+    const store = loadStore();
+    await store.indexNotes([
+      note('n1', 'Q3 Budget', 'The budget is approved.'),
+      note('n2', 'Hiring', 'Two engineers to hire.'),
+      note('n3', 'Garden', 'Plant tomatoes.')
+    ]);
+
+    const results = await store.search('What did we decide about the budget?', 2);
+
+    expect(results[0]).toMatchObject({ noteId: 'n1', title: 'Q3 Budget' });
+    // Chunks with nothing in common with the query are left out
+    expect(results).toHaveLength(1);
+  });
+
+  test('should only re-embed notes that changed, and drop deleted ones', async () => {
+    const store = loadStore();
+    await store.indexNotes([note('n1', 'Budget', 'v1', 1), note('n2', 'Hiring', 'v1', 1)]);
+    fakeEmbed.mockClear();
+
+    const reloaded = loadStore();
+    const stale = reloaded.findStaleNotes([{ id: 'n1', updated_time: 2 }, { id: 'n3', updated_time: 1 }]);
+    reloaded.removeNotes(stale.removed);
+    const indexed = await reloaded.indexNotes([note('n1', 'Budget', 'v2', 2), note('n3', 'Roadmap', 'v1', 1)]);
+
+    expect(stale).toEqual({ changed: ['n1', 'n3'], removed: ['n2'] });
+    expect(indexed).toBe(2);
+    expect(fakeEmbed).toHaveBeenCalledTimes(1);
+    expect(reloaded.noteCount()).toBe(2);
+  });
+
+  test('should start over when the embedding model changes', async () => {
+    const store = loadStore();
+    await store.indexNotes([note('n1', 'Budget', 'v1')]);
+
+    store.setBackend(new EmbeddingsSearchBackend('nomic-embed-text', fakeEmbed));
+
+    expect(store.noteCount()).toBe(0);
+    expect(await store.search('budget', 5)).toEqual([]);
+  });
+});
+
+describe('Retrieved context', () => {
+  test('should link every excerpt to its note and list each source once', () => {
+    const results = [
+      { noteId: 'aaa', title: 'Budget', text: 'Approved.', score: 0.9 },
+      { noteId: 'aaa', title: 'Budget', text: 'Revised.', score: 0.8 },
+      { noteId: 'bbb', title: '', text: 'Untitled excerpt.', score: 0.5 }
+    ];
+
+    expect(formatRetrievedContext(results)).toContain('## [Budget](:/aaa)\n\nApproved.');
+    expect(uniqueSources(results)).toEqual([{ noteId: 'aaa', title: 'Budget' }, { noteId: 'bbb', title: 'Untitled' }]);
+  });
+});
+
+describe('ChatGPTAPI.embed', () => {
+  const useSettings = (settings) => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      ...settings
+    }[key]));
+  };
+
+  test('should return vectors in input order from the embeddings endpoint', async () => {
+    useSettings({ embeddingModel: 'text-embedding-3-large' });
+    global.fetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: jest.fn(() => 'application/json') },
+      text: jest.fn().mockResolvedValue(JSON.stringify({
+        data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }]
+      }))
+    });
+    const api = new ChatGPTAPI();
+
+    const vectors = await api.embed(['first', 'second']);
+
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+    const [url, options] = global.fetch.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/embeddings');
+    expect(JSON.parse(options.body)).toEqual({ model: 'text-embedding-3-large', input: ['first', 'second'] });
+  });
+
+  test('should give up on an embeddings request that stalls', async () => {
+    global.fetch.mockImplementation(() => new Promise((resolve, reject) => {
+      const controller = AbortController.mock.results[AbortController.mock.results.length - 1].value;
+      controller.abort.mockImplementation(() => reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' })));
+    }));
+    const api = new ChatGPTAPI();
+
+    const result = expect(api.embed(['text'])).rejects.toThrow('Embeddings request timed out after 60 seconds');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    await result;
+  });
+
+  test('should explain that Anthropic cannot embed notes', async () => {
+    useSettings({ aiProvider: 'anthropic', anthropicApiKey: 'sk-ant-test-key' });
+    const api = new ChatGPTAPI();
+
+    await expect(api.embed(['text'])).rejects.toThrow('Anthropic has no embeddings API');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -20,7 +20,14 @@ global.console = {
 
 const mockJoplin = {
   settings: {
-    value: jest.fn()
+    value: jest.fn(),
+    setValue: jest.fn()
+  },
+  // Unknown models are reported in a dialog and reset to auto-select
+  views: {
+    dialogs: {
+      showMessageBox: jest.fn()
+    }
   }
 };
 global.joplin = mockJoplin;
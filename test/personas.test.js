@@ -0,0 +1,145 @@
+// Tests for switchable system-prompt personas
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { normalizePersonas, PersonaStore, ChatSessionStore } = ChatGPTAPI;
+
+describe('normalizePersonas', () => {
+  test('should keep the default persona first, even when the file leaves it out', () => {
+    const personas = normalizePersonas({
+      personas: [
+        { name: 'Poet', systemPrompt: ' Answer in verse. ', model: 'gpt-4.1', verbosity: ' ' },
+        { name: 'poet', systemPrompt: 'Duplicate' },
+        { systemPrompt: 'No name' }
+      ]
+    });
+
+    expect(personas).toEqual([
+      { id: 'executive-assistant', name: 'Executive Assistant', systemPrompt: '' },
+      { id: 'poet', name: 'Poet', systemPrompt: 'Answer in verse.', model: 'gpt-4.1' }
+    ]);
+  });
+});
+
+describe('PersonaStore', () => {
+  let dataDir;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-personas-'));
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('should write example personas on first load and fall back to the default for unknown ids', () => {
+    const store = new PersonaStore(path.join(dataDir, 'personas.json'));
+    store.load();
+
+    expect(store.getPersonas().map(persona => persona.id)).toEqual(['executive-assistant', 'code-reviewer', 'translator']);
+    expect(store.getPersona('translator').name).toBe('Translator');
+    expect(store.getPersona('deleted-persona').id).toBe('executive-assistant');
+    expect(store.getPersona(undefined).id).toBe('executive-assistant');
+  });
+
+  test('should remember each chat session\'s persona', () => {
+    const sessionsFile = path.join(dataDir, 'chat-sessions.json');
+    const sessions = new ChatSessionStore(sessionsFile);
+    sessions.load();
+    sessions.setSessionPersona(sessions.getActiveSession().id, 'translator');
+    const second = sessions.createSession('Review', 'code-reviewer');
+
+    const reloaded = new ChatSessionStore(sessionsFile);
+    reloaded.load();
+
+    expect(reloaded.getActiveSession().personaId).toBe('code-reviewer');
+    const first = reloaded.switchSession(reloaded.listSessions().find(session => session.id !== second.id).id);
+    expect(first.personaId).toBe('translator');
+  });
+
+  test('should keep a persona\'s model with its chat session', () => {
+    const sessionsFile = path.join(dataDir, 'chat-sessions.json');
+    const sessions = new ChatSessionStore(sessionsFile);
+    sessions.load();
+    const first = sessions.getActiveSession();
+    sessions.setSessionModel(first.id, 'gpt-4.1');
+    const second = sessions.createSession('Review');
+    sessions.setSessionModel(second.id, 'o3');
+    sessions.setSessionModel(second.id, '');
+
+    const reloaded = new ChatSessionStore(sessionsFile);
+    reloaded.load();
+
+    expect(reloaded.getActiveSession()).not.toHaveProperty('model');
+    expect(reloaded.switchSession(first.id).model).toBe('gpt-4.1');
+  });
+});
+
+describe('ChatGPTAPI with a persona', () => {
+  const requestBody = async (api) => {
+    global.fetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: jest.fn(() => 'application/json') },
+      text: jest.fn().mockResolvedValue(JSON.stringify({ choices: [{ message: { content: 'Done' } }] }))
+    });
+    await api.sendMessage('Hello');
+    return JSON.parse(global.fetch.mock.calls[global.fetch.mock.calls.length - 1][1].body);
+  };
+
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-5',
+      maxTokens: 100,
+      systemPrompt: 'From settings',
+      reasoningEffort: 'low',
+      verbosity: 'low',
+      streamResponses: false
+    }[key]));
+  });
+
+  test('should use the persona\'s system prompt and tuning over the settings', async () => {
+    const api = new ChatGPTAPI();
+    api.setPersona({ id: 'code-reviewer', name: 'Code Reviewer', systemPrompt: 'Review code.', reasoningEffort: 'high' });
+
+    const body = await requestBody(api);
+
+    expect(body.messages[0].content).toMatch(/^Review code\./);
+    expect(api.settings.reasoningEffort).toBe('high');
+    expect(api.settings.verbosity).toBe('low');
+  });
+
+  test('should send to the chat\'s own model without changing the Model setting', async () => {
+    joplin.settings.setValue = jest.fn();
+    const api = new ChatGPTAPI();
+    api.setModelOverride('gpt-4.1');
+
+    expect((await requestBody(api)).model).toBe('gpt-4.1');
+    expect(joplin.settings.setValue).not.toHaveBeenCalled();
+
+    api.setModelOverride(null);
+    expect((await requestBody(api)).model).toBe('gpt-5');
+  });
+
+  test('should keep the regular system prompt for a persona without one', async () => {
+    const api = new ChatGPTAPI();
+    api.setSystemPromptOverride('From the notebook');
+    api.setPersona({ id: 'executive-assistant', name: 'Executive Assistant', systemPrompt: '' });
+
+    const body = await requestBody(api);
+
+    expect(body.messages[0].content).toMatch(/^From the notebook/);
+  });
+});
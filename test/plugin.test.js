@@ -36,7 +36,20 @@ describe('ChatGPT Toolkit Plugin Tests', () => {
       'copyChatGPTResponseToClipboard',
       'useNoteAsChatGPTPrompt',
       'openChatGPTPanel',
-      'toggleChatGPTToolbox'
+      'toggleChatGPTToolbox',
+      'improveNoteWithChatGPT',
+      'summarizeNoteWithChatGPT',
+      'undoChatGPTEdit',
+      'showChatGPTEditHistory',
+      'openPromptTemplatesFile',
+      'openPersonasFile',
+      'updateNotesSearchIndex',
+      'runChatGPTBatch',
+      'suggestTagsWithChatGPT',
+      'suggestNotebookWithChatGPT',
+      'generateNoteTitleWithChatGPT',
+      'generateTitlesForUntitledNotes',
+      'extractTasksWithChatGPT'
     ];
 
     expectedCommands.forEach(command => {
@@ -0,0 +1,203 @@
+// Provider adapter tests against a local mock HTTP server
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+const { startProviderServer, sendJson, sendEvents, httpFetch } = require('./mocks/provider-server.js');
+
+const { AzureOpenAIProvider, AnthropicProvider } = ChatGPTAPI;
+
+const mockJoplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+global.joplin = mockJoplin;
+
+const useSettings = (settings) => {
+  mockJoplin.settings.value.mockImplementation((key) => Promise.resolve(settings[key]));
+};
+
+describe('Provider adapters', () => {
+  let server;
+
+  beforeAll(() => {
+    // Real sockets need real timers and a real fetch
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    global.fetch = jest.fn(httpFetch);
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  describe('Azure OpenAI', () => {
+    const azureSettings = (url, overrides = {}) => ({
+      'aiProvider': 'azure',
+      'azureEndpoint': url + '/',
+      'azureApiKey': '0123456789abcdef0123456789abcdef',
+      'azureApiVersion': '2024-10-21',
+      'azureDeployments': 'gpt-4o-prod, gpt-4o-mini',
+      'openaiModel': 'gpt-4o-prod',
+      'maxTokens': 1000,
+      ...overrides
+    });
+
+    test('should call the deployment with api-key header and api-version query', async () => {
+      server = await startProviderServer({
+        'POST /openai/deployments/gpt-4o-prod/chat/completions': (req, body, res) => sendJson(res, 200, {
+          choices: [{ message: { content: 'Azure reply' } }]
+        })
+      });
+      useSettings(azureSettings(server.url));
+      const api = new ChatGPTAPI();
+
+      const result = await api.sendMessage('Hello');
+
+      expect(result).toBe('Azure reply');
+      const [request] = server.requests;
+      expect(request.query.get('api-version')).toBe('2024-10-21');
+      expect(request.headers['api-key']).toBe('0123456789abcdef0123456789abcdef');
+      expect(request.headers['authorization']).toBeUndefined();
+      expect(request.body.model).toBeUndefined();
+      expect(request.body.messages[0].role).toBe('system');
+      expect(request.body.max_completion_tokens).toBe(1000);
+    });
+
+    test('should stream deltas, skipping the prompt filter event', async () => {
+      server = await startProviderServer({
+        'POST /openai/deployments/gpt-4o-prod/chat/completions': (req, body, res) => sendEvents(res, [
+          'data: {"choices":[],"prompt_filter_results":[]}',
+          'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+          'data: {"choices":[{"delta":{"content":"lo"}}]}',
+          'data: [DONE]'
+        ])
+      });
+      useSettings({ ...azureSettings(server.url), 'streamResponses': true });
+      const api = new ChatGPTAPI();
+      const deltas = [];
+
+      const result = await api.sendMessage('Hi', { onDelta: (delta) => deltas.push(delta) });
+
+      expect(result).toBe('Hello');
+      expect(deltas).toEqual(['Hel', 'lo']);
+    });
+
+    test('should map Azure errors into the shared error message format', async () => {
+      server = await startProviderServer({
+        'POST /openai/deployments/gpt-4o-prod/chat/completions': (req, body, res) => sendJson(res, 404, {
+          error: { code: 'DeploymentNotFound', message: 'The API deployment for this resource does not exist.' }
+        })
+      });
+      useSettings(azureSettings(server.url));
+      const api = new ChatGPTAPI();
+
+      await expect(api.sendMessage('Hello')).rejects.toThrow(
+        'Azure OpenAI API error: 404 Not Found. The API deployment for this resource does not exist.'
+      );
+    });
+
+    test('should offer the configured deployments as models', async () => {
+      const provider = new AzureOpenAIProvider('key', 'https://example.openai.azure.com', '', 'gpt-4o-prod, gpt-4o-mini,');
+
+      const models = await provider.listModels();
+
+      expect(models.map(model => model.id)).toEqual(['gpt-4o-prod', 'gpt-4o-mini']);
+    });
+
+    test('should report missing deployments as a configuration error', async () => {
+      useSettings(azureSettings('http://127.0.0.1:1', { 'azureDeployments': '' }));
+      const api = new ChatGPTAPI();
+
+      await expect(api.sendMessage('Hello')).rejects.toThrow('No Azure OpenAI deployments configured');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Anthropic', () => {
+    const anthropicApi = () => {
+      useSettings({
+        'aiProvider': 'anthropic',
+        'anthropicApiKey': 'sk-ant-test-key',
+        'openaiModel': 'claude-sonnet-4-5',
+        'maxTokens': 1000,
+        'streamResponses': true
+      });
+      const api = new ChatGPTAPI();
+      api.getProvider = () => new AnthropicProvider('sk-ant-test-key', server.url + '/v1');
+      return api;
+    };
+
+    test('should send the system prompt as a top-level field and read text blocks', async () => {
+      server = await startProviderServer({
+        'POST /v1/messages': (req, body, res) => sendJson(res, 200, {
+          content: [
+            { type: 'text', text: 'Claude ' },
+            { type: 'text', text: 'reply' }
+          ],
+          stop_reason: 'end_turn'
+        })
+      });
+      const api = anthropicApi();
+
+      const result = await api.sendMessage('Hello');
+
+      expect(result).toBe('Claude reply');
+      const [request] = server.requests;
+      expect(request.headers['x-api-key']).toBe('sk-ant-test-key');
+      expect(request.headers['anthropic-version']).toBe('2023-06-01');
+      expect(request.body.system).toContain('Markdown');
+      expect(request.body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+      expect(request.body.max_tokens).toBe(1000);
+    });
+
+    test('should stream text deltas from content_block_delta events', async () => {
+      server = await startProviderServer({
+        'POST /v1/messages': (req, body, res) => sendEvents(res, [
+          'event: message_start\ndata: {"type":"message_start","message":{"content":[]}}',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi "}}',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"there"}}',
+          'event: message_stop\ndata: {"type":"message_stop"}'
+        ])
+      });
+      const api = anthropicApi();
+      const deltas = [];
+
+      const result = await api.sendMessage('Hello', { onDelta: (delta) => deltas.push(delta) });
+
+      expect(result).toBe('Hi there');
+      expect(deltas).toEqual(['Hi ', 'there']);
+    });
+
+    test('should map Anthropic errors into the shared error message format', async () => {
+      server = await startProviderServer({
+        'POST /v1/messages': (req, body, res) => sendJson(res, 401, {
+          type: 'error',
+          error: { type: 'authentication_error', message: 'invalid x-api-key' }
+        })
+      });
+      const api = anthropicApi();
+
+      await expect(api.sendMessage('Hello')).rejects.toThrow('Anthropic API error: 401 Unauthorized. invalid x-api-key');
+    });
+
+    test('should list models newest first', async () => {
+      server = await startProviderServer({
+        'GET /v1/models': (req, body, res) => sendJson(res, 200, {
+          data: [
+            { id: 'claude-3-5-haiku-20241022', created_at: '2024-10-22T00:00:00Z' },
+            { id: 'claude-sonnet-4-5', created_at: '2025-09-29T00:00:00Z' }
+          ]
+        })
+      });
+      const provider = new AnthropicProvider('sk-ant-test-key', server.url + '/v1');
+
+      const models = await provider.listModels();
+
+      expect(models.map(model => model.id)).toEqual(['claude-sonnet-4-5', 'claude-3-5-haiku-20241022']);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// Tests for the per-note revision log behind undo and edit history
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const { NoteRevisionStore } = require('./ChatGPTAPI-standalone.js');
+
+describe('NoteRevisionStore', () => {
+  let revisionsDir;
+
+  beforeEach(() => {
+    revisionsDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-revisions-')), 'revisions');
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(revisionsDir), { recursive: true, force: true });
+  });
+
+  test('should list revisions newest first and keep them across instances', () => {
+    const store = new NoteRevisionStore(revisionsDir);
+    store.recordRevision('note1', 'first draft', 'Append response');
+    jest.advanceTimersByTime(1000);
+    store.recordRevision('note1', 'second draft', 'Improve note');
+
+    const revisions = new NoteRevisionStore(revisionsDir).listRevisions('note1');
+
+    expect(revisions.map(revision => [revision.body, revision.action])).toEqual([
+      ['second draft', 'Improve note'],
+      ['first draft', 'Append response']
+    ]);
+    expect(new NoteRevisionStore(revisionsDir).listRevisions('note2')).toEqual([]);
+  });
+
+  test('should step back one edit per undo until the log is empty', () => {
+    const store = new NoteRevisionStore(revisionsDir);
+    store.recordRevision('note1', 'original', 'Append response');
+    store.recordRevision('note1', 'after append', 'Replace note');
+
+    expect(store.takeLatestRevision('note1').body).toBe('after append');
+    expect(store.takeLatestRevision('note1').body).toBe('original');
+    expect(store.takeLatestRevision('note1')).toBeNull();
+    expect(fs.existsSync(path.join(revisionsDir, 'note1.json'))).toBe(false);
+  });
+
+  test('should keep the body an edit left only when it is known', () => {
+    const store = new NoteRevisionStore(revisionsDir);
+    store.recordRevision('note1', 'original', 'Improve note', 'improved');
+    store.recordRevision('note1', 'improved', 'Insert response');
+
+    const [selectionEdit, noteEdit] = new NoteRevisionStore(revisionsDir).listRevisions('note1');
+
+    expect(noteEdit.result).toBe('improved');
+    expect(selectionEdit).not.toHaveProperty('result');
+  });
+
+  test('should drop the oldest snapshots beyond the limit', () => {
+    const store = new NoteRevisionStore(revisionsDir);
+    for (let i = 1; i <= 25; i++) {
+      store.recordRevision('note1', `version ${i}`, 'Improve note');
+    }
+
+    const revisions = store.listRevisions('note1');
+
+    expect(revisions).toHaveLength(20);
+    expect(revisions[0].body).toBe('version 25');
+    expect(revisions[19].body).toBe('version 6');
+  });
+
+  test('should look up a revision by id and reject unknown ids', () => {
+    const store = new NoteRevisionStore(revisionsDir);
+    const revision = store.recordRevision('note1', 'original', 'Grammar check');
+
+    expect(store.getRevision('note1', revision.id).body).toBe('original');
+    expect(() => store.getRevision('note1', 'missing')).toThrow('Note revision not found');
+  });
+
+  test('should keep note ids from escaping the revisions folder', () => {
+    const store = new NoteRevisionStore(revisionsDir);
+    store.recordRevision('../outside', 'body', 'Append response');
+
+    expect(fs.readdirSync(revisionsDir)).toEqual(['outside.json']);
+  });
+});
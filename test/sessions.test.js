@@ -0,0 +1,151 @@
+// Tests for persisted chat sessions
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { ChatSessionStore, formatTranscriptMarkdown, parseTranscriptMarkdown } = ChatGPTAPI;
+
+describe('ChatSessionStore', () => {
+  let dataDir;
+  let sessionsFile;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-sessions-'));
+    sessionsFile = path.join(dataDir, 'chat-sessions.json');
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const loadStore = () => {
+    const store = new ChatSessionStore(sessionsFile);
+    store.load();
+    return store;
+  };
+
+  test('should start with one empty session when nothing is saved', () => {
+    const store = loadStore();
+
+    expect(store.listSessions()).toHaveLength(1);
+    expect(store.getActiveSession().messages).toEqual([]);
+    expect(fs.existsSync(sessionsFile)).toBe(true);
+  });
+
+  test('should persist messages, names and the active session across reloads', () => {
+    const store = loadStore();
+    store.renameSession(store.getActiveSession().id, 'Planning');
+    store.appendMessages([
+      { role: 'user', content: 'Draft an agenda', timestamp: 1 },
+      { role: 'assistant', content: '1. Goals', timestamp: 2, model: 'gpt-4.1' }
+    ]);
+    jest.advanceTimersByTime(1000);
+    const second = store.createSession('Research');
+
+    const reloaded = loadStore();
+
+    expect(reloaded.getActiveSession().id).toBe(second.id);
+    expect(reloaded.listSessions().map(session => session.name)).toEqual(['Research', 'Planning']);
+    const planning = reloaded.switchSession(reloaded.listSessions()[1].id);
+    expect(planning.messages).toEqual([
+      { role: 'user', content: 'Draft an agenda', timestamp: 1 },
+      { role: 'assistant', content: '1. Goals', timestamp: 2, model: 'gpt-4.1' }
+    ]);
+  });
+
+  test('should fall back to the most recent session when the active one is deleted', () => {
+    const store = loadStore();
+    const first = store.getActiveSession();
+    jest.advanceTimersByTime(1000);
+    const second = store.createSession('Second');
+
+    const active = store.deleteSession(second.id);
+
+    expect(active.id).toBe(first.id);
+    expect(store.listSessions()).toHaveLength(1);
+  });
+
+  test('should create a fresh session when the last one is deleted', () => {
+    const store = loadStore();
+    const only = store.getActiveSession();
+
+    const active = store.deleteSession(only.id);
+
+    expect(active.id).not.toBe(only.id);
+    expect(store.listSessions()).toHaveLength(1);
+  });
+
+  test('should reject empty names and unknown sessions', () => {
+    const store = loadStore();
+
+    expect(() => store.renameSession(store.getActiveSession().id, '   ')).toThrow('Session name cannot be empty');
+    expect(() => store.switchSession('missing')).toThrow('Chat session not found');
+  });
+
+  test('should start fresh when the sessions file is corrupt', () => {
+    fs.writeFileSync(sessionsFile, '{ not json', 'utf8');
+
+    const store = loadStore();
+
+    expect(store.listSessions()).toHaveLength(1);
+    expect(store.getActiveSession().messages).toEqual([]);
+  });
+});
+
+describe('ChatGPTAPI conversation history from a session', () => {
+  test('should keep only role and content, trimmed to the history budget', () => {
+    const api = new ChatGPTAPI();
+    api.settings.maxTokens = 20; // history budget of 10 tokens (~40 characters)
+
+    api.setConversationHistory([
+      { role: 'user', content: 'x'.repeat(40), timestamp: 1 },
+      { role: 'user', content: 'Short question', timestamp: 2 },
+      { role: 'assistant', content: 'Short answer', timestamp: 3, model: 'gpt-4.1' }
+    ]);
+
+    expect(api.getConversationHistory()).toEqual([
+      { role: 'user', content: 'Short question' },
+      { role: 'assistant', content: 'Short answer' }
+    ]);
+  });
+});
+
+describe('Chat transcripts', () => {
+  const messages = [
+    { role: 'user', content: 'Summarize:\n\n### Q3 goals\n- ship it', timestamp: Date.parse('2025-01-01T10:00:00Z') },
+    { role: 'assistant', content: '## Summary\n\nShip it in Q3.', timestamp: Date.parse('2025-01-01T10:00:05Z'), model: 'gpt-4.1' }
+  ];
+
+  test('should write roles, timestamps and the model into the note', () => {
+    const markdown = formatTranscriptMarkdown({ name: 'Planning', messages });
+
+    expect(markdown).toContain('<!-- chatgpt-message role="user" timestamp="2025-01-01T10:00:00.000Z" -->');
+    expect(markdown).toContain('<!-- chatgpt-message role="assistant" timestamp="2025-01-01T10:00:05.000Z" model="gpt-4.1" -->');
+    expect(markdown).toContain('### 🤖 Assistant (gpt-4.1)');
+  });
+
+  test('should read an exported transcript back unchanged, including headings inside messages', () => {
+    const markdown = formatTranscriptMarkdown({ name: 'Planning', messages });
+
+    expect(parseTranscriptMarkdown(markdown)).toEqual(messages);
+  });
+
+  test('should survive Windows line endings from synced notes', () => {
+    const markdown = formatTranscriptMarkdown({ name: 'Planning', messages }).replace(/\n/g, '\r\n');
+
+    expect(parseTranscriptMarkdown(markdown)).toEqual(messages);
+  });
+
+  test('should return no messages for an ordinary note', () => {
+    expect(parseTranscriptMarkdown('# Meeting notes\n\nNothing to see here.')).toEqual([]);
+  });
+});
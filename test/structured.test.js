@@ -0,0 +1,155 @@
+// Tests for structured (JSON schema) replies
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { validateJsonSchema, AzureOpenAIProvider, AnthropicProvider } = ChatGPTAPI;
+
+const taskSchema = {
+  name: 'tasks',
+  schema: {
+    type: 'object',
+    properties: {
+      tasks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { task: { type: 'string' }, priority: { type: 'string', enum: ['low', 'high'] } },
+          required: ['task', 'priority'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['tasks'],
+    additionalProperties: false
+  }
+};
+
+const requestBody = (call) => JSON.parse(global.fetch.mock.calls[call][1].body);
+
+describe('validateJsonSchema', () => {
+  test('should accept a value that matches', () => {
+    expect(validateJsonSchema({ tasks: [{ task: 'Ship it', priority: 'high' }] }, taskSchema.schema)).toEqual([]);
+  });
+
+  test('should report each problem with its path', () => {
+    const errors = validateJsonSchema({
+      tasks: [{ task: 42, priority: 'urgent' }, { priority: 'low', note: 'extra' }],
+      summary: 'not asked for'
+    }, taskSchema.schema);
+
+    expect(errors).toEqual([
+      '$.tasks[0].task should be string but is integer',
+      '$.tasks[0].priority should be one of "low", "high"',
+      '$.tasks[1].task is missing',
+      '$.tasks[1].note is not allowed',
+      '$.summary is not allowed'
+    ]);
+  });
+
+  test('should accept integers where numbers are expected and union types', () => {
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual(['$ should be integer but is number']);
+  });
+});
+
+describe('ChatGPTAPI.sendStructured', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+  });
+
+  test('should send the schema as response_format and return the parsed reply', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('{"tasks": [{"task": "Ship it", "priority": "high"}]}'));
+    const api = new ChatGPTAPI();
+
+    const result = await api.sendStructured('Find the tasks', taskSchema);
+
+    expect(result).toEqual({ tasks: [{ task: 'Ship it', priority: 'high' }] });
+    expect(requestBody(0).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'tasks', schema: taskSchema.schema, strict: true }
+    });
+    expect(api.getConversationHistory()).toEqual([]);
+  });
+
+  test('should send an invalid reply back with its errors and use the corrected one', async () => {
+    global.fetch
+      .mockResolvedValueOnce(createSuccessfulApiResponse('{"tasks": [{"task": "Ship it"}]}'))
+      .mockResolvedValueOnce(createSuccessfulApiResponse('{"tasks": [{"task": "Ship it", "priority": "low"}]}'));
+    const api = new ChatGPTAPI();
+
+    const result = await api.sendStructured('Find the tasks', taskSchema);
+
+    expect(result.tasks[0].priority).toBe('low');
+    const repairPrompt = requestBody(1).messages.pop().content;
+    expect(repairPrompt).toContain('Find the tasks');
+    expect(repairPrompt).toContain('{"tasks": [{"task": "Ship it"}]}');
+    expect(repairPrompt).toContain('- $.tasks[0].priority is missing');
+  });
+
+  test('should give up after the repair attempts with the schema errors', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('Sorry, I cannot find any tasks.'));
+    const api = new ChatGPTAPI();
+
+    const error = await api.sendStructured('Find the tasks', taskSchema).catch(caught => caught);
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(error.message).toBe("ChatGPT's reply did not match the expected format (tasks): The reply is not a JSON object");
+    expect(error.schemaErrors).toEqual(['The reply is not a JSON object']);
+  });
+
+  test('should use the Responses API format for o3 models and read its output', async () => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'o3',
+      maxTokens: 1000,
+      streamResponses: false
+    }[key]));
+    global.fetch.mockResolvedValue({
+      ...createSuccessfulApiResponse(),
+      text: jest.fn().mockResolvedValue(JSON.stringify({
+        output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text: '{"tasks": []}' }] }]
+      }))
+    });
+    const api = new ChatGPTAPI();
+
+    const result = await api.sendStructured('Find the tasks', taskSchema);
+
+    expect(result).toEqual({ tasks: [] });
+    expect(requestBody(0).text).toEqual({ format: { type: 'json_schema', name: 'tasks', schema: taskSchema.schema, strict: true } });
+    expect(requestBody(0).response_format).toBeUndefined();
+  });
+});
+
+describe('Structured output per provider', () => {
+  const params = {
+    model: 'gpt-4o-prod',
+    messages: [{ role: 'user', content: 'Find the tasks' }],
+    maxTokens: 100,
+    stream: false,
+    responseSchema: taskSchema
+  };
+
+  test('should pass the schema to Azure deployments', () => {
+    const provider = new AzureOpenAIProvider('key', 'https://example.openai.azure.com', '', 'gpt-4o-prod');
+
+    expect(provider.buildChatRequestBody(params).response_format.json_schema.name).toBe('tasks');
+  });
+
+  test('should rely on the prompt alone for Anthropic', () => {
+    const provider = new AnthropicProvider('sk-ant-test-key');
+
+    expect(provider.buildChatRequestBody(params).response_format).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+// Tests for AI-suggested tags, notebooks and note titles
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { parseJsonReply, normalizeTagSuggestions, buildFolderPaths, normalizeNotebookSuggestions, isDefaultNoteTitle, cleanGeneratedTitle } = ChatGPTAPI;
+
+const folders = [
+  { id: 'f1', title: 'Work', parent_id: '' },
+  { id: 'f2', title: 'Projects', parent_id: 'f1' },
+  { id: 'f3', title: 'Importer', parent_id: 'f2' },
+  { id: 'f4', title: 'Home', parent_id: '' }
+];
+
+describe('parseJsonReply', () => {
+  test('should read JSON wrapped in a code fence or a sentence', () => {
+    expect(parseJsonReply('```json\n{"tags": ["budget"]}\n```')).toEqual({ tags: ['budget'] });
+    expect(parseJsonReply('Here you go: {"tags": []} Hope that helps!')).toEqual({ tags: [] });
+  });
+
+  test('should report a reply without JSON', () => {
+    expect(() => parseJsonReply('I would tag it "budget".')).toThrow('Expected a JSON reply but got: I would tag it "budget".');
+  });
+});
+
+describe('normalizeTagSuggestions', () => {
+  test('should match existing tags regardless of case and mark the rest as new', () => {
+    const suggestions = normalizeTagSuggestions(['Budget', ' #finance ', 'budget', '', 42, 'q3 planning'], ['budget', 'hiring']);
+
+    expect(suggestions).toEqual([
+      { title: 'budget', isNew: false },
+      { title: 'finance', isNew: true },
+      { title: 'q3 planning', isNew: true }
+    ]);
+  });
+
+  test('should keep at most eight tags and reject a reply without a list', () => {
+    const many = Array.from({ length: 12 }, (_, index) => `tag ${index}`);
+
+    expect(normalizeTagSuggestions(many, [])).toHaveLength(8);
+    expect(() => normalizeTagSuggestions('budget', [])).toThrow('The reply has no list of tags.');
+  });
+});
+
+describe('Notebook suggestions', () => {
+  test('should name notebooks by their full path', () => {
+    expect(buildFolderPaths(folders)).toEqual([
+      { id: 'f4', path: 'Home' },
+      { id: 'f1', path: 'Work' },
+      { id: 'f2', path: 'Work / Projects' },
+      { id: 'f3', path: 'Work / Projects / Importer' }
+    ]);
+  });
+
+  test('should keep only notebooks that exist, best first', () => {
+    const suggestions = normalizeNotebookSuggestions([
+      { id: 'f3', reason: 'It is about the importer.' },
+      { id: 'made-up', reason: 'Hallucinated' },
+      { id: 'f2' }
+    ], buildFolderPaths(folders));
+
+    expect(suggestions).toEqual([
+      { folderId: 'f3', path: 'Work / Projects / Importer', reason: 'It is about the importer.' },
+      { folderId: 'f2', path: 'Work / Projects', reason: '' }
+    ]);
+    expect(() => normalizeNotebookSuggestions([{ id: 'made-up' }], buildFolderPaths(folders))).toThrow('did not suggest any of your notebooks');
+  });
+});
+
+describe('Generated note titles', () => {
+  test('should treat empty, untitled and reply-default titles as replaceable', () => {
+    ['', '   ', 'Untitled', 'untitled 3', 'New note', 'ChatGPT Response - 1/2/2025, 10:00:00 AM'].forEach(title => {
+      expect(isDefaultNoteTitle(title)).toBe(true);
+    });
+    ['Untitled ideas', 'Q3 Budget Review', 'ChatGPT tips'].forEach(title => {
+      expect(isDefaultNoteTitle(title)).toBe(false);
+    });
+  });
+
+  test('should strip labels, heading marks and quotes from the reply', () => {
+    expect(cleanGeneratedTitle('Title: "Q3 Budget Cuts and Open Questions".')).toBe('Q3 Budget Cuts and Open Questions');
+    expect(cleanGeneratedTitle('\n# **Hiring Plan for H1**\n\nThis title reflects...')).toBe('Hiring Plan for H1');
+  });
+
+  test('should cut an overlong title at a word boundary', () => {
+    const title = cleanGeneratedTitle(Array.from({ length: 30 }, () => 'word').join(' '));
+
+    expect(title.length).toBeLessThanOrEqual(80);
+    expect(title.endsWith('word')).toBe(true);
+  });
+});
+
+describe('ChatGPTAPI suggestions', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+  });
+
+  test('should send the existing tags with the note and keep the exchange out of the chat', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('{"tags": ["Budget", "finance"]}'));
+    const api = new ChatGPTAPI();
+
+    const tags = await api.suggestTags({ title: 'Q3 Budget Review', body: 'Marketing budget is cut.' }, ['budget', 'hiring']);
+
+    expect(tags).toEqual([{ title: 'budget', isNew: false }, { title: 'finance', isNew: true }]);
+    const prompt = JSON.parse(global.fetch.mock.calls[0][1].body).messages.pop().content;
+    expect(prompt).toContain('Existing tags: budget, hiring');
+    expect(prompt).toContain('Marketing budget is cut.');
+    expect(api.getConversationHistory()).toEqual([]);
+  });
+
+  test('should generate a title without recording it in the chat', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('{"title": "Importer Roadmap Milestones."}'));
+    const api = new ChatGPTAPI();
+
+    const title = await api.generateTitle('Milestone 1: CSV importer.');
+
+    expect(title).toBe('Importer Roadmap Milestones');
+    expect(api.getConversationHistory()).toEqual([]);
+  });
+
+  test('should list notebooks by id and path in the notebook prompt', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse('{"notebooks": [{"id": "f3", "reason": "Importer work."}]}'));
+    const api = new ChatGPTAPI();
+
+    const notebooks = await api.suggestNotebook({ title: 'ENEX notes', body: 'Attachments are dropped.' }, buildFolderPaths(folders));
+
+    expect(notebooks).toEqual([{ folderId: 'f3', path: 'Work / Projects / Importer', reason: 'Importer work.' }]);
+    const prompt = JSON.parse(global.fetch.mock.calls[0][1].body).messages.pop().content;
+    expect(prompt).toContain('- f3: Work / Projects / Importer');
+  });
+});
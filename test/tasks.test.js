@@ -0,0 +1,78 @@
+// Tests for extracting action items into to-dos
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { normalizeExtractedTasks, parseTaskDueDate, formatTaskNoteBody } = ChatGPTAPI;
+
+describe('normalizeExtractedTasks', () => {
+  test('should trim tasks, drop blank ones and clear due dates that are not dates', () => {
+    const tasks = normalizeExtractedTasks([
+      { task: ' Send Sam the roadmap ', owner: 'Priya', due: '2025-07-04' },
+      { task: '', owner: 'Sam' },
+      { task: 'Confirm the hosting budget', owner: null, due: 'next week' },
+      { task: 'Book the venue', due: '2025-02-30' },
+      'not a task'
+    ]);
+
+    expect(tasks).toEqual([
+      { task: 'Send Sam the roadmap', owner: 'Priya', due: '2025-07-04' },
+      { task: 'Confirm the hosting budget', owner: '', due: '' },
+      { task: 'Book the venue', owner: '', due: '' }
+    ]);
+  });
+
+  test('should reject a reply without a list of tasks', () => {
+    expect(() => normalizeExtractedTasks({ task: 'Only one' })).toThrow('The reply has no list of tasks.');
+  });
+});
+
+describe('To-do fields', () => {
+  test('should set the due time to 9:00 local time on the due date', () => {
+    const due = new Date(parseTaskDueDate('2025-07-04'));
+
+    expect([due.getFullYear(), due.getMonth(), due.getDate(), due.getHours()]).toEqual([2025, 6, 4, 9]);
+    expect(parseTaskDueDate('')).toBe(0);
+    expect(parseTaskDueDate('04/07/2025')).toBe(0);
+  });
+
+  test('should link the to-do back to its source note', () => {
+    const source = { id: 'a1000000000000000000000000000004', title: 'Weekly 1:1 with Sam' };
+
+    expect(formatTaskNoteBody({ task: 'Send Sam the roadmap', owner: 'Priya', due: '' }, source))
+      .toBe('**Owner:** Priya\n\nFrom [Weekly 1:1 with Sam](:/a1000000000000000000000000000004)');
+    expect(formatTaskNoteBody({ task: 'Send Sam the roadmap', owner: '', due: '' }, source))
+      .toBe('From [Weekly 1:1 with Sam](:/a1000000000000000000000000000004)');
+  });
+});
+
+describe('ChatGPTAPI task extraction', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+  });
+
+  test('should give the model today\'s date for relative due dates and keep the exchange out of the chat', async () => {
+    global.fetch.mockResolvedValue(createSuccessfulApiResponse(
+      '```json\n{"tasks": [{"task": "Send Sam the roadmap", "owner": "", "due": "2025-07-11"}]}\n```'
+    ));
+    const api = new ChatGPTAPI();
+
+    const tasks = await api.extractTasks({ title: 'Weekly 1:1 with Sam', body: 'Action: send Sam the roadmap by next Friday.' }, '2025-07-03');
+
+    expect(tasks).toEqual([{ task: 'Send Sam the roadmap', owner: '', due: '2025-07-11' }]);
+    const prompt = JSON.parse(global.fetch.mock.calls[0][1].body).messages.pop().content;
+    expect(prompt).toContain('Today is 2025-07-03');
+    expect(prompt).toContain('Action: send Sam the roadmap by next Friday.');
+    expect(api.getConversationHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+// Tests for user-defined prompt templates
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { renderPromptTemplate, normalizePromptTemplates, PromptTemplateStore, readPromptNotes } = ChatGPTAPI;
+
+describe('renderPromptTemplate', () => {
+  const context = {
+    selection: 'selected words',
+    noteTitle: 'Weekly sync',
+    noteBody: '- ship it',
+    date: '1/1/2025'
+  };
+
+  test('should fill in every supported placeholder', () => {
+    const prompt = renderPromptTemplate('{{note.title}} ({{date}}): {{ selection }}\n\n{{note.body}}', context);
+
+    expect(prompt).toBe('Weekly sync (1/1/2025): selected words\n\n- ship it');
+  });
+
+  test('should leave unknown placeholders as written', () => {
+    expect(renderPromptTemplate('Hello {{name}}', context)).toBe('Hello {{name}}');
+  });
+
+  test('should not expand placeholders that appear inside the inserted text', () => {
+    const prompt = renderPromptTemplate('{{selection}} / {{note.title}}', { ...context, selection: '{{note.title}}' });
+
+    expect(prompt).toBe('{{note.title}} / Weekly sync');
+  });
+});
+
+describe('normalizePromptTemplates', () => {
+  test('should skip incomplete entries, default the target and make ids unique', () => {
+    const templates = normalizePromptTemplates({
+      templates: [
+        { name: 'Tidy Up', prompt: 'Tidy {{selection}}', target: 'replaceSelection' },
+        { name: 'Tidy up', prompt: 'Tidy {{note.body}}', target: 'sideways' },
+        { name: '', prompt: 'No name' },
+        { name: 'No prompt' }
+      ]
+    });
+
+    expect(templates).toEqual([
+      { id: 'tidy-up', name: 'Tidy Up', prompt: 'Tidy {{selection}}', target: 'replaceSelection' },
+      { id: 'tidy-up-2', name: 'Tidy up', prompt: 'Tidy {{note.body}}', target: 'chat' }
+    ]);
+  });
+});
+
+describe('PromptTemplateStore', () => {
+  let dataDir;
+  let templatesFile;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-templates-'));
+    templatesFile = path.join(dataDir, 'prompt-templates.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('should write example templates on first load', () => {
+    const store = new PromptTemplateStore(templatesFile);
+    store.load();
+
+    expect(fs.existsSync(templatesFile)).toBe(true);
+    expect(store.getTemplates().map(template => template.target)).toEqual(['append', 'replaceSelection', 'newNote', 'chat']);
+  });
+
+  test('should keep the last good templates when the file becomes corrupt', () => {
+    fs.writeFileSync(templatesFile, JSON.stringify([{ name: 'Mine', prompt: 'Do {{selection}}' }]), 'utf8');
+    const store = new PromptTemplateStore(templatesFile);
+    store.load();
+    fs.writeFileSync(templatesFile, '{ not json', 'utf8');
+
+    store.load();
+
+    expect(store.getTemplate('mine').prompt).toBe('Do {{selection}}');
+    expect(() => store.getTemplate('missing')).toThrow('Prompt template not found');
+  });
+});
+
+describe('Prompts notebook', () => {
+  const note = (title, body, tags = []) => ({ id: title, title, body, tags });
+
+  test('should take the system prompt from its note and every other note as a template', () => {
+    const prompts = readPromptNotes([
+      note('Tidy Up', 'Tidy this:\n\n{{selection}}\n', ['replace-selection']),
+      note('system prompt', '  You are terse.  '),
+      note('Brainstorm', 'Ideas for {{note.title}}'),
+      note('Minutes', 'Write minutes for {{note.body}}', ['work', 'new-note'])
+    ]);
+
+    expect(prompts.systemPrompt).toBe('You are terse.');
+    expect(prompts.templates).toEqual([
+      { id: 'brainstorm', name: 'Brainstorm', prompt: 'Ideas for {{note.title}}', target: 'chat' },
+      { id: 'minutes', name: 'Minutes', prompt: 'Write minutes for {{note.body}}', target: 'newNote' },
+      { id: 'tidy-up', name: 'Tidy Up', prompt: 'Tidy this:\n\n{{selection}}', target: 'replaceSelection' }
+    ]);
+  });
+
+  test('should prefer the system-prompt tag over the title', () => {
+    const prompts = readPromptNotes([
+      note('System Prompt', 'From the title'),
+      note('House Style', 'From the tag', ['System-Prompt'])
+    ]);
+
+    expect(prompts.systemPrompt).toBe('From the tag');
+    expect(prompts.templates.map(template => template.name)).toEqual(['System Prompt']);
+  });
+
+  test('should use notebook templates over the file until cleared', () => {
+    const store = new PromptTemplateStore('/nonexistent/prompt-templates.json');
+    store.setNotebookTemplates(readPromptNotes([note('Brainstorm', 'Ideas')]).templates);
+
+    expect(store.getTemplate('brainstorm').prompt).toBe('Ideas');
+
+    store.setNotebookTemplates(null);
+    expect(store.getTemplates()).toEqual([]);
+  });
+
+  test('should send the notebook system prompt instead of the configured one', async () => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 100,
+      systemPrompt: 'From settings',
+      streamResponses: false
+    }[key]));
+    global.fetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: jest.fn(() => 'application/json') },
+      text: jest.fn().mockResolvedValue(JSON.stringify({ choices: [{ message: { content: 'Done' } }] }))
+    });
+    const api = new ChatGPTAPI();
+    api.setSystemPromptOverride('From the notebook');
+
+    await api.sendMessage('Hello');
+
+    const body = JSON.parse(global.fetch.mock.calls[0][1].body);
+    expect(body.messages[0].content).toMatch(/^From the notebook/);
+  });
+});
@@ -0,0 +1,191 @@
+// Tests for letting the chat call note tools
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const ChatGPTAPI = require('./ChatGPTAPI-standalone.js');
+
+const { NOTE_TOOLS, parseToolArguments, truncateNoteForTool, OpenAIProvider, AnthropicProvider } = ChatGPTAPI;
+
+const toolCallResponse = (calls) => ({
+  ...createSuccessfulApiResponse(),
+  text: jest.fn().mockResolvedValue(JSON.stringify({
+    choices: [{
+      message: {
+        content: null,
+        tool_calls: calls.map(([id, name, args]) => ({ id, type: 'function', function: { name, arguments: args } }))
+      }
+    }]
+  }))
+});
+
+const requestBody = (call) => JSON.parse(global.fetch.mock.calls[call][1].body);
+
+const toolTurn = [
+  { role: 'user', content: 'Tag my budget note' },
+  { role: 'assistant', content: '', toolCalls: [
+    { id: 'call_1', name: 'search_notes', arguments: { query: 'budget' } },
+    { id: 'call_2', name: 'list_notebooks', arguments: {} }
+  ] },
+  { role: 'tool', toolCallId: 'call_1', content: '[{"id":"n1","title":"Q3 Budget"}]' },
+  { role: 'tool', toolCallId: 'call_2', content: '[]' }
+];
+
+describe('ChatGPTAPI tool loop', () => {
+  beforeEach(() => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'gpt-4.1',
+      maxTokens: 1000,
+      systemPrompt: 'From settings',
+      streamResponses: true
+    }[key]));
+  });
+
+  test('should run the tool calls, send the results back and record only the answer', async () => {
+    global.fetch
+      .mockResolvedValueOnce(toolCallResponse([['call_1', 'search_notes', '{"query": "budget"}']]))
+      .mockResolvedValueOnce(createSuccessfulApiResponse('Your budget note is "Q3 Budget".'));
+    const onToolCall = jest.fn().mockResolvedValue('[{"id":"n1","title":"Q3 Budget"}]');
+    const api = new ChatGPTAPI();
+
+    const reply = await api.sendMessage('Find my budget note', { tools: NOTE_TOOLS, onToolCall, onDelta: jest.fn() });
+
+    expect(reply).toBe('Your budget note is "Q3 Budget".');
+    expect(onToolCall).toHaveBeenCalledWith({ id: 'call_1', name: 'search_notes', arguments: { query: 'budget' } });
+    const first = requestBody(0);
+    expect(first.stream).toBe(false);
+    expect(first.tools.map(tool => tool.function.name)).toEqual(['search_notes', 'read_note', 'list_notebooks', 'create_note', 'append_to_note', 'add_tag']);
+    expect(requestBody(1).messages.slice(-2)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_notes', arguments: '{"query":"budget"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '[{"id":"n1","title":"Q3 Budget"}]' }
+    ]);
+    expect(api.getConversationHistory()).toEqual([
+      { role: 'user', content: 'Find my budget note' },
+      { role: 'assistant', content: 'Your budget note is "Q3 Budget".' }
+    ]);
+  });
+
+  test('should report bad arguments, unknown tools and failures to the model instead of stopping', async () => {
+    global.fetch
+      .mockResolvedValueOnce(toolCallResponse([
+        ['call_1', 'read_note', '{"noteId": "n1"}'],
+        ['call_2', 'delete_note', '{"id": "n1"}'],
+        ['call_3', 'read_note', '{"id": "missing"}']
+      ]))
+      .mockResolvedValueOnce(createSuccessfulApiResponse('I could not read that note.'));
+    const onToolCall = jest.fn().mockRejectedValue(new Error('Not found: missing'));
+    const api = new ChatGPTAPI();
+
+    await api.sendMessage('Read note n1', { tools: NOTE_TOOLS, onToolCall });
+
+    expect(onToolCall).toHaveBeenCalledTimes(1);
+    const results = requestBody(1).messages.filter(message => message.role === 'tool').map(message => message.content);
+    expect(results).toEqual([
+      'Error: the arguments do not match the read_note schema:\n- $.id is missing\n- $.noteId is not allowed',
+      'Error: there is no tool named delete_note.',
+      'Error: Not found: missing'
+    ]);
+  });
+
+  test('should finish a tool conversation on the Responses API', async () => {
+    joplin.settings.value.mockImplementation((key) => Promise.resolve({
+      openaiApiKey: 'sk-test1234567890abcdef',
+      openaiModel: 'o3',
+      maxTokens: 1000,
+      streamResponses: false
+    }[key]));
+    const responsesReply = (output) => ({
+      ...createSuccessfulApiResponse(),
+      text: jest.fn().mockResolvedValue(JSON.stringify({ output }))
+    });
+    global.fetch
+      .mockResolvedValueOnce(responsesReply([
+        { type: 'reasoning', summary: [] },
+        { type: 'function_call', call_id: 'call_1', name: 'search_notes', arguments: '{"query": "budget"}' }
+      ]))
+      .mockResolvedValueOnce(responsesReply([
+        { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Your budget note is "Q3 Budget".' }] }
+      ]));
+    const onToolCall = jest.fn().mockResolvedValue('[{"id":"n1","title":"Q3 Budget"}]');
+    const api = new ChatGPTAPI();
+
+    const reply = await api.sendMessage('Find my budget note', { tools: NOTE_TOOLS, onToolCall });
+
+    expect(reply).toBe('Your budget note is "Q3 Budget".');
+    expect(global.fetch.mock.calls[1][0]).toBe('https://api.openai.com/v1/responses');
+    expect(requestBody(1).input.slice(-2)).toEqual([
+      { type: 'function_call', call_id: 'call_1', name: 'search_notes', arguments: '{"query":"budget"}' },
+      { type: 'function_call_output', call_id: 'call_1', output: '[{"id":"n1","title":"Q3 Budget"}]' }
+    ]);
+  });
+
+  test('should give up when the model keeps calling tools', async () => {
+    global.fetch.mockImplementation(() => Promise.resolve(toolCallResponse([['call_1', 'list_notebooks', '{}']])));
+    const api = new ChatGPTAPI();
+
+    await expect(api.sendMessage('Organize everything', { tools: NOTE_TOOLS, onToolCall: async () => '[]' }))
+      .rejects.toThrow('still calling tools after 8 rounds');
+    expect(global.fetch).toHaveBeenCalledTimes(9);
+    expect(api.getConversationHistory()).toEqual([]);
+  });
+});
+
+describe('Tool calls per provider', () => {
+  test('should use function_call items on the Responses API', () => {
+    const provider = new OpenAIProvider('sk-test1234567890abcdef');
+    const body = provider.buildChatRequestBody({ model: 'o3', messages: toolTurn, maxTokens: 100, stream: false, tools: NOTE_TOOLS.slice(0, 1) });
+
+    expect(body.tools).toEqual([{ type: 'function', name: 'search_notes', description: NOTE_TOOLS[0].description, parameters: NOTE_TOOLS[0].parameters }]);
+    expect(body.input.slice(1)).toEqual([
+      { type: 'function_call', call_id: 'call_1', name: 'search_notes', arguments: '{"query":"budget"}' },
+      { type: 'function_call', call_id: 'call_2', name: 'list_notebooks', arguments: '{}' },
+      { type: 'function_call_output', call_id: 'call_1', output: '[{"id":"n1","title":"Q3 Budget"}]' },
+      { type: 'function_call_output', call_id: 'call_2', output: '[]' }
+    ]);
+    expect(provider.parseToolCalls({ output: [{ type: 'function_call', call_id: 'call_9', name: 'read_note', arguments: '{"id":"n1"}' }] }))
+      .toEqual([{ id: 'call_9', name: 'read_note', arguments: { id: 'n1' } }]);
+  });
+
+  test('should send Anthropic tool results together in one user turn', () => {
+    const provider = new AnthropicProvider('sk-ant-test-key');
+    const body = provider.buildChatRequestBody({ model: 'claude-sonnet-4-5', messages: toolTurn, maxTokens: 100, stream: false, tools: NOTE_TOOLS.slice(0, 1) });
+
+    expect(body.tools).toEqual([{ name: 'search_notes', description: NOTE_TOOLS[0].description, input_schema: NOTE_TOOLS[0].parameters }]);
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'Tag my budget note' },
+      { role: 'assistant', content: [
+        { type: 'tool_use', id: 'call_1', name: 'search_notes', input: { query: 'budget' } },
+        { type: 'tool_use', id: 'call_2', name: 'list_notebooks', input: {} }
+      ] },
+      { role: 'user', content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: '[{"id":"n1","title":"Q3 Budget"}]' },
+        { type: 'tool_result', tool_use_id: 'call_2', content: '[]' }
+      ] }
+    ]);
+    expect(provider.parseToolCalls({ content: [{ type: 'text', text: 'Let me look.' }, { type: 'tool_use', id: 'toolu_1', name: 'read_note', input: { id: 'n1' } }] }))
+      .toEqual([{ id: 'toolu_1', name: 'read_note', arguments: { id: 'n1' } }]);
+  });
+});
+
+describe('Tool helpers', () => {
+  test('should parse JSON arguments and mark invalid ones', () => {
+    expect(parseToolArguments('{"id": "n1"}')).toEqual({ id: 'n1' });
+    expect(parseToolArguments('')).toEqual({});
+    expect(parseToolArguments('{"id": ')).toBeNull();
+    expect(parseToolArguments({ id: 'n1' })).toEqual({ id: 'n1' });
+  });
+
+  test('should cut long notes and say how long they are', () => {
+    const body = 'x'.repeat(9000);
+
+    expect(truncateNoteForTool('Short note')).toBe('Short note');
+    expect(truncateNoteForTool(body)).toBe(`${'x'.repeat(8000)}\n\n[Truncated: the note is 9000 characters long]`);
+  });
+});
@@ -0,0 +1,91 @@
+// Tests for hot-reloading the prompt files
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+global.joplin = {
+  settings: {
+    value: jest.fn()
+  }
+};
+
+const { DataFileWatcher, PersonaStore } = require('./ChatGPTAPI-standalone.js');
+
+// Resolves with the next file name reported by the watcher
+const nextChange = (changes) => new Promise(resolve => changes.push(resolve));
+
+describe('DataFileWatcher', () => {
+  let dataDir;
+  let watcher;
+
+  beforeAll(() => {
+    // fs.watch events and the debounce need real timers
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-watch-'));
+  });
+
+  afterEach(() => {
+    if (watcher) {
+      watcher.stop();
+      watcher = null;
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('should report a burst of writes to a watched file once', async () => {
+    const reported = [];
+    const waiting = [];
+    watcher = new DataFileWatcher(dataDir, ['system-prompt.txt'], (fileName) => {
+      reported.push(fileName);
+      waiting.splice(0).forEach(resolve => resolve(fileName));
+    }, 100);
+    watcher.start();
+
+    const change = nextChange(waiting);
+    fs.writeFileSync(path.join(dataDir, 'system-prompt.txt'), 'one', 'utf8');
+    fs.writeFileSync(path.join(dataDir, 'system-prompt.txt'), 'two', 'utf8');
+    fs.appendFileSync(path.join(dataDir, 'system-prompt.txt'), ' three', 'utf8');
+
+    await expect(change).resolves.toBe('system-prompt.txt');
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect(reported).toEqual(['system-prompt.txt']);
+  });
+
+  test('should ignore files it is not watching and stop when asked', async () => {
+    const reported = [];
+    watcher = new DataFileWatcher(dataDir, ['personas.json'], (fileName) => reported.push(fileName), 50);
+    watcher.start();
+
+    fs.writeFileSync(path.join(dataDir, 'chat-sessions.json'), '{}', 'utf8');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    watcher.stop();
+    fs.writeFileSync(path.join(dataDir, 'personas.json'), '{}', 'utf8');
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(reported).toEqual([]);
+  });
+});
+
+describe('Reloading a file that fails to parse', () => {
+  test('should report the error and keep the previous personas', () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatgpt-watch-'));
+    const personasFile = path.join(dataDir, 'personas.json');
+    try {
+      fs.writeFileSync(personasFile, JSON.stringify({ personas: [{ name: 'Poet', systemPrompt: 'Verse' }] }), 'utf8');
+      const store = new PersonaStore(personasFile);
+      store.load();
+      expect(store.getLoadError()).toBeNull();
+
+      fs.writeFileSync(personasFile, '{ "personas": [', 'utf8');
+      store.load();
+
+      expect(store.getLoadError()).toMatch(/JSON/);
+      expect(store.getPersona('poet').systemPrompt).toBe('Verse');
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});